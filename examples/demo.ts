@@ -1,4 +1,4 @@
-import { X402MultiSig, type PaymentRequirements } from '../src/index.js';
+import { X402MultiSig, createConsoleLogger, type PaymentRequirements } from '../src/index.js';
 async function main() {
   try { // Configuration section (please replace the following placeholders according to actual situation)
     const x402CanisterId = 'pvs3u-xaaaa-aaaab-acbna-cai'; // Your Canister ID (required, replace with your Canister ID, i.e., organization ID)
@@ -26,6 +26,7 @@ async function main() {
       x402CanisterId,
       displayName: 'X402 Payment Bot',
       username: 'payment_bot',
+      logger: createConsoleLogger(), // SDK is silent by default
     });
     const serviceResponse = await bot.callPaidService({ // Call SDK to paid service
       vaultId,
@@ -11,6 +11,8 @@ import { HttpAgent, Actor, ActorSubclass } from '@dfinity/agent';
 import { IDL } from '@dfinity/candid';
 import { Identity } from '@dfinity/agent';
 import { Principal } from '@dfinity/principal';
+import { CanisterCallError, X402MultiSigError } from '../errors.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
 
 /**
  * IC Agent Client
@@ -23,15 +25,23 @@ export class IcAgentClient {
   /** Identity being used */
   private identity: Identity;
 
+  /** Logger (bound to the IcAgentClient component) */
+  private logger: Logger;
+
+  /** Supplies the identity to sign with before each call (optional, e.g. refreshing session delegations) */
+  private identityProvider?: () => Promise<Identity>;
+
   /**
    * Create a new IC Agent client (private constructor, use create static method)
    *
    * @param agent - HttpAgent instance
    * @param identity - Identity used for signing
+   * @param logger - Logger (bound to the IcAgentClient component)
    */
-  private constructor(agent: HttpAgent, identity: Identity) {
+  private constructor(agent: HttpAgent, identity: Identity, logger: Logger) {
     this.agent = agent;
     this.identity = identity;
+    this.logger = logger;
   }
 
   /**
@@ -39,6 +49,7 @@ export class IcAgentClient {
    *
    * @param identity - Identity used for signing (contains Ed25519 key pair)
    * @param host - IC network host address (defaults to "https://ic0.app")
+   * @param logger - Logger (optional, defaults to silent)
    * @returns IcAgentClient instance
    *
    * @example
@@ -46,9 +57,13 @@ export class IcAgentClient {
    * const client = await IcAgentClient.create(identity, "https://ic0.app");
    * ```
    */
-  static async create(identity: Identity, host: string = 'https://ic0.app'): Promise<IcAgentClient> {
-    console.log('Creating IC Agent client...');
-    console.log(`Host address: ${host}`);
+  static async create(
+    identity: Identity,
+    host: string = 'https://ic0.app',
+    logger: Logger = silentLogger
+  ): Promise<IcAgentClient> {
+    const componentLogger = logger.child({ component: 'IcAgentClient' });
+    componentLogger.debug('Creating IC Agent client', { host });
 
     // Create Agent (specifically configured for mainnet)
     const agent = await HttpAgent.create({
@@ -59,11 +74,11 @@ export class IcAgentClient {
     // Mainnet environment does not need to fetch root key (built-in)
     // If in local development environment, need to call agent.fetchRootKey()
     if (host.includes('127.0.0.1') || host.includes('localhost')) {
-      console.log('Local environment detected, fetching root key...');
+      componentLogger.debug('Local environment detected, fetching root key', { host });
       await agent.fetchRootKey();
     }
 
-    return new IcAgentClient(agent, identity);
+    return new IcAgentClient(agent, identity, componentLogger);
   }
 
   /**
@@ -86,6 +101,19 @@ export class IcAgentClient {
     });
   }
 
+  /**
+   * Create a typed Actor signing with the current identity
+   * Unlike createActor, the identity provider (if set) is consulted first
+   *
+   * @param canisterId - Canister's Principal ID
+   * @param idlFactory - Candid interface definition factory function
+   * @returns Actor instance
+   */
+  async getActor<T>(canisterId: Principal, idlFactory: IDL.InterfaceFactory): Promise<ActorSubclass<T>> {
+    await this.syncIdentity();
+    return this.createActor<T>(canisterId, idlFactory);
+  }
+
   /**
    * Call Canister's update method (modifies state)
    *
@@ -117,7 +145,9 @@ export class IcAgentClient {
     args: unknown[],
     idlFactory: IDL.InterfaceFactory
   ): Promise<T> {
-    console.log(`Calling Canister update method: ${canisterId.toText()}::${methodName}`);
+    const fields = { canisterId: canisterId.toText(), method: methodName };
+    this.logger.debug('Calling Canister update method', fields);
+    await this.syncIdentity();
 
     try {
       // Create Actor
@@ -129,11 +159,11 @@ export class IcAgentClient {
       // Call method
       const result = await actor[methodName](...args);
 
-      console.log(`✅ Call successful: ${canisterId.toText()}::${methodName}`);
+      this.logger.debug('Update call successful', fields);
       return result as T;
     } catch (error) {
-      console.error(`❌ Call failed: ${canisterId.toText()}::${methodName}`);
-      throw new Error(`Failed to call update method: ${error}`);
+      this.logger.error('Update call failed', { ...fields, error });
+      throw toCanisterCallError(error, canisterId, methodName, 'update');
     }
   }
 
@@ -165,9 +195,11 @@ export class IcAgentClient {
     silent: boolean = false
   ): Promise<T> {
     // Do not print logs in silent mode
+    const fields = { canisterId: canisterId.toText(), method: methodName };
     if (!silent) {
-      console.log(`Calling Canister query method: ${canisterId.toText()}::${methodName}`);
+      this.logger.debug('Calling Canister query method', fields);
     }
+    await this.syncIdentity();
 
     try {
       // Create Actor
@@ -180,12 +212,12 @@ export class IcAgentClient {
       const result = await actor[methodName](...args);
 
       if (!silent) {
-        console.log(`✅ Query successful: ${canisterId.toText()}::${methodName}`);
+        this.logger.debug('Query call successful', fields);
       }
       return result as T;
     } catch (error) {
-      console.error(`❌ Query failed: ${canisterId.toText()}::${methodName}`);
-      throw new Error(`Failed to call query method: ${error}`);
+      this.logger.error('Query call failed', { ...fields, error });
+      throw toCanisterCallError(error, canisterId, methodName, 'query');
     }
   }
 
@@ -199,7 +231,7 @@ export class IcAgentClient {
       const status = await this.agent.status();
       return status;
     } catch (error) {
-      throw new Error(`Failed to get Agent status: ${error}`);
+      throw new X402MultiSigError(`Failed to get Agent status: ${error}`, { cause: error });
     }
   }
 
@@ -229,6 +261,84 @@ export class IcAgentClient {
   getIdentity(): Identity {
     return this.identity;
   }
+
+  /**
+   * Replace the identity used for signing subsequent calls
+   *
+   * @param identity - New identity
+   */
+  replaceIdentity(identity: Identity): void {
+    this.agent.replaceIdentity(identity);
+    this.identity = identity;
+    this.logger.debug('Identity replaced', { principal: identity.getPrincipal().toText() });
+  }
+
+  /**
+   * Set a provider consulted before each call for the identity to sign with
+   * The identity is replaced whenever the provider returns a different instance
+   *
+   * @param provider - Identity provider (undefined to remove it)
+   *
+   * @example
+   * ```typescript
+   * const sessions = new SessionManager(masterIdentity, { targets: [canisterId] });
+   * client.setIdentityProvider(() => sessions.getIdentity());
+   * ```
+   */
+  setIdentityProvider(provider: (() => Promise<Identity>) | undefined): void {
+    this.identityProvider = provider;
+  }
+
+  /**
+   * Switch to the provider's current identity (if a provider is set)
+   */
+  private async syncIdentity(): Promise<void> {
+    if (!this.identityProvider) {
+      return;
+    }
+    const identity = await this.identityProvider();
+    if (identity !== this.identity) {
+      this.replaceIdentity(identity);
+    }
+  }
+}
+
+/**
+ * Wrap an error thrown by an actor call into a CanisterCallError
+ *
+ * The replica reject code is read from the agent's rejection errors
+ * (UpdateCallRejectedError.reject_code, QueryCallRejectedError.result.reject_code),
+ * falling back to the "Reject code: N" line of certified rejection messages.
+ *
+ * @param error - Error thrown by the actor
+ * @param canisterId - Target Canister ID
+ * @param methodName - Called method name
+ * @param callType - Call type, used in the error message
+ * @returns CanisterCallError with the original error as cause
+ */
+function toCanisterCallError(
+  error: unknown,
+  canisterId: Principal,
+  methodName: string,
+  callType: 'update' | 'query'
+): CanisterCallError {
+  const details = error as { reject_code?: unknown; result?: { reject_code?: unknown }; message?: unknown };
+  let rejectCode: number | undefined;
+  if (typeof details?.reject_code === 'number') {
+    rejectCode = details.reject_code;
+  } else if (typeof details?.result?.reject_code === 'number') {
+    rejectCode = details.result.reject_code;
+  } else if (typeof details?.message === 'string') {
+    const match = /Reject code: (\d+)/.exec(details.message);
+    rejectCode = match ? Number(match[1]) : undefined;
+  }
+
+  return new CanisterCallError(
+    `Failed to call ${callType} method ${canisterId.toText()}::${methodName}: ` +
+    `${error instanceof Error ? error.message : String(error)}`,
+    { canisterId: canisterId.toText(), method: methodName, rejectCode },
+    { cause: error }
+  );
 }
 
 /**
@@ -236,6 +346,7 @@ export class IcAgentClient {
  * Creates client using default IC mainnet endpoint (https://ic0.app)
  *
  * @param identity - Identity used for signing
+ * @param logger - Logger (optional, defaults to silent)
  * @returns IcAgentClient instance
  *
  * @example
@@ -246,6 +357,9 @@ export class IcAgentClient {
  * const client = await createMainnetClient(identity);
  * ```
  */
-export async function createMainnetClient(identity: Identity): Promise<IcAgentClient> {
-  return IcAgentClient.create(identity, 'https://ic0.app'); // IC mainnet default endpoint
+export async function createMainnetClient(
+  identity: Identity,
+  logger: Logger = silentLogger
+): Promise<IcAgentClient> {
+  return IcAgentClient.create(identity, 'https://ic0.app', logger); // IC mainnet default endpoint
 }
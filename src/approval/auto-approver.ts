@@ -0,0 +1,332 @@
+/**
+ * Auto-Approver
+ *
+ * Long-running co-signer that votes on an organization's pending requests according to an ApprovalPolicy
+ * Main features:
+ * - Poll the organization's Pending requests
+ * - Approve or reject X402 payments with the policy's reason
+ * - Track the amount approved per vault per day (restored from the canister on start and at day change)
+ */
+
+import type { X402MultiSig, OrganizationRequest } from '../client.js';
+import { ValidationError } from '../errors.js';
+import { sleep } from '../utils/timing.js';
+import type { Logger } from '../utils/logger.js';
+import {
+  evaluateApprovalPolicy,
+  getZonedTime,
+  validateApprovalPolicy,
+  type ApprovalDecision,
+  type ApprovalPolicy,
+} from './policy.js';
+
+/**
+ * Emitted by AutoApprover for each request it decides on
+ */
+export interface AutoApproverDecisionEvent {
+  /** Request the decision applies to */
+  request: OrganizationRequest;
+  /** Policy decision */
+  decision: ApprovalDecision;
+  /** Whether a vote was submitted and accepted (false for skip decisions and in dry-run mode) */
+  submitted: boolean;
+}
+
+/**
+ * AutoApprover configuration
+ */
+export interface AutoApproverOptions {
+  /** Organization whose requests are watched */
+  organizationId: bigint;
+  /** Approval policy */
+  policy: ApprovalPolicy;
+  /** Interval between polls (milliseconds, default: 15000) */
+  pollInterval?: number;
+  /** Number of requests fetched per page (default: 50) */
+  pageSize?: number;
+  /** Evaluate and report decisions without voting (default: false) */
+  dryRun?: boolean;
+  /** Called for each decision */
+  onDecision?: (event: AutoApproverDecisionEvent) => void;
+  /** Called when a poll or a vote fails (polling continues) */
+  onError?: (error: unknown) => void;
+  /** Logger (default: the bot's logger) */
+  logger?: Logger;
+}
+
+/**
+ * Policy-driven co-signer for an organization's requests
+ *
+ * Each request is decided once: requests the bot already voted on are ignored, and skipped requests are
+ * not reported again while they stay pending. Deferred requests (outside business hours) are evaluated again on
+ * each poll and reported once; votes the canister did not accept are retried on the next poll.
+ * The daily cap counts the amounts approved by this bot.
+ *
+ * @example
+ * ```typescript
+ * const approver = new AutoApprover(bot, {
+ *   organizationId: 1n,
+ *   policy: {
+ *     maxAmount: 1_000_000n,          // 1 USDC per request
+ *     dailyCapPerVault: 10_000_000n,  // 10 USDC per vault per day
+ *     allowedContracts: ['0x036CbD53842c5426634e7929541eC2318f3dCF7e'],
+ *     allowedChainIds: ['0x14a34'],
+ *     businessHours: { start: '09:00', end: '18:00' },
+ *     timeZone: 'Europe/Berlin',
+ *   },
+ *   onDecision: (e) => console.log(`#${e.request.id}: ${e.decision.action} (${e.decision.reason})`),
+ * });
+ * approver.start();
+ * // ...
+ * await approver.stop();
+ * ```
+ */
+export class AutoApprover {
+  /** Bot voting on the requests */
+  private bot: X402MultiSig;
+
+  /** Resolved configuration */
+  private options: AutoApproverOptions & { pollInterval: number; pageSize: number };
+
+  /** Logger (bound to the AutoApprover component) */
+  private logger: Logger;
+
+  /** Controller of the polling loop (while running) */
+  private controller?: AbortController;
+
+  /** Polling loop (while running) */
+  private loop?: Promise<void>;
+
+  /** Day ('YYYY-MM-DD' in the policy's time zone) the approved amounts belong to */
+  private spentDay?: string;
+
+  /** Amount approved per vault on spentDay */
+  private spent = new Map<bigint, bigint>();
+
+  /** Pending requests already decided */
+  private decided = new Set<bigint>();
+
+  /** Pending requests deferred (evaluated again on each poll, reported once) */
+  private deferred = new Set<bigint>();
+
+  /**
+   * Create a new AutoApprover
+   *
+   * @param bot - Bot voting on the requests (must be an approver of the organization's vaults)
+   * @param options - AutoApprover configuration
+   * @throws ValidationError if the policy, pollInterval or pageSize is invalid
+   */
+  constructor(bot: X402MultiSig, options: AutoApproverOptions) {
+    validateApprovalPolicy(options.policy);
+    const pollInterval = options.pollInterval ?? 15000;
+    const pageSize = options.pageSize ?? 50;
+    if (!(pollInterval > 0)) {
+      throw new ValidationError(`pollInterval must be positive: ${pollInterval}`, 'pollInterval', pollInterval);
+    }
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new ValidationError(`pageSize must be a positive integer: ${pageSize}`, 'pageSize', pageSize);
+    }
+
+    this.bot = bot;
+    this.options = { ...options, pollInterval, pageSize };
+    this.logger = (options.logger ?? bot.getOptions().logger).child({
+      component: 'AutoApprover',
+      organizationId: options.organizationId,
+    });
+  }
+
+  /**
+   * Start polling (no-op if already running)
+   */
+  start(): void {
+    if (this.loop) {
+      return;
+    }
+    this.controller = new AbortController();
+    this.loop = this.run(this.controller.signal);
+    this.logger.info('Auto-approver started', { dryRun: this.options.dryRun ?? false });
+  }
+
+  /**
+   * Stop polling and wait for the current poll to finish
+   */
+  async stop(): Promise<void> {
+    this.controller?.abort();
+    await this.loop;
+    this.controller = undefined;
+    this.loop = undefined;
+    this.logger.info('Auto-approver stopped');
+  }
+
+  /**
+   * Whether the auto-approver is polling
+   */
+  isRunning(): boolean {
+    return this.loop !== undefined;
+  }
+
+  /**
+   * Amount approved today for a vault (smallest unit)
+   *
+   * @param vaultId - Vault ID
+   * @returns Amount approved by this bot since the start of the day (policy time zone)
+   */
+  getSpentToday(vaultId: bigint): bigint {
+    return this.spentDay === getZonedTime(new Date(), this.options.policy.timeZone).day
+      ? this.spent.get(vaultId) ?? 0n
+      : 0n;
+  }
+
+  /**
+   * Decide on the organization's pending requests once
+   *
+   * @returns Decisions taken in this poll
+   * @throws CanisterCallError if listing the requests fails (failed votes are reported through onError and retried on the next poll)
+   */
+  async runOnce(): Promise<AutoApproverDecisionEvent[]> {
+    const { organizationId, pageSize, policy } = this.options;
+
+    const day = getZonedTime(new Date(), policy.timeZone).day;
+    if (day !== this.spentDay) {
+      await this.loadSpentToday(day);
+    }
+
+    const events: AutoApproverDecisionEvent[] = [];
+    const pending = new Set<bigint>();
+    let offset: bigint | undefined = 0n;
+    let remainingPending: bigint | undefined;
+
+    while (offset !== undefined) {
+      const page = await this.bot.listPendingRequests(organizationId, { offset, limit: pageSize, remainingPending });
+      for (const request of page.requests) {
+        pending.add(request.id);
+        if (request.votedByMe || this.decided.has(request.id)) {
+          continue;
+        }
+        try {
+          const event = await this.decide(request);
+          if (event) {
+            events.push(event);
+          }
+        } catch (error) {
+          this.logger.error('Failed to vote on request', { requestId: request.id, error });
+          this.options.onError?.(error);
+        }
+      }
+      offset = page.nextOffset;
+      remainingPending = page.remainingPending;
+    }
+
+    // Forget requests that are no longer pending
+    this.decided = new Set([...this.decided].filter(id => pending.has(id)));
+    this.deferred = new Set([...this.deferred].filter(id => pending.has(id)));
+    return events;
+  }
+
+  /**
+   * Evaluate a request and vote on it
+   *
+   * @param request - Pending request
+   * @returns Decision event, or undefined for a request that was already reported as deferred
+   */
+  private async decide(request: OrganizationRequest): Promise<AutoApproverDecisionEvent | undefined> {
+    const { policy, dryRun } = this.options;
+    const { vaultId, amount } = request.summary;
+    const decision = evaluateApprovalPolicy(policy, request.record.request.request_type, {
+      spentToday: vaultId !== undefined ? this.getSpentToday(vaultId) : 0n,
+    });
+
+    if (decision.deferred) {
+      if (this.deferred.has(request.id)) {
+        return undefined;
+      }
+      this.deferred.add(request.id);
+    } else {
+      this.deferred.delete(request.id);
+    }
+
+    let submitted = false;
+    if (decision.action !== 'skip' && !dryRun) {
+      submitted = decision.action === 'approve'
+        ? await this.bot.approveRequest(request.id, decision.reason)
+        : await this.bot.rejectRequest(request.id, decision.reason);
+      if (!submitted) {
+        this.logger.warn('Vote not accepted by the canister', { requestId: request.id, action: decision.action });
+      }
+    }
+
+    if (decision.action === 'approve' && (submitted || dryRun) && vaultId !== undefined && amount !== undefined) {
+      this.spent.set(vaultId, (this.spent.get(vaultId) ?? 0n) + amount);
+    }
+    // A vote the canister did not accept is retried on the next poll
+    if (!decision.deferred && (submitted || dryRun || decision.action === 'skip')) {
+      this.decided.add(request.id);
+    }
+
+    this.logger.info('Request decided', {
+      requestId: request.id,
+      action: decision.action,
+      reason: decision.reason,
+      submitted,
+    });
+    const event = { request, decision, submitted };
+    this.options.onDecision?.(event);
+    return event;
+  }
+
+  /**
+   * Restore the amounts approved by this bot on a day from the organization's requests
+   *
+   * @param day - Day ('YYYY-MM-DD' in the policy's time zone)
+   */
+  private async loadSpentToday(day: string): Promise<void> {
+    const { organizationId, pageSize, policy } = this.options;
+    const principal = this.bot.getPrincipalId();
+    const spent = new Map<bigint, bigint>();
+
+    if (policy.dailyCapPerVault !== undefined) {
+      let offset: bigint | undefined = 0n;
+      while (offset !== undefined) {
+        const page = await this.bot.listRequests(organizationId, { offset, limit: pageSize });
+        for (const { summary, votes } of page.requests) {
+          const approvedToday = votes.some(vote =>
+            vote.approver === principal &&
+            vote.approved &&
+            getZonedTime(new Date(vote.timestamp), policy.timeZone).day === day
+          );
+          if (approvedToday && summary.kind === 'X402TransferWithAuthorization' &&
+            summary.vaultId !== undefined && summary.amount !== undefined) {
+            spent.set(summary.vaultId, (spent.get(summary.vaultId) ?? 0n) + summary.amount);
+          }
+        }
+        offset = page.nextOffset;
+      }
+    }
+
+    this.spent = spent;
+    this.spentDay = day;
+    this.logger.debug('Loaded approved amounts', { day, vaults: spent.size });
+  }
+
+  /**
+   * Polling loop
+   *
+   * @param signal - Abort signal stopping the loop
+   */
+  private async run(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        this.logger.error('Auto-approver poll failed', { error });
+        this.options.onError?.(error);
+      }
+
+      try {
+        await sleep(this.options.pollInterval, signal);
+      } catch {
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Approval Policy
+ *
+ * Declarative rules used by AutoApprover to approve or reject X402 payment requests
+ * Main features:
+ * - Per-request amount limit and daily cap per vault
+ * - Allowlists of recipients, verifying contracts (tokens) and chain IDs
+ * - Business hours in a configurable time zone
+ */
+
+import type { RequestType } from '../canisters/idl/multisig.idl.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Hours during which requests may be approved (outside them, requests are skipped by default)
+ */
+export interface BusinessHours {
+  /** Days of the week (0 = Sunday ... 6 = Saturday, default: Monday to Friday) */
+  days?: number[];
+  /** Start time, inclusive ('HH:MM') */
+  start: string;
+  /** End time, exclusive ('HH:MM') */
+  end: string;
+}
+
+/**
+ * Approval policy for X402TransferWithAuthorization requests
+ *
+ * Every configured rule must pass for a request to be approved; a request violating any rule is rejected
+ * with the rule as reason, except business hours, outside of which requests are skipped unless
+ * outsideBusinessHours is 'reject'. Unset rules are not checked.
+ */
+export interface ApprovalPolicy {
+  /** Maximum amount per request (smallest unit, e.g. 1_000_000n for 1 USDC) */
+  maxAmount?: bigint;
+  /** Maximum total amount approved per vault per day (smallest unit) */
+  dailyCapPerVault?: bigint;
+  /** Allowed recipient (`to`) addresses (case-insensitive) */
+  allowedRecipients?: string[];
+  /** Allowed verifying contracts, i.e. token contracts (case-insensitive) */
+  allowedContracts?: string[];
+  /** Allowed EIP-712 domain chain IDs (hex or decimal, e.g. '0x14a34' or '84532') */
+  allowedChainIds?: string[];
+  /** Hours during which requests may be approved (default: any time) */
+  businessHours?: BusinessHours;
+  /**
+   * Handling of requests evaluated outside business hours (default: 'skip')
+   * - skip: leave them pending, they are evaluated again during business hours
+   * - reject: reject them
+   */
+  outsideBusinessHours?: 'skip' | 'reject';
+  /** Time zone of business hours and of the daily cap's day boundary (IANA name, default: 'UTC') */
+  timeZone?: string;
+  /**
+   * Handling of requests other than X402TransferWithAuthorization (default: 'skip')
+   * - skip: leave them to human approvers
+   * - reject: reject them
+   */
+  otherRequests?: 'skip' | 'reject';
+}
+
+/**
+ * Outcome of evaluating a request against an approval policy
+ * - approve / reject: vote on the request with the reason
+ * - skip: do not vote (left to human approvers)
+ */
+export interface ApprovalDecision {
+  /** Decision */
+  action: 'approve' | 'reject' | 'skip';
+  /** Reason (recorded with the vote) */
+  reason: string;
+  /** Skip that may turn into a vote on a later evaluation (outside business hours) */
+  deferred?: boolean;
+}
+
+/**
+ * Context of a policy evaluation
+ */
+export interface ApprovalContext {
+  /** Evaluation time (default: now) */
+  now?: Date;
+  /** Amount already approved today for the request's vault (smallest unit, default: 0) */
+  spentToday?: bigint;
+}
+
+/**
+ * Local date and time in a time zone
+ */
+export interface ZonedTime {
+  /** Calendar day ('YYYY-MM-DD') */
+  day: string;
+  /** Day of the week (0 = Sunday ... 6 = Saturday) */
+  weekday: number;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the local date and time of an instant in a time zone
+ *
+ * @param date - Instant
+ * @param timeZone - IANA time zone (default: 'UTC')
+ * @returns Local date and time
+ */
+export function getZonedTime(date: Date, timeZone: string = 'UTC'): ZonedTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Parse a 'HH:MM' time
+ *
+ * @param time - Time string
+ * @returns Minutes since midnight, or undefined if invalid
+ */
+function parseTime(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : undefined;
+}
+
+/**
+ * Normalize a chain ID to lowercase hex
+ *
+ * @param chainId - Chain ID (hex or decimal)
+ * @returns Normalized chain ID, or the lowercase input if it is not a number
+ */
+function normalizeChainId(chainId: string): string {
+  try {
+    return `0x${BigInt(chainId).toString(16)}`;
+  } catch {
+    return chainId.toLowerCase();
+  }
+}
+
+/**
+ * Validate an approval policy
+ *
+ * @param policy - Approval policy
+ * @throws ValidationError if a rule is malformed (negative amount, invalid time zone or business hours)
+ */
+export function validateApprovalPolicy(policy: ApprovalPolicy): void {
+  if (policy.maxAmount !== undefined && policy.maxAmount < 0n) {
+    throw new ValidationError('maxAmount cannot be negative', 'maxAmount', policy.maxAmount);
+  }
+  if (policy.dailyCapPerVault !== undefined && policy.dailyCapPerVault < 0n) {
+    throw new ValidationError('dailyCapPerVault cannot be negative', 'dailyCapPerVault', policy.dailyCapPerVault);
+  }
+  try {
+    getZonedTime(new Date(), policy.timeZone);
+  } catch (error) {
+    throw new ValidationError(`Invalid time zone: ${policy.timeZone}`, 'timeZone', policy.timeZone, { cause: error });
+  }
+
+  const hours = policy.businessHours;
+  if (hours) {
+    const start = parseTime(hours.start);
+    const end = parseTime(hours.end);
+    if (start === undefined || end === undefined || start >= end) {
+      throw new ValidationError(
+        `Invalid business hours: ${hours.start}-${hours.end} (expected 'HH:MM' with start before end)`,
+        'businessHours',
+        hours
+      );
+    }
+    if (hours.days && hours.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new ValidationError('Business days must be integers from 0 (Sunday) to 6 (Saturday)', 'businessHours.days', hours.days);
+    }
+  }
+}
+
+/**
+ * Evaluate a request against an approval policy
+ *
+ * @param policy - Approval policy
+ * @param requestType - Request type (RequestRecord.request.request_type)
+ * @param context - Evaluation context (time and amount already approved today)
+ * @returns Decision with reason
+ *
+ * @example
+ * ```typescript
+ * const decision = evaluateApprovalPolicy(
+ *   { maxAmount: 1_000_000n, allowedChainIds: ['0x14a34'] },
+ *   record.request.request_type
+ * );
+ * // { action: 'approve', reason: 'Within policy: ...' }
+ * ```
+ */
+export function evaluateApprovalPolicy(
+  policy: ApprovalPolicy,
+  requestType: RequestType,
+  context: ApprovalContext = {}
+): ApprovalDecision {
+  if (!('X402TransferWithAuthorization' in requestType)) {
+    const kind = Object.keys(requestType)[0];
+    return policy.otherRequests === 'reject'
+      ? { action: 'reject', reason: `Request type ${kind} is not handled by the auto-approver` }
+      : { action: 'skip', reason: `Request type ${kind} is left to human approvers` };
+  }
+
+  const action = requestType.X402TransferWithAuthorization.action;
+  const reject = (reason: string): ApprovalDecision => ({ action: 'reject', reason });
+
+  let amount: bigint;
+  try {
+    amount = BigInt(action.value);
+  } catch {
+    return reject(`Invalid amount: ${action.value}`);
+  }
+  // A negative amount would pass maxAmount and lower the vault's tracked daily spend
+  if (amount <= 0n) {
+    return reject(`Amount must be positive: ${action.value}`);
+  }
+
+  if (policy.allowedChainIds &&
+    !policy.allowedChainIds.map(normalizeChainId).includes(normalizeChainId(action.domain_chain_id))) {
+    return reject(`Chain ID ${action.domain_chain_id} is not allowed`);
+  }
+  if (policy.allowedContracts &&
+    !policy.allowedContracts.some(contract => contract.toLowerCase() === action.verifying_contract.toLowerCase())) {
+    return reject(`Token contract ${action.verifying_contract} is not allowed`);
+  }
+  if (policy.allowedRecipients &&
+    !policy.allowedRecipients.some(recipient => recipient.toLowerCase() === action.to.toLowerCase())) {
+    return reject(`Recipient ${action.to} is not allowed`);
+  }
+  if (policy.maxAmount !== undefined && amount > policy.maxAmount) {
+    return reject(`Amount ${amount} exceeds the per-request limit of ${policy.maxAmount}`);
+  }
+
+  const hours = policy.businessHours;
+  if (hours) {
+    const now = getZonedTime(context.now ?? new Date(), policy.timeZone);
+    const days = hours.days ?? [1, 2, 3, 4, 5];
+    const start = parseTime(hours.start) ?? 0;
+    const end = parseTime(hours.end) ?? 24 * 60;
+    if (!days.includes(now.weekday) || now.minutes < start || now.minutes >= end) {
+      const reason = `Outside business hours (${hours.start}-${hours.end} ${policy.timeZone ?? 'UTC'})`;
+      return policy.outsideBusinessHours === 'reject' ? reject(reason) : { action: 'skip', reason, deferred: true };
+    }
+  }
+
+  const spentToday = context.spentToday ?? 0n;
+  if (policy.dailyCapPerVault !== undefined && spentToday + amount > policy.dailyCapPerVault) {
+    return reject(
+      `Amount ${amount} exceeds the daily cap of vault ${action.vault_id} ` +
+      `(${spentToday} of ${policy.dailyCapPerVault} already approved today)`
+    );
+  }
+
+  return { action: 'approve', reason: `Within policy: ${amount} to ${action.to} from vault ${action.vault_id}` };
+}
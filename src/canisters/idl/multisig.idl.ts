@@ -1,10 +1,135 @@
 /**
  * ICP Multisig Canister IDL Definition
  *
- * This file defines the interface for the multisig wallet Canister
+ * This file defines the interface for the multisig wallet Canister:
+ * - TypeScript types of every record, variant and method (MultisigService), as decoded by @dfinity/candid
+ * - MultisigIdlFactory, the Candid interface used to encode and decode calls
+ *
+ * The types mirror MultisigIdlFactory declaration by declaration (same names and field order);
+ * any change to the factory must be reflected here (test/multisig-idl.test.ts compares every method, record field
+ * and variant tag with the factory). Candid mappings:
+ * - Nat, Nat64 → bigint; Nat8, Nat32 → number; Text → string; Bool → boolean
+ * - Opt(T) → [] | [T]; Vec(Nat8) → Uint8Array | number[]; Vec(T) → T[]
+ * - Variant → union of single-key objects (e.g. { Pending: null })
  */
 
 import { IDL } from '@dfinity/candid';
+import type { ActorMethod } from '@dfinity/agent';
+import type { Principal } from '@dfinity/principal';
+
+// ==================== Common Types ====================
+
+/**
+ * Candid Result<T, Text>
+ */
+export type CanisterResult<T> = { Ok: T } | { Err: string };
+
+/**
+ * Blob (Vec(Nat8)): decoded as Uint8Array, both forms accepted when encoding
+ */
+export type Blob = Uint8Array | number[];
+
+/**
+ * ICRC-1 account
+ */
+export interface Account {
+  /** Account owner */
+  owner: Principal;
+  /** Subaccount (optional, 32 bytes) */
+  subaccount: [] | [Blob];
+}
+
+// ==================== Action Types ====================
+
+/**
+ * EVM transaction to sign
+ */
+export interface SignRequest {
+  /** Recipient address */
+  to: string;
+  /** Gas limit */
+  gas: bigint;
+  /** Value (wei) */
+  value: bigint;
+  /** Maximum priority fee per gas (wei) */
+  max_priority_fee_per_gas: bigint;
+  /** Call data (hex string, optional) */
+  data: [] | [string];
+  /** Maximum fee per gas (wei) */
+  max_fee_per_gas: bigint;
+  /** EVM chain ID */
+  chain_id: bigint;
+  /** Transaction nonce */
+  nonce: bigint;
+  /** Transaction hash (set once broadcast) */
+  tx_hash: [] | [string];
+}
+
+/**
+ * Parameters for moving sub acquiring account ETH assets
+ */
+export interface SubAcquiringAccountETHTransactionAction {
+  /** Transaction to sign */
+  request: SignRequest;
+  /** Sub acquiring account ID */
+  sub_acquiring_account_id: string;
+}
+
+/**
+ * Parameters for moving sub acquiring account ICRC assets
+ */
+export interface ICRCSubAcquiringAccountTransferAction {
+  /** Recipient account */
+  to: Account;
+  /** Transfer fee (optional) */
+  fee: [] | [bigint];
+  /** Memo (optional) */
+  memo: [] | [Blob];
+  /** Sub acquiring account ID */
+  sub_acquiring_account_id: string;
+  /** ICRC ledger Canister ID */
+  ledger_canister_id: Principal;
+  /** Creation time (nanoseconds, optional) */
+  created_at_time: [] | [bigint];
+  /** Amount (smallest unit) */
+  amount: bigint;
+}
+
+/**
+ * Canister upgrade check result
+ */
+export interface UpdateCheckResponse {
+  /** Whether a newer version is available */
+  update_available: boolean;
+  /** Module hash of the latest version */
+  latest_hash: Blob;
+  /** Module hash of the running version */
+  current_hash: Blob;
+  /** Running version */
+  current_version: string;
+  /** Latest version */
+  latest_version: string;
+}
+
+/**
+ * Parameters for an acquiring account EVM transaction
+ */
+export interface AcquiringAccountETHTransactionAction {
+  /** Transaction to sign */
+  request: SignRequest;
+  /** Acquiring account ID */
+  acquiring_account_id: bigint;
+}
+
+/**
+ * Parameters for a vault EVM transaction
+ */
+export interface ETHTransactionAction {
+  /** Transaction to sign */
+  request: SignRequest;
+  /** Vault ID */
+  vault_id: bigint;
+}
 
 /**
  * Parameters for X402 transfer authorization action
@@ -33,19 +158,327 @@ export interface X402TransferWithAuthorizationAction {
   verifying_contract: string;
 }
 
+/**
+ * Approval threshold mode
+ */
+export type ThresholdMode =
+  | { Weighted: { threshold: number } }
+  | { Simple: { threshold: number } };
+
+/**
+ * Approver with voting weight
+ */
+export interface WeightedApprover {
+  /** Voting weight */
+  weight: number;
+  /** Approver Principal */
+  principal_id: Principal;
+}
+
+/**
+ * Approval threshold configuration
+ */
+export interface ThresholdConfig {
+  /** Threshold mode */
+  mode: ThresholdMode;
+  /** Approvers */
+  approvers: WeightedApprover[];
+}
+
+/**
+ * Approval threshold applying to transfers below or above an amount
+ */
+export interface TransferRule {
+  /** Threshold configuration of the rule */
+  threshold_config: ThresholdConfig;
+  /** Amount bound (smallest unit) */
+  amount: bigint;
+}
+
+/**
+ * Approval threshold applying to transfers within an amount range
+ */
+export interface BetweenTransferRule {
+  /** Lower amount bound (smallest unit) */
+  min_amount: bigint;
+  /** Threshold configuration of the rule */
+  threshold_config: ThresholdConfig;
+  /** Upper amount bound (smallest unit) */
+  max_amount: bigint;
+}
+
+/**
+ * Amount-based approval rules of a vault (Candid Opt fields, [] or [value])
+ */
+export interface TransferAdvancedRule {
+  /** Rules for transfers below an amount */
+  less_than: [] | [TransferRule[]];
+  /** Rules for transfers within an amount range */
+  between: [] | [BetweenTransferRule[]];
+  /** Rules for transfers above an amount */
+  greater_than: [] | [TransferRule[]];
+}
+
+/**
+ * Parameters for vault creation
+ */
+export interface CreateVaultAction {
+  /** Vault name */
+  vault_name: string;
+  /** Organization owning the vault */
+  organization_id: bigint;
+  /** Default approval threshold configuration */
+  threshold_config: ThresholdConfig;
+  /** Amount-based approval rules (optional) */
+  advance_rule: [] | [TransferAdvancedRule];
+  /** Viewers (optional) */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Parameters for organization creation
+ */
+export interface CreateOrganizationAction {
+  /** Viewers (optional) */
+  organization_viewer: [] | [Principal[]];
+  /** Admin threshold configuration */
+  admin_threshold_config: ThresholdConfig;
+  /** Organization name */
+  organization_name: string;
+  /** Operators (optional) */
+  organization_op: [] | [Principal[]];
+}
+
+/**
+ * Parameters for signing a message with a vault's EVM key
+ */
+export interface ETHSignAction {
+  /** Vault ID */
+  vault_id: bigint;
+  /** Message to sign */
+  message: string;
+}
+
+/**
+ * Parameters for a vault SOL transfer
+ */
+export interface SolanaSolTxAction {
+  /** Recipient address */
+  to: string;
+  /** Recent blockhash */
+  blockhash: string;
+  /** Vault ID */
+  vault_id: bigint;
+  /** Transaction hash (set once broadcast) */
+  tx_hash: [] | [string];
+  /** Amount (lamports) */
+  amount: bigint;
+}
+
+/**
+ * Parameters for a vault SPL token transfer
+ */
+export interface SolanaSplTxAction {
+  /** Recipient address */
+  to: string;
+  /** Recent blockhash */
+  blockhash: string;
+  /** Vault ID */
+  vault_id: bigint;
+  /** Recipient associated token account */
+  to_ata: string;
+  /** Token program address */
+  token_program: string;
+  /** Sender associated token account */
+  from_ata: string;
+  /** Transaction hash (set once broadcast) */
+  tx_hash: [] | [string];
+  /** Amount (smallest unit) */
+  amount: bigint;
+  /** Token mint address */
+  mint_account: string;
+  /** Whether the recipient token account must be created */
+  need_to_create_ata: boolean;
+}
+
+/**
+ * Parameters for acquiring account creation
+ */
+export interface CreateAcquiringAccountAction {
+  /** Acquiring account name */
+  acquiring_account_name: string;
+  /** Organization owning the account */
+  organization_id: bigint;
+  /** Approval threshold configuration */
+  threshold_config: ThresholdConfig;
+  /** Viewers (optional) */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Parameters for an admin update
+ */
+export type ModifyAdminAction =
+  | { UpdateThreshold: { new_threshold: number } }
+  | { UpdateAdmin: { new_threshold_config: ThresholdConfig } };
+
+/**
+ * Parameters for an acquiring account update (each set Opt field replaces the current value)
+ */
+export interface ModifyAcquiringAccountAction {
+  /** New name */
+  acquiring_account_name: [] | [string];
+  /** New approval threshold configuration */
+  threshold_config: [] | [ThresholdConfig];
+  /** Acquiring account ID */
+  acquiring_account_id: bigint;
+  /** New viewers */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Parameters for a vault ICP transfer
+ */
+export interface ICPTransferAction {
+  /** Recipient account identifier */
+  to: string;
+  /** Memo (optional) */
+  memo: [] | [bigint];
+  /** Vault ID */
+  vault_id: bigint;
+  /** Creation time (nanoseconds, optional) */
+  created_at_time: [] | [bigint];
+  /** Amount (e8s) */
+  amount: bigint;
+}
+
+/**
+ * Parameters for a vault update (each set Opt field replaces the current value)
+ */
+export interface ModifyVaultAction {
+  /** Vault ID */
+  vault_id: bigint;
+  /** New name */
+  vault_name: [] | [string];
+  /** New default approval threshold configuration */
+  threshold_config: [] | [ThresholdConfig];
+  /** New amount-based approval rules */
+  advance_rule: [] | [TransferAdvancedRule];
+  /** New viewers */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Parameters for signing a message with a vault's Solana key
+ */
+export interface SolanaSignAction {
+  /** Vault ID */
+  vault_id: bigint;
+  /** Message to sign */
+  message: string;
+}
+
+/**
+ * Parameters for an acquiring account ICRC transfer
+ */
+export interface ICRCAcquiringAccountTransferAction {
+  /** Recipient account */
+  to: Account;
+  /** Transfer fee (optional) */
+  fee: [] | [bigint];
+  /** Memo (optional) */
+  memo: [] | [Blob];
+  /** ICRC ledger Canister ID */
+  ledger_canister_id: Principal;
+  /** Creation time (nanoseconds, optional) */
+  created_at_time: [] | [bigint];
+  /** Amount (smallest unit) */
+  amount: bigint;
+  /** Acquiring account ID */
+  acquiring_account_id: bigint;
+}
+
+/**
+ * Parameters for organization update action
+ * Each optional field (Candid Opt, [] or [value]) replaces the current value when set
+ */
+export interface UpdateOrganizationAction {
+  /** New operator list (replaces the current operators) */
+  update_operator: [] | [Principal[]];
+  /** New viewer list (replaces the current viewers) */
+  update_viewer: [] | [Principal[]];
+  /** New organization name */
+  organization_name: [] | [string];
+  /** Organization ID */
+  organization_id: bigint;
+  /** New admin threshold configuration */
+  update_admin: [] | [ThresholdConfig];
+}
+
+/**
+ * Kind of vault advance rule
+ */
+export type TransferRuleType = { Between: null } | { GreaterThan: null } | { LessThan: null };
+
+/**
+ * Advance rule selected for a transfer
+ */
+export interface SelectedTransferRule {
+  /** Rule kind */
+  rule_type: TransferRuleType;
+  /** Index of the rule in its list */
+  rule_index: bigint;
+}
+
+/**
+ * Parameters for a vault ICRC transfer
+ */
+export interface ICRCTransferAction {
+  /** Recipient account */
+  to: Account;
+  /** Transfer fee (optional) */
+  fee: [] | [bigint];
+  /** Memo (optional) */
+  memo: [] | [Blob];
+  /** Advance rule applied to the transfer (optional) */
+  selected_rule: [] | [SelectedTransferRule];
+  /** Vault ID */
+  vault_id: bigint;
+  /** ICRC ledger Canister ID */
+  ledger_canister_id: Principal;
+  /** Creation time (nanoseconds, optional) */
+  created_at_time: [] | [bigint];
+  /** Amount (smallest unit) */
+  amount: bigint;
+}
+
+// ==================== Requests ====================
+
 /**
  * Request type Variant
  * Contains all possible request types
  */
-export type RequestType = {
-  X402TransferWithAuthorization?: {
-    action: X402TransferWithAuthorizationAction;
-  };
-  // Other types can be added when needed
-};
+export type RequestType =
+  | { ETHTransactionAcquiringAccount: { action: AcquiringAccountETHTransactionAction } }
+  | { ETHTransaction: { action: ETHTransactionAction } }
+  | { X402TransferWithAuthorization: { action: X402TransferWithAuthorizationAction } }
+  | { CreateVault: { action: CreateVaultAction } }
+  | { CreateOrganization: { action: CreateOrganizationAction } }
+  | { ETHSign: { action: ETHSignAction } }
+  | { SolanaSolTx: { action: SolanaSolTxAction } }
+  | { SolanaSplTx: { action: SolanaSplTxAction } }
+  | { CreateAcquiringAccount: { action: CreateAcquiringAccountAction } }
+  | { ModifyAdmin: { action: ModifyAdminAction } }
+  | { ModifyAcquiringAccount: { action: ModifyAcquiringAccountAction } }
+  | { ICPTransfer: { action: ICPTransferAction } }
+  | { ModifyVault: { action: ModifyVaultAction } }
+  | { SolanaSign: { action: SolanaSignAction } }
+  | { ICRCTransferAcquiringAccount: { action: ICRCAcquiringAccountTransferAction } }
+  | { UpdateOrganization: { action: UpdateOrganizationAction } }
+  | { ICRCTransfer: { action: ICRCTransferAction } };
 
 /**
- * Parameters for creating a request
+ * Parameters for creating a request (Candid `Request` record)
  * Used for create_request method
  */
 export interface CreateRequestParams {
@@ -56,25 +489,24 @@ export interface CreateRequestParams {
 }
 
 /**
- * Request status enumeration
+ * Request status name
  */
-export enum RequestStatus {
-  Pending = 'Pending',
-  Approved = 'Approved',
-  Rejected = 'Rejected',
-  Executed = 'Executed',
-  Expired = 'Expired',
-}
+export type RequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Executed' | 'Expired';
+
+/**
+ * Request status as decoded by Candid (e.g. { Pending: null })
+ */
+export type RequestStatusVariant = { [K in RequestStatus]: { [P in K]: null } }[RequestStatus];
 
 /**
  * Approval record
  */
 export interface Approval {
-  /** Whether approved */
+  /** Whether approved (false means rejected) */
   approved: boolean;
   /** Approver */
-  approver: string;
-  /** Timestamp */
+  approver: Principal;
+  /** Timestamp (nanoseconds) */
   timestamp: bigint;
 }
 
@@ -88,19 +520,407 @@ export interface RequestRecord {
   /** Execution result (signature) - optional, Candid Opt type decoded as [] or [string] */
   execution_result: [] | [string];
   /** Request status */
-  status: { [key in RequestStatus]?: null };
+  status: RequestStatusVariant;
   /** Execution time - optional, Candid Opt type decoded as [] or [bigint] */
   executed_at: [] | [bigint];
   /** Request details */
-  request: any; // Request type is complex, using any here
-  /** Creation time */
+  request: CreateRequestParams;
+  /** Creation time (nanoseconds) */
   created_at: bigint;
   /** Proposer */
-  proposer: string;
+  proposer: Principal;
   /** Approval list */
   approvals: Approval[];
 }
 
+// ==================== Accounts and Organizations ====================
+
+/**
+ * Sub acquiring account record
+ */
+export interface SubAcquiringAccount {
+  /** ICP subaccount */
+  subaccount: Blob;
+  /** Sub acquiring account ID */
+  sub_acquiring_account_id: string;
+  /** Creation time (nanoseconds) */
+  created_at: bigint;
+  /** EVM address */
+  eth_address: string;
+  /** Solana address */
+  solana_address: string;
+  /** Subaccount index */
+  subaccount_id: bigint;
+  /** Organization ID */
+  organization_id: bigint;
+  /** Last update time (nanoseconds) */
+  updated_time: bigint;
+  /** Parent acquiring account ID */
+  acquiring_account_id: bigint;
+}
+
+/**
+ * OpenID provider of JWT logins
+ */
+export type JwkProvider = { Github: null } | { Google: null } | { Apple: null };
+
+/**
+ * Acquiring account record
+ */
+export interface AcquiringAccount {
+  /** ICP subaccount */
+  subaccount: Blob;
+  /** Acquiring account name */
+  acquiring_account_name: string;
+  /** Creation time (nanoseconds) */
+  created_at: bigint;
+  /** EVM address */
+  eth_address: string;
+  /** Solana address */
+  solana_address: string;
+  /** Organization ID */
+  organization_id: bigint;
+  /** Last update time (nanoseconds) */
+  updated_time: bigint;
+  /** Approval threshold configuration */
+  threshold_config: ThresholdConfig;
+  /** Acquiring account ID */
+  acquiring_account_id: bigint;
+  /** Viewers (optional) */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Organization record
+ * Returned from the canister's get_organization method
+ */
+export interface Organization {
+  /** Viewers */
+  organization_viewer: Principal[];
+  /** Admin threshold configuration */
+  admin_threshold_config: ThresholdConfig;
+  /** Last update time (nanoseconds) */
+  update_time: bigint;
+  /** Organization name */
+  organization_name: string;
+  /** Creation time (nanoseconds) */
+  create_time: bigint;
+  /** Organization ID */
+  organization_id: bigint;
+  /** Operators (may create requests) */
+  organization_op: Principal[];
+}
+
+/**
+ * Role of a user in an organization
+ */
+export type OrganizationRole = { Op: null } | { Viewer: null } | { Admin: null };
+
+/**
+ * Membership of a user in an organization
+ * Returned from the canister's get_userstatus_via_principal method
+ */
+export interface UserStatus {
+  /** Username */
+  user_name: string;
+  /** Organization ID */
+  organization_id: bigint;
+  /** Whether the user is a viewer of vaults in the organization */
+  viewer_in_vault: boolean;
+  /** Roles in the organization (optional) */
+  roles: [] | [OrganizationRole[]];
+}
+
+/**
+ * Memberships of a user, one per organization
+ */
+export type UserStatusList = UserStatus[];
+
+/**
+ * Vault record
+ * Returned from the canister's get_vault and get_all_vaults_in_organization methods
+ */
+export interface VaultRecord {
+  /** ICP subaccount of the vault */
+  subaccount: Blob;
+  /** Vault ID */
+  vault_id: bigint;
+  /** Creation time (nanoseconds) */
+  created_at: bigint;
+  /** EVM address of the vault */
+  eth_address: string;
+  /** Vault name */
+  vault_name: string;
+  /** Solana address of the vault */
+  solana_address: string;
+  /** Organization owning the vault */
+  organization_id: bigint;
+  /** Last update time (nanoseconds) */
+  updated_time: bigint;
+  /** Default approval threshold configuration */
+  threshold_config: ThresholdConfig;
+  /** Amount-based approval rules (optional) */
+  advance_rule: [] | [TransferAdvancedRule];
+  /** Viewers (optional) */
+  viewer: [] | [Principal[]];
+}
+
+/**
+ * Canister admin configuration
+ */
+export interface Admin {
+  /** Initialization time (nanoseconds) */
+  init_time: bigint;
+  /** Last update time (nanoseconds) */
+  updated_time: bigint;
+  /** Admin threshold configuration */
+  threshold_config: ThresholdConfig;
+}
+
+/**
+ * Cycles balance reporting state
+ */
+export interface CyclesReportState {
+  /** Reporting interval (nanoseconds) */
+  report_interval: bigint;
+  /** Last report time (nanoseconds) */
+  last_report_time: bigint;
+  /** Balance below which a warning is reported (cycles) */
+  warning_threshold: bigint;
+  /** Balance at the last report (cycles) */
+  last_report_balance: bigint;
+}
+
+/**
+ * JSON Web Key Set of a provider
+ */
+export interface Jwks {
+  /** Keys (JSON strings) */
+  keys: string[];
+}
+
+/**
+ * Subscription plan
+ */
+export type Permission = { Pro: null } | { Free: null } | { Business: null };
+
+/**
+ * Subscription plan and limit of the canister
+ */
+export interface SystemAccessControl {
+  /** Subscription plan */
+  permission: Permission;
+  /** Usage limit (optional) */
+  limit: [] | [bigint];
+}
+
+/**
+ * Self-upgrade progress
+ */
+export type UpgradeStatus =
+  | { Failed: string }
+  | { Idle: null }
+  | { Downloading: { total: bigint; progress: bigint } }
+  | { Upgrading: null }
+  | { Success: string }
+  | { Verifying: null };
+
+/**
+ * Acquiring accounts a user takes part in within an organization
+ */
+export interface AcquiringAccountIdList {
+  /** Acquiring accounts the user approves for */
+  acquiring_account_ids: bigint[];
+  /** Acquiring accounts the user can view (optional) */
+  wallet_viewer: [] | [bigint[]];
+}
+
+/**
+ * Vaults a user takes part in within an organization
+ * Returned from the canister's get_user_vaults_in_organization method
+ */
+export interface VaultIdList {
+  /** Vaults the user approves for */
+  vault_ids: bigint[];
+  /** Vaults the user can view (optional) */
+  wallet_viewer: [] | [bigint[]];
+}
+
+/**
+ * User record known to the multisig canister
+ */
+export interface User {
+  /** User's Principal ID */
+  user_principal: Principal;
+  /** Username */
+  user_name: string;
+  /** Last update time */
+  update_time: bigint;
+  /** Passkey names (optional) */
+  passkey_name: [] | [string[]];
+  /** Display name (optional) */
+  display_name: [] | [string];
+  /** Creation time */
+  create_time: bigint;
+}
+
+/**
+ * Wallet (canister) configuration
+ */
+export interface WalletConfig {
+  /** Canister owners */
+  owners: Principal[];
+  /** Wallet name */
+  name: string;
+  /** Creation time (nanoseconds) */
+  created_at: bigint;
+  /** Root canister (optional) */
+  root_canister: [] | [Principal];
+  /** Module hash of the running version */
+  current_hash: Blob;
+  /** Running version */
+  current_version: string;
+}
+
+/**
+ * JWT claims
+ */
+export interface Claims {
+  aud: string;
+  azp: [] | [string];
+  exp: bigint;
+  iat: bigint;
+  iss: string;
+  jti: [] | [string];
+  nbf: bigint;
+  sub: string;
+  name: [] | [string];
+  family_name: [] | [string];
+  email: [] | [string];
+  picture: [] | [string];
+  given_name: [] | [string];
+  email_verified: [] | [boolean];
+}
+
+/**
+ * JWT verification result
+ */
+export interface JwtVerificationResult {
+  /** Claims (valid tokens only) */
+  claims: [] | [Claims];
+  /** Whether the token is valid */
+  is_valid: boolean;
+  /** Verification error (optional) */
+  error: [] | [string];
+}
+
+// ==================== Service ====================
+
+/**
+ * Multisig canister service: every method of MultisigIdlFactory with its argument and result types
+ * Use with a typed actor (see X402Client.getActor) or X402Client's typed calls
+ */
+export interface MultisigService {
+  add_whitelist: ActorMethod<[Principal], boolean>;
+  aggregate_sub_acquiring_account_eth_assets: ActorMethod<
+    [SubAcquiringAccountETHTransactionAction],
+    CanisterResult<string>
+  >;
+  aggregate_sub_acquiring_account_icp_assets: ActorMethod<
+    [ICRCSubAcquiringAccountTransferAction],
+    CanisterResult<boolean>
+  >;
+  check_for_update: ActorMethod<[Principal], CanisterResult<UpdateCheckResponse>>;
+  check_whitelist: ActorMethod<[Principal], boolean>;
+  convert_eth_address: ActorMethod<[bigint], string>;
+  create_request: ActorMethod<[CreateRequestParams], bigint>;
+  create_sub_acquiring_account: ActorMethod<[bigint, string], SubAcquiringAccount>;
+  execute_request: ActorMethod<[bigint], boolean>;
+  fetch_jwks_via_httpcall: ActorMethod<[JwkProvider, string], CanisterResult<boolean>>;
+  finish_passkey_approval: ActorMethod<[string, [] | [string]], CanisterResult<[bigint, boolean]>>;
+  get_acquiring_account: ActorMethod<[bigint], [] | [AcquiringAccount]>;
+  get_all_acquiring_accounts: ActorMethod<[], AcquiringAccount[]>;
+  get_all_acquiring_accounts_in_organization: ActorMethod<[bigint], AcquiringAccount[]>;
+  get_all_organizations: ActorMethod<[], Organization[]>;
+  get_all_requests: ActorMethod<[], RequestRecord[]>;
+  get_all_users: ActorMethod<[], UserStatusList[]>;
+  get_all_vaults: ActorMethod<[], VaultRecord[]>;
+  get_all_vaults_in_organization: ActorMethod<[bigint], VaultRecord[]>;
+  get_all_whitelisted: ActorMethod<[], Principal[]>;
+  get_allow_credentials_name: ActorMethod<[string], [] | [string]>;
+  get_aud_client: ActorMethod<[JwkProvider], [] | [string]>;
+  get_balance: ActorMethod<[], bigint>;
+  get_caller: ActorMethod<[], Principal>;
+  get_current_admin: ActorMethod<[], [] | [Admin]>;
+  get_cycles_report_state: ActorMethod<[], CyclesReportState>;
+  get_jwks: ActorMethod<[JwkProvider], [] | [Jwks]>;
+  get_organization: ActorMethod<[bigint], [] | [Organization]>;
+  get_organization_requests: ActorMethod<[bigint, [] | [bigint], [] | [bigint]], RequestRecord[]>;
+  get_organization_requests_num: ActorMethod<[bigint], bigint>;
+  get_organization_requests_pending: ActorMethod<[bigint], bigint>;
+  get_owners: ActorMethod<[], Principal[]>;
+  get_request: ActorMethod<[bigint], [] | [RequestRecord]>;
+  get_root_canister_id: ActorMethod<[], string>;
+  get_root_principal_to_username: ActorMethod<[string], string>;
+  get_sub_acquiring_account: ActorMethod<[bigint, string], CanisterResult<[] | [SubAcquiringAccount]>>;
+  get_sub_acquiring_account_by_id: ActorMethod<[string], [] | [SubAcquiringAccount]>;
+  get_sub_acquiring_accounts: ActorMethod<[bigint, string[]], CanisterResult<SubAcquiringAccount[]>>;
+  get_system_access_control: ActorMethod<[], SystemAccessControl>;
+  get_test2_memory: ActorMethod<[], bigint>;
+  get_test_memory: ActorMethod<[], bigint>;
+  get_upgrade_status: ActorMethod<[], UpgradeStatus>;
+  get_user_acquiring_accounts_in_organization: ActorMethod<[string, bigint], [] | [AcquiringAccountIdList]>;
+  get_user_principal: ActorMethod<[string], string>;
+  get_user_roles_in_organization: ActorMethod<[string, bigint], [] | [OrganizationRole[]]>;
+  get_user_vaults_in_organization: ActorMethod<[string, bigint], [] | [VaultIdList]>;
+  get_user_via_principal: ActorMethod<[string], [] | [User]>;
+  get_username_by_credential: ActorMethod<[string], [] | [string]>;
+  get_userstatus_via_principal: ActorMethod<[string], [] | [UserStatusList]>;
+  get_userstatus_via_username: ActorMethod<[string], [] | [UserStatusList]>;
+  get_vault: ActorMethod<[bigint], [] | [VaultRecord]>;
+  get_wallet_info: ActorMethod<[], WalletConfig>;
+  get_wallet_status: ActorMethod<[], string>;
+  greet: ActorMethod<[], string>;
+  has_role_in_organization: ActorMethod<[string, bigint, OrganizationRole], boolean>;
+  is_owner: ActorMethod<[Principal], boolean>;
+  is_username_registered: ActorMethod<[string], [] | [boolean]>;
+  principal_to_username: ActorMethod<[string], string>;
+  remove_whitelist: ActorMethod<[Principal], boolean>;
+  reset_upgrade_status: ActorMethod<[], CanisterResult<string>>;
+  self_upgrade: ActorMethod<[], CanisterResult<string>>;
+  set_cycles_warning_threshold: ActorMethod<[bigint], CanisterResult<string>>;
+  set_eth_transaction_hash: ActorMethod<[bigint, string], CanisterResult<boolean>>;
+  set_solana_transaction_hash: ActorMethod<[bigint, string], CanisterResult<boolean>>;
+  set_system_access_control: ActorMethod<[SystemAccessControl], boolean>;
+  siwp_prepare_login_username: ActorMethod<[string], string>;
+  start_passkey_approval: ActorMethod<[bigint, boolean], CanisterResult<string>>;
+  submit_request_approval: ActorMethod<[bigint, boolean, [] | [string]], boolean>;
+  test_user_profile_insert_canister: ActorMethod<[Principal], boolean>;
+  test_x402: ActorMethod<[X402TransferWithAuthorizationAction], CanisterResult<string>>;
+  update_aud_client: ActorMethod<[JwkProvider, string], CanisterResult<boolean>>;
+  update_jwks: ActorMethod<[JwkProvider, string], CanisterResult<boolean>>;
+  update_test2_memory: ActorMethod<[], undefined>;
+  update_test_memory: ActorMethod<[], undefined>;
+  update_user_status: ActorMethod<[Principal, string, bigint, OrganizationRole[]], CanisterResult<UserStatusList>>;
+  validate_version_info: ActorMethod<[], CanisterResult<string>>;
+  verify_jwt: ActorMethod<[string, JwkProvider], JwtVerificationResult>;
+}
+
+/**
+ * Multisig canister method name
+ */
+export type MultisigMethod = keyof MultisigService;
+
+/**
+ * Argument types of a multisig canister method
+ */
+export type MultisigMethodArgs<M extends MultisigMethod> = Parameters<MultisigService[M]>;
+
+/**
+ * Result type of a multisig canister method
+ */
+export type MultisigMethodResult<M extends MultisigMethod> = Awaited<ReturnType<MultisigService[M]>>;
+
 /**
  * IDL Factory Function
  * Defines the Canister interface
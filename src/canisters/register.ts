@@ -6,11 +6,14 @@
  * - Register Internet Identity users
  * - Query user information
  * - Check if username is already taken
+ * - Suggest a free username when the desired one is taken
  */
 
 import { Principal } from '@dfinity/principal';
 import { IcAgentClient } from '../agent/client.js';
 import { RegisterIdlFactory, type User } from './idl/register.idl.js';
+import { RegistrationError, ValidationError } from '../errors.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
 
 // Re-export User type for external use
 export type { User } from './idl/register.idl.js';
@@ -21,6 +24,23 @@ export type { User } from './idl/register.idl.js';
  */
 export type RegisterResult = { Ok: User } | { Err: string };
 
+/**
+ * Usernames derived from a taken username, in the order they are tried
+ * `<username>_<first principal segment>` (as used for rotated keys), then `<username>_2`, `<username>_3`, ...
+ *
+ * @param username - Desired username
+ * @param principal - Principal being registered
+ * @param count - Number of candidates
+ * @returns Candidate usernames
+ */
+export function getUsernameCandidates(username: string, principal: Principal, count: number): string[] {
+  const candidates = [`${username}_${principal.toText().split('-')[0]}`];
+  for (let suffix = 2; candidates.length < count; suffix++) {
+    candidates.push(`${username}_${suffix}`);
+  }
+  return candidates.slice(0, count);
+}
+
 /**
  * Register Canister Client
  */
@@ -31,31 +51,41 @@ export class RegisterClient {
   /** Canister Principal ID */
   private canisterId: Principal;
 
+  /** Logger (bound to the RegisterClient component) */
+  private logger: Logger;
+
   /**
    * Create a new Register client
    *
    * @param agentClient - IC Agent client reference
    * @param canisterId - Register Canister ID
+   * @param logger - Logger (optional, defaults to silent)
    */
-  constructor(agentClient: IcAgentClient, canisterId: string) {
+  constructor(agentClient: IcAgentClient, canisterId: string, logger: Logger = silentLogger) {
     this.agentClient = agentClient;
+    this.logger = logger.child({ component: 'RegisterClient' });
 
     // Validate that canisterId cannot be empty
     if (!canisterId || canisterId.trim() === '' || canisterId === 'default') {
-      throw new Error(
-        'Register Canister ID cannot be empty or "default". Please specify a valid Canister ID.'
+      throw new ValidationError(
+        'Register Canister ID cannot be empty or "default". Please specify a valid Canister ID.',
+        'registerCanisterId',
+        canisterId
       );
     }
 
     try {
       this.canisterId = Principal.fromText(canisterId);
     } catch (error) {
-      throw new Error(
-        `Failed to parse Register Canister ID: ${canisterId}. Error: ${error}`
+      throw new ValidationError(
+        `Failed to parse Register Canister ID: ${canisterId}. Error: ${error}`,
+        'registerCanisterId',
+        canisterId,
+        { cause: error }
       );
     }
 
-    console.log(`Creating Register client, target Canister: ${this.canisterId.toText()}`);
+    this.logger.debug('Creating Register client', { canisterId: this.canisterId.toText() });
   }
 
   /**
@@ -68,7 +98,8 @@ export class RegisterClient {
    * @param displayName - Display name
    * @param principal - User's Principal ID
    * @returns Returns User object on success, throws exception on failure
-   * @throws If username already exists, Principal already registered, or other errors
+   * @throws RegistrationError if username already exists or Principal already registered
+   * @throws CanisterCallError if the canister call fails
    *
    * @example
    * ```typescript
@@ -90,10 +121,8 @@ export class RegisterClient {
     displayName: string,
     principal: Principal
   ): Promise<User> {
-    console.log('📝 Preparing to register user to Register Canister...');
-    console.log(`  Username: ${username}`);
-    console.log(`  Display name: ${displayName}`);
-    console.log(`  Principal: ${principal.toText()}`);
+    const fields = { username, displayName, principal: principal.toText() };
+    this.logger.debug('Registering user to Register Canister', fields);
 
     try {
       // Call canister's register_ii_user method
@@ -106,16 +135,16 @@ export class RegisterClient {
 
       // Process return result
       if ('Ok' in result) {
-        console.log('✅ User registration successful');
+        this.logger.info('User registration successful', { username });
         return result.Ok;
       } else if ('Err' in result) {
         // Registration failed
-        throw new Error(`Registration failed: ${result.Err}`);
+        throw new RegistrationError(username, principal.toText(), result.Err);
       } else {
-        throw new Error('Unknown return result format');
+        throw new RegistrationError(username, principal.toText(), 'Unknown return result format');
       }
     } catch (error) {
-      console.error('❌ Failed to register user:', error);
+      this.logger.error('Failed to register user', { ...fields, error });
       throw error;
     }
   }
@@ -146,11 +175,35 @@ export class RegisterClient {
 
       return isTaken;
     } catch (error) {
-      console.error(`❌ Failed to check username: ${username}`, error);
+      this.logger.error('Failed to check username', { username, error });
       throw error;
     }
   }
 
+  /**
+   * Suggest a free username derived from a taken one (see getUsernameCandidates)
+   *
+   * @param username - Desired username
+   * @param principal - Principal being registered
+   * @param maxCandidates - Maximum number of candidates checked (default: 5)
+   * @returns First free candidate, or undefined if all candidates are taken
+   *
+   * @example
+   * ```typescript
+   * if (await client.isUsernameTaken('bot_default')) {
+   *   const username = await client.suggestUsername('bot_default', principal);  // e.g. 'bot_default_2vxsx'
+   * }
+   * ```
+   */
+  async suggestUsername(username: string, principal: Principal, maxCandidates = 5): Promise<string | undefined> {
+    for (const candidate of getUsernameCandidates(username, principal, maxCandidates)) {
+      if (!(await this.isUsernameTaken(candidate))) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Get user information by username (query method)
    *
@@ -181,7 +234,7 @@ export class RegisterClient {
       }
       return null;
     } catch (error) {
-      console.error(`❌ Failed to query user: ${username}`, error);
+      this.logger.error('Failed to query user', { username, error });
       throw error;
     }
   }
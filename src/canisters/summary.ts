@@ -0,0 +1,305 @@
+/**
+ * Multisig Request Summaries
+ *
+ * This module decodes multisig canister requests into human-readable summaries
+ * Main features:
+ * - Describe every RequestType variant (recipient, amount, token, network)
+ * - Format smallest-unit amounts in token units
+ */
+
+import type {
+  RequestType,
+  SignRequest,
+  Account,
+} from './idl/multisig.idl.js';
+import {
+  CHAIN_ID_TO_NETWORK,
+  getTokenConfig,
+  type SupportedNetwork,
+} from '../types.js';
+
+/**
+ * Request type name (RequestType variant tag, e.g. 'X402TransferWithAuthorization')
+ */
+export type RequestKind = RequestType extends infer T ? (T extends unknown ? keyof T : never) : never;
+
+/**
+ * Action of a request type
+ */
+type RequestAction<K extends RequestKind> = RequestType extends infer T
+  ? (T extends Record<K, { action: infer A }> ? A : never)
+  : never;
+
+/**
+ * Human-readable summary of a request
+ */
+export interface RequestSummary {
+  /** Request type */
+  kind: RequestKind;
+  /** One-line description (e.g. 'X402 payment of 0.001 USDC to 0x... on base-sepolia from vault 1') */
+  description: string;
+  /** Network ('base', 'base-sepolia', 'solana', 'icp', or the EVM chain ID when not supported) */
+  network?: string;
+  /** Recipient (address, account identifier or principal) */
+  recipient?: string;
+  /** Amount (smallest unit) */
+  amount?: bigint;
+  /** Amount in token units (e.g. '0.001'), only when the token's decimals are known */
+  formattedAmount?: string;
+  /** Token symbol (or contract, mint or ledger address when the token is not known) */
+  token?: string;
+  /** Vault the request acts on */
+  vaultId?: bigint;
+  /** Acquiring account the request acts on */
+  acquiringAccountId?: bigint;
+  /** Organization the request acts on */
+  organizationId?: bigint;
+}
+
+/**
+ * Format a smallest-unit amount in token units
+ *
+ * @param amount - Amount (smallest unit)
+ * @param decimals - Number of decimals of the token
+ * @returns Amount in token units, without trailing zeros (e.g. 1000n with 6 decimals → '0.001')
+ */
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Resolve the network of an EVM chain ID
+ *
+ * @param chainId - Chain ID (hex string or number)
+ * @returns Supported network name, or the chain ID when not supported
+ */
+function toNetwork(chainId: string | bigint): SupportedNetwork | string {
+  try {
+    const hex = `0x${BigInt(chainId).toString(16)}`;
+    return CHAIN_ID_TO_NETWORK[hex] ?? BigInt(chainId).toString();
+  } catch {
+    return String(chainId);
+  }
+}
+
+/**
+ * Parse an amount that may be a hex or decimal string
+ *
+ * @param value - Amount string
+ * @returns Amount, or undefined if it cannot be parsed
+ */
+function parseAmount(value: string): bigint | undefined {
+  try {
+    return BigInt(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describe an amount with its token
+ *
+ * @param amount - Amount (smallest unit)
+ * @param token - Token symbol or address
+ * @param decimals - Number of decimals (undefined if unknown)
+ * @returns Summary amount fields and the text used in descriptions
+ */
+function describeAmount(
+  amount: bigint | undefined,
+  token: string,
+  decimals: number | undefined
+): { fields: Pick<RequestSummary, 'amount' | 'formattedAmount' | 'token'>; text: string } {
+  const formattedAmount = amount !== undefined && decimals !== undefined
+    ? formatTokenAmount(amount, decimals)
+    : undefined;
+  return {
+    fields: { amount, formattedAmount, token },
+    text: `${formattedAmount ?? (amount !== undefined ? `${amount} (smallest unit)` : 'unknown amount')} ${token}`,
+  };
+}
+
+/**
+ * Describe an ICRC account
+ *
+ * @param account - ICRC-1 account
+ * @returns Owner principal, with the subaccount (hex) when set
+ */
+function describeAccount(account: Account): string {
+  const [subaccount] = account.subaccount;
+  return subaccount
+    ? `${account.owner.toText()}.${Buffer.from(Uint8Array.from(subaccount)).toString('hex')}`
+    : account.owner.toText();
+}
+
+/**
+ * Summarize an EVM transaction
+ *
+ * @param request - Transaction
+ * @param source - Description of the paying account (e.g. 'vault 1')
+ * @returns Summary fields
+ */
+function summarizeEthTransaction(request: SignRequest, source: string): Omit<RequestSummary, 'kind'> {
+  const network = toNetwork(request.chain_id);
+  const { fields, text } = describeAmount(request.value, 'ETH', 18);
+  const call = request.data[0] && request.data[0] !== '0x' ? ' (contract call)' : '';
+  return {
+    description: `EVM transaction${call} of ${text} to ${request.to} on ${network} from ${source}`,
+    network,
+    recipient: request.to,
+    ...fields,
+  };
+}
+
+/**
+ * Summarizers of each request type
+ * Keyed by RequestKind, so a request type added to RequestType without a summarizer fails to compile
+ */
+const SUMMARIZERS: {
+  [K in RequestKind]: (action: RequestAction<K>) => Omit<RequestSummary, 'kind'>;
+} = {
+  X402TransferWithAuthorization: (action) => {
+    const network = toNetwork(action.domain_chain_id);
+    const token = network === 'base' || network === 'base-sepolia' || network === 'solana'
+      ? getTokenConfig(network, action.verifying_contract)
+      : undefined;
+    const { fields, text } = describeAmount(
+      parseAmount(action.value),
+      token?.symbol ?? action.domain_name,
+      token?.decimals
+    );
+    return {
+      description: `X402 payment of ${text} to ${action.to} on ${network} from vault ${action.vault_id}`,
+      network,
+      recipient: action.to,
+      vaultId: action.vault_id,
+      ...fields,
+    };
+  },
+  ETHTransaction: (action) => ({
+    ...summarizeEthTransaction(action.request, `vault ${action.vault_id}`),
+    vaultId: action.vault_id,
+  }),
+  ETHTransactionAcquiringAccount: (action) => ({
+    ...summarizeEthTransaction(action.request, `acquiring account ${action.acquiring_account_id}`),
+    acquiringAccountId: action.acquiring_account_id,
+  }),
+  ICPTransfer: (action) => {
+    const { fields, text } = describeAmount(action.amount, 'ICP', 8);
+    return {
+      description: `ICP transfer of ${text} to ${action.to} from vault ${action.vault_id}`,
+      network: 'icp',
+      recipient: action.to,
+      vaultId: action.vault_id,
+      ...fields,
+    };
+  },
+  ICRCTransfer: (action) => {
+    const recipient = describeAccount(action.to);
+    const { fields, text } = describeAmount(action.amount, action.ledger_canister_id.toText(), undefined);
+    return {
+      description: `ICRC transfer of ${text} to ${recipient} from vault ${action.vault_id}`,
+      network: 'icp',
+      recipient,
+      vaultId: action.vault_id,
+      ...fields,
+    };
+  },
+  ICRCTransferAcquiringAccount: (action) => {
+    const recipient = describeAccount(action.to);
+    const { fields, text } = describeAmount(action.amount, action.ledger_canister_id.toText(), undefined);
+    return {
+      description: `ICRC transfer of ${text} to ${recipient} from acquiring account ${action.acquiring_account_id}`,
+      network: 'icp',
+      recipient,
+      acquiringAccountId: action.acquiring_account_id,
+      ...fields,
+    };
+  },
+  SolanaSolTx: (action) => {
+    const { fields, text } = describeAmount(action.amount, 'SOL', 9);
+    return {
+      description: `SOL transfer of ${text} to ${action.to} from vault ${action.vault_id}`,
+      network: 'solana',
+      recipient: action.to,
+      vaultId: action.vault_id,
+      ...fields,
+    };
+  },
+  SolanaSplTx: (action) => {
+    const token = getTokenConfig('solana', action.mint_account);
+    const { fields, text } = describeAmount(action.amount, token?.symbol ?? action.mint_account, token?.decimals);
+    return {
+      description: `SPL transfer of ${text} to ${action.to} from vault ${action.vault_id}`,
+      network: 'solana',
+      recipient: action.to,
+      vaultId: action.vault_id,
+      ...fields,
+    };
+  },
+  ETHSign: (action) => ({
+    description: `Sign a message with the EVM key of vault ${action.vault_id}`,
+    vaultId: action.vault_id,
+  }),
+  SolanaSign: (action) => ({
+    description: `Sign a message with the Solana key of vault ${action.vault_id}`,
+    network: 'solana',
+    vaultId: action.vault_id,
+  }),
+  CreateVault: (action) => ({
+    description: `Create vault '${action.vault_name}' in organization ${action.organization_id}`,
+    organizationId: action.organization_id,
+  }),
+  ModifyVault: (action) => ({
+    description: `Update vault ${action.vault_id}`,
+    vaultId: action.vault_id,
+  }),
+  CreateAcquiringAccount: (action) => ({
+    description: `Create acquiring account '${action.acquiring_account_name}' in organization ${action.organization_id}`,
+    organizationId: action.organization_id,
+  }),
+  ModifyAcquiringAccount: (action) => ({
+    description: `Update acquiring account ${action.acquiring_account_id}`,
+    acquiringAccountId: action.acquiring_account_id,
+  }),
+  CreateOrganization: (action) => ({
+    description: `Create organization '${action.organization_name}'`,
+  }),
+  UpdateOrganization: (action) => ({
+    description: `Update organization ${action.organization_id}`,
+    organizationId: action.organization_id,
+  }),
+  ModifyAdmin: (action) => ({
+    description: 'UpdateThreshold' in action
+      ? `Set the admin threshold to ${action.UpdateThreshold.new_threshold}`
+      : 'Replace the admin threshold configuration',
+  }),
+};
+
+/**
+ * Summarize a request
+ *
+ * @param requestType - Request type (RequestRecord.request.request_type)
+ * @returns Human-readable summary
+ *
+ * @example
+ * ```typescript
+ * const record = await x402Client.getRequest(42n);
+ * if (record) {
+ *   console.log(summarizeRequest(record.request.request_type).description);
+ *   // X402 payment of 0.001 USDC to 0x... on base-sepolia from vault 1
+ * }
+ * ```
+ */
+export function summarizeRequest(requestType: RequestType): RequestSummary {
+  const kind = Object.keys(requestType)[0] as RequestKind;
+  const summarize = SUMMARIZERS[kind] as ((action: unknown) => Omit<RequestSummary, 'kind'>) | undefined;
+  if (!summarize) {
+    // Request type added to the canister after this SDK version
+    return { kind, description: `Unknown request type ${String(kind)}` };
+  }
+  return { kind, ...summarize((requestType as Record<string, { action: unknown }>)[kind].action) };
+}
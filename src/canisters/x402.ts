@@ -5,19 +5,105 @@
  * Main features:
  * - Call create_request method to create X402 approval requests
  * - Query request status and retrieve EIP-712 signature results
+ * - Execute requests left in the Approved status
  * - Support transferWithAuthorization authorization signatures
+ * - Query organizations and create organization update requests
+ * - Query vaults and the organizations a principal belongs to
+ * - List organization requests and submit approvals
+ * - Typed access to every canister method (getActor)
  */
 
 import { Principal } from '@dfinity/principal';
 import { IcAgentClient } from '../agent/client.js';
+import type { ActorSubclass } from '@dfinity/agent';
 import {
   MultisigIdlFactory,
   X402TransferWithAuthorizationAction,
   RequestRecord,
   CreateRequestParams,
+  Organization,
+  UpdateOrganizationAction,
+  VaultRecord,
+  VaultIdList,
+  UserStatus,
+  ThresholdConfig,
+  TransferRule,
+  BetweenTransferRule,
+  type MultisigService,
+  type MultisigMethod,
+  type MultisigMethodArgs,
+  type MultisigMethodResult,
 } from './idl/multisig.idl.js';
 import type { X402SignParams } from '../types.js';
 import { normalizeUint256 } from '../utils/hex.js';
+import { CanisterCallError, ValidationError } from '../errors.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+
+/**
+ * Amount-based approval rules of a vault (absent Candid Opt lists decoded as empty lists)
+ */
+export interface VaultAdvanceRule {
+  /** Rules for transfers below an amount */
+  less_than: TransferRule[];
+  /** Rules for transfers within an amount range */
+  between: BetweenTransferRule[];
+  /** Rules for transfers above an amount */
+  greater_than: TransferRule[];
+}
+
+/**
+ * Vault (multi-sig wallet)
+ * VaultRecord with Candid Opt fields decoded
+ */
+export interface Vault {
+  /** Vault ID (vaultId of payments) */
+  vault_id: bigint;
+  /** Vault name */
+  vault_name: string;
+  /** Organization owning the vault */
+  organization_id: bigint;
+  /** EVM address of the vault (payer fromAddress of EVM payments) */
+  eth_address: `0x${string}`;
+  /** Solana address of the vault */
+  solana_address: string;
+  /** ICP subaccount of the vault */
+  subaccount: Uint8Array;
+  /** Default approval threshold configuration */
+  threshold_config: ThresholdConfig;
+  /** Amount-based approval rules (undefined if the vault has none) */
+  advance_rule?: VaultAdvanceRule;
+  /** Viewers */
+  viewer: Principal[];
+  /** Creation time (nanoseconds) */
+  created_at: bigint;
+  /** Last update time (nanoseconds) */
+  updated_time: bigint;
+}
+
+/**
+ * Decode a vault record returned by the canister
+ *
+ * @param record - Vault record
+ * @returns Vault
+ */
+function toVault(record: VaultRecord): Vault {
+  const [rule] = record.advance_rule;
+  return {
+    vault_id: record.vault_id,
+    vault_name: record.vault_name,
+    organization_id: record.organization_id,
+    eth_address: record.eth_address as `0x${string}`,
+    solana_address: record.solana_address,
+    subaccount: Uint8Array.from(record.subaccount),
+    threshold_config: record.threshold_config,
+    advance_rule: rule
+      ? { less_than: rule.less_than[0] ?? [], between: rule.between[0] ?? [], greater_than: rule.greater_than[0] ?? [] }
+      : undefined,
+    viewer: record.viewer[0] ?? [],
+    created_at: record.created_at,
+    updated_time: record.updated_time,
+  };
+}
 
 /**
  * X402 Canister Client
@@ -29,29 +115,41 @@ export class X402Client {
   /** Canister Principal ID */
   private canisterId: Principal;
 
+  /** Logger (bound to the X402Client component) */
+  private logger: Logger;
+
   /**
    * Create a new X402 client
    *
    * @param agentClient - IC Agent client reference
    * @param canisterId - Multisig wallet Canister ID (required, must be specified when using)
+   * @param logger - Logger (optional, defaults to silent)
    */
-  constructor(agentClient: IcAgentClient, canisterId: string) {
+  constructor(agentClient: IcAgentClient, canisterId: string, logger: Logger = silentLogger) {
     this.agentClient = agentClient;
+    this.logger = logger.child({ component: 'X402Client' });
 
     // Validate that canisterId cannot be empty
     if (!canisterId || canisterId.trim() === '') {
-      throw new Error('X402 Canister ID cannot be empty. Please specify a valid Canister ID.');
+      throw new ValidationError(
+        'X402 Canister ID cannot be empty. Please specify a valid Canister ID.',
+        'x402CanisterId',
+        canisterId
+      );
     }
 
     try {
       this.canisterId = Principal.fromText(canisterId);
     } catch (error) {
-      throw new Error(
-        `Failed to parse X402 Canister ID: ${canisterId}`
+      throw new ValidationError(
+        `Failed to parse X402 Canister ID: ${canisterId}`,
+        'x402CanisterId',
+        canisterId,
+        { cause: error }
       );
     }
 
-    console.log(`Creating X402 client, target Canister: ${this.canisterId.toText()}`);
+    this.logger.debug('Creating X402 client', { canisterId: this.canisterId.toText() });
   }
 
   /**
@@ -62,7 +160,7 @@ export class X402Client {
    *
    * @param params - X402 signature parameters
    * @returns Request ID (request_id)
-   * @throws If request creation fails
+   * @throws CanisterCallError if request creation fails
    *
    * @example
    * ```typescript
@@ -113,52 +211,30 @@ export class X402Client {
           action: action,
         },
       },
-      expire_time: [], // Empty array means null (Opt<Nat64>)
+      // Empty array means null (Opt<Nat64>), request never expires
+      expire_time: params.expireTime !== undefined ? [params.expireTime] : [],
     };
 
     try {
       // Call canister to create approval request and get request_id
-      const requestId = await this.agentClient.callUpdate<bigint>(
-        this.canisterId,
-        'create_request',
-        [request],
-        MultisigIdlFactory
-      );
+      const requestId = await this.update('create_request', [request]);
       return requestId;
     } catch (error) {
       // Extract detailed error information
       const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorStack = error instanceof Error ? error.stack : undefined;
 
       // Log detailed error for debugging
-      console.error('❌ Failed to create X402 signature request');
-      console.error(`   Error: ${errorMessage}`);
-      if (errorStack) {
-        console.error(`   Stack: ${errorStack}`);
-      }
+      this.logger.error('Failed to create X402 signature request', { vaultId: params.vaultId, error });
 
-      // Throw a more informative error
-      throw new Error(
-        `Failed to create X402 signature request\n\n` +
-        `Error Details:\n` +
-        `  ${errorMessage}\n\n` +
-        `Request Context:\n` +
-        `  Canister ID: ${this.canisterId.toText()}\n` +
-        `  Vault ID: ${params.vaultId}\n` +
-        `  Recipient Address: ${params.to}\n` +
-        `  Transfer Amount: ${params.value}\n` +
-        `  Verifying Contract: ${params.verifyingContract}\n` +
-        `  Chain ID: ${params.domainChainId}\n\n` +
-        `Possible Causes:\n` +
-        `  1. Canister does not exist or is inaccessible\n` +
-        `  2. Vault ID does not exist or lacks permission\n` +
-        `  3. Network connection issue\n` +
-        `  4. Invalid parameter format\n\n` +
-        `Recommendations:\n` +
-        `  - Verify Canister ID is correct\n` +
-        `  - Confirm current identity has permission to operate this Vault\n` +
-        `  - Check network connection is stable\n` +
-        `  - Validate parameter formats meet requirements`
+      // Throw a structured error (vault and canister context, original error as cause)
+      throw new CanisterCallError(
+        `Failed to create X402 signature request for vault ${params.vaultId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'create_request',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
       );
     }
   }
@@ -183,13 +259,7 @@ export class X402Client {
    */
   async getRequest(requestId: bigint, silent: boolean = false): Promise<RequestRecord | null> {
     try {
-      const response = await this.agentClient.callQuery<[RequestRecord] | []>(
-        this.canisterId,
-        'get_request',
-        [requestId],
-        MultisigIdlFactory,
-        silent // Pass silent mode parameter
-      );
+      const response = await this.query('get_request', [requestId], silent);
 
       // Canister returns Opt(RequestRecord), which is in array form
       if (Array.isArray(response) && response.length > 0 && response[0]) {
@@ -202,27 +272,410 @@ export class X402Client {
 
       // Log error (unless in silent mode)
       if (!silent) {
-        console.error(`❌ Failed to query request ${requestId}`);
-        console.error(`   Error: ${errorMessage}`);
+        this.logger.error('Failed to query request', { requestId, error });
       }
 
-      // Throw a more informative error
-      throw new Error(
-        `Failed to query X402 signature request\n\n` +
-        `Error Details:\n` +
-        `  ${errorMessage}\n\n` +
-        `Request Context:\n` +
-        `  Canister ID: ${this.canisterId.toText()}\n` +
-        `  Request ID: ${requestId}\n\n` +
-        `Possible Causes:\n` +
-        `  1. Canister does not exist or is inaccessible\n` +
-        `  2. Network connection issue\n` +
-        `  3. Request ID does not exist\n\n` +
-        `Recommendations:\n` +
-        `  - Verify Canister ID is correct\n` +
-        `  - Validate Request ID is valid\n` +
-        `  - Confirm network connection is stable`
+      // Throw a structured error (request context, original error as cause)
+      throw new CanisterCallError(
+        `Failed to query X402 signature request ${requestId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_request',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Execute an Approved request
+   *
+   * Requests are normally executed by the canister once approvals reach the threshold; this triggers
+   * execution of a request left in the Approved status.
+   *
+   * @param requestId - Request ID
+   * @returns Canister result (true when the request was executed)
+   * @throws CanisterCallError if the call fails
+   *
+   * @example
+   * ```typescript
+   * const record = await client.getRequest(42n);
+   * if (record && 'Approved' in record.status) {
+   *   await client.executeRequest(42n);
+   * }
+   * ```
+   */
+  async executeRequest(requestId: bigint): Promise<boolean> {
+    try {
+      return await this.update('execute_request', [requestId]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to execute request', { requestId, error });
+
+      throw new CanisterCallError(
+        `Failed to execute request ${requestId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'execute_request',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Create an organization update request (e.g. replace the operator list)
+   *
+   * The request goes through the organization's admin approval flow like any other request.
+   *
+   * @param action - Organization update action
+   * @param expireTime - Request expiration time (nanoseconds, optional)
+   * @returns Request ID (request_id)
+   * @throws CanisterCallError if request creation fails
+   *
+   * @example
+   * ```typescript
+   * const requestId = await client.createUpdateOrganizationRequest({
+   *   organization_id: 1n,
+   *   update_operator: [[botPrincipal]],
+   *   update_viewer: [],
+   *   organization_name: [],
+   *   update_admin: [],
+   * });
+   * ```
+   */
+  async createUpdateOrganizationRequest(action: UpdateOrganizationAction, expireTime?: bigint): Promise<bigint> {
+    const request: CreateRequestParams = {
+      request_type: {
+        UpdateOrganization: {
+          action,
+        },
+      },
+      // Empty array means null (Opt<Nat64>), request never expires
+      expire_time: expireTime !== undefined ? [expireTime] : [],
+    };
+
+    try {
+      return await this.update('create_request', [request]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to create organization update request', {
+        organizationId: action.organization_id,
+        error,
+      });
+
+      throw new CanisterCallError(
+        `Failed to create update request for organization ${action.organization_id}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'create_request',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query an organization
+   *
+   * @param organizationId - Organization ID
+   * @returns Organization record, returns null if not exists
+   * @throws CanisterCallError if the query fails
+   *
+   * @example
+   * ```typescript
+   * const organization = await client.getOrganization(1n);
+   * console.log('Operators:', organization?.organization_op.map(p => p.toText()));
+   * ```
+   */
+  async getOrganization(organizationId: bigint): Promise<Organization | null> {
+    try {
+      const response = await this.query('get_organization', [organizationId]);
+
+      // Canister returns Opt(Organization), which is in array form
+      return response.length > 0 && response[0] ? response[0] : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query organization', { organizationId, error });
+
+      throw new CanisterCallError(
+        `Failed to query organization ${organizationId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_organization',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query a vault
+   *
+   * @param vaultId - Vault ID
+   * @returns Vault, returns null if not exists
+   * @throws CanisterCallError if the query fails
+   *
+   * @example
+   * ```typescript
+   * const vault = await client.getVault(1n);
+   * console.log('Payer address:', vault?.eth_address);
+   * ```
+   */
+  async getVault(vaultId: bigint): Promise<Vault | null> {
+    try {
+      const response = await this.query('get_vault', [vaultId]);
+
+      // Canister returns Opt(Vault), which is in array form
+      return response.length > 0 && response[0] ? toVault(response[0]) : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query vault', { vaultId, error });
+
+      throw new CanisterCallError(
+        `Failed to query vault ${vaultId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_vault',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query all vaults of an organization
+   *
+   * @param organizationId - Organization ID
+   * @returns Vaults of the organization
+   * @throws CanisterCallError if the query fails
+   */
+  async getVaultsInOrganization(organizationId: bigint): Promise<Vault[]> {
+    try {
+      const records = await this.query('get_all_vaults_in_organization', [organizationId]);
+      return records.map(toVault);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query organization vaults', { organizationId, error });
+
+      throw new CanisterCallError(
+        `Failed to query vaults of organization ${organizationId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_all_vaults_in_organization',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query the vaults a user takes part in within an organization
+   *
+   * @param username - Username registered in the Register Canister
+   * @param organizationId - Organization ID
+   * @returns Vault IDs, returns null if the user is not a member of the organization
+   * @throws CanisterCallError if the query fails
+   */
+  async getUserVaultIds(username: string, organizationId: bigint): Promise<VaultIdList | null> {
+    try {
+      const response = await this.query('get_user_vaults_in_organization', [username, organizationId]);
+      return response.length > 0 && response[0] ? response[0] : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query user vaults', { username, organizationId, error });
+
+      throw new CanisterCallError(
+        `Failed to query vaults of ${username} in organization ${organizationId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_user_vaults_in_organization',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query the organizations a principal belongs to (update call)
+   *
+   * @param principal - Principal
+   * @returns Memberships (one per organization), empty if the principal belongs to none
+   * @throws CanisterCallError if the call fails
+   *
+   * @example
+   * ```typescript
+   * const memberships = await client.getUserStatus(bot.getPrincipal());
+   * console.log(memberships.map(m => m.organization_id));
+   * ```
+   */
+  async getUserStatus(principal: Principal): Promise<UserStatus[]> {
+    try {
+      const response = await this.update('get_userstatus_via_principal', [principal.toText()]);
+      return response[0] ?? [];
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query user status', { principal: principal.toText(), error });
+
+      throw new CanisterCallError(
+        `Failed to query organizations of ${principal.toText()}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_userstatus_via_principal',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query a page of an organization's requests
+   *
+   * @param organizationId - Organization ID
+   * @param offset - Position of the first request returned (optional, defaults to the start of the list)
+   * @param limit - Maximum number of requests returned (optional, canister default when omitted)
+   * @returns Request records
+   * @throws CanisterCallError if the query fails
+   *
+   * @example
+   * ```typescript
+   * const records = await client.getOrganizationRequests(1n, 0n, 20n);
+   * ```
+   */
+  async getOrganizationRequests(organizationId: bigint, offset?: bigint, limit?: bigint): Promise<RequestRecord[]> {
+    try {
+      return await this.query('get_organization_requests', [
+        organizationId,
+        offset !== undefined ? [offset] : [],
+        limit !== undefined ? [limit] : [],
+      ]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to query organization requests', { organizationId, offset, limit, error });
+
+      throw new CanisterCallError(
+        `Failed to query requests of organization ${organizationId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'get_organization_requests',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Query the number of requests of an organization
+   *
+   * @param organizationId - Organization ID
+   * @param pendingOnly - Only count Pending requests (default: false)
+   * @returns Number of requests
+   * @throws CanisterCallError if the query fails
+   */
+  async getOrganizationRequestCount(organizationId: bigint, pendingOnly: boolean = false): Promise<bigint> {
+    const method = pendingOnly ? 'get_organization_requests_pending' : 'get_organization_requests_num';
+    try {
+      return await this.query(method, [organizationId]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to count organization requests', { organizationId, pendingOnly, error });
+
+      throw new CanisterCallError(
+        `Failed to count requests of organization ${organizationId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method,
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Approve or reject a request
+   *
+   * @param requestId - Request ID
+   * @param approve - true to approve, false to reject
+   * @param reason - Reason recorded with the vote (optional)
+   * @returns Canister result (true when the vote was accepted)
+   * @throws CanisterCallError if the call fails (e.g. the caller is not an approver of the request)
+   *
+   * @example
+   * ```typescript
+   * await client.submitApproval(42n, false, 'Recipient not on the allowlist');
+   * ```
+   */
+  async submitApproval(requestId: bigint, approve: boolean, reason?: string): Promise<boolean> {
+    try {
+      return await this.update('submit_request_approval', [requestId, approve, reason !== undefined ? [reason] : []]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to submit request approval', { requestId, approve, error });
+
+      throw new CanisterCallError(
+        `Failed to ${approve ? 'approve' : 'reject'} request ${requestId}: ${errorMessage}`,
+        {
+          canisterId: this.canisterId.toText(),
+          method: 'submit_request_approval',
+          rejectCode: error instanceof CanisterCallError ? error.rejectCode : undefined,
+        },
+        { cause: error }
       );
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get a typed actor of the multisig canister
+   *
+   * Gives access to every canister method with argument and result types checked
+   * against MultisigService (calls are not wrapped in CanisterCallError).
+   *
+   * @returns Typed actor
+   *
+   * @example
+   * ```typescript
+   * const actor = await client.getActor();
+   * const pending = await actor.get_organization_requests_pending(1n);
+   * ```
+   */
+  async getActor(): Promise<ActorSubclass<MultisigService>> {
+    return this.agentClient.getActor<MultisigService>(this.canisterId, MultisigIdlFactory);
+  }
+
+  /**
+   * Typed query call of a multisig canister method
+   *
+   * @param method - Method name
+   * @param args - Method arguments
+   * @param silent - Whether to query silently (without logging), defaults to true
+   * @returns Decoded response
+   */
+  private query<M extends MultisigMethod>(
+    method: M,
+    args: MultisigMethodArgs<M>,
+    silent: boolean = true
+  ): Promise<MultisigMethodResult<M>> {
+    return this.agentClient.callQuery<MultisigMethodResult<M>>(this.canisterId, method, args, MultisigIdlFactory, silent);
+  }
+
+  /**
+   * Typed update call of a multisig canister method
+   *
+   * @param method - Method name
+   * @param args - Method arguments
+   * @returns Decoded response
+   */
+  private update<M extends MultisigMethod>(method: M, args: MultisigMethodArgs<M>): Promise<MultisigMethodResult<M>> {
+    return this.agentClient.callUpdate<MultisigMethodResult<M>>(this.canisterId, method, args, MultisigIdlFactory);
+  }
+}
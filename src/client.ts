@@ -11,19 +11,76 @@
  * - Code-based configuration: All configurations passed via code, optional configs have defaults
  */
 
-import { Ed25519KeyIdentity } from '@dfinity/identity';
-import * as fs from 'fs';
+import type { Identity, SignIdentity } from '@dfinity/agent';
 import * as path from 'path';
 import { IcAgentClient } from './agent/client.js';
-import { X402Client } from './canisters/x402.js';
-import { RegisterClient } from './canisters/register.js';
-import { IdentityManager } from './identity/manager.js';
+import { X402Client, type Vault } from './canisters/x402.js';
+import { RegisterClient, getUsernameCandidates, type User as RegisterUser } from './canisters/register.js';
+import { IdentityManager, type ManagedIdentity, type RegistrationState } from './identity/manager.js';
+import { getProfileSelection, type IdentityProfile } from './identity/profile.js';
+import type { PassphraseSource } from './identity/crypto.js';
+import type { KeyStore } from './identity/keystore.js';
+import { DfxKeyStore } from './identity/dfx.js';
+import { ExternalSignerIdentity, type ExternalSigner } from './identity/signer.js';
+import { SessionManager, type SessionOptions } from './identity/session.js';
 import type { X402SignParams, SupportedNetwork, SupportedToken } from './types.js';
-import { CHAIN_ID_TO_NETWORK, isSupportedToken, getEIP712DomainParams, DEFAULT_CONFIG } from './types.js';
+import {
+  CHAIN_ID_TO_NETWORK,
+  SUPPORTED_TOKENS,
+  isSupportedToken,
+  getEIP712DomainParams,
+  DEFAULT_CONFIG,
+} from './types.js';
 import { preparePaymentHeader } from 'x402/client';
 import { encodePayment } from 'x402/schemes';
 import { toHex } from 'viem';
 import { validateSignRequestParams } from './utils/validation.js';
+import { computeBackoffDelay, sleep, type BackoffOptions } from './utils/timing.js';
+import { silentLogger, type Logger } from './utils/logger.js';
+import { summarizeRequest, type RequestSummary } from './canisters/summary.js';
+import type { RequestRecord, RequestStatus } from './canisters/idl/multisig.idl.js';
+import {
+  AuthorizationExpiredError,
+  RegistrationError,
+  SignatureRejectedError,
+  SignatureTimeoutError,
+  UnsupportedNetworkError,
+  UnsupportedTokenError,
+  ValidationError,
+  X402MultiSigError,
+} from './errors.js';
+import {
+  parsePaymentRequiredResponse,
+  selectPaymentRequirements,
+  toPaymentRejectedError,
+  type PaymentRequirementsSelection,
+} from './payment/requirements.js';
+import {
+  buildPaidServiceUrl,
+  buildPaidServiceRequestInit,
+  readPaidServiceResponse,
+  decodePaymentResponseHeader,
+  PAYMENT_RESPONSE_HEADER,
+  type PaidServiceRequestOptions,
+  type PaymentSettlement,
+} from './payment/http.js';
+
+/**
+ * Default minimum remaining authorization validity (seconds)
+ * Leaves the server and facilitator time to verify and settle the payment
+ */
+const DEFAULT_VALIDITY_MARGIN_SECONDS = 30;
+
+/**
+ * Get the default validity margin of an authorization
+ * Capped at a quarter of the validity window, so short windows (maxTimeoutSeconds <= 30) are not expired on creation
+ *
+ * @param windowSeconds - Authorization validity window (seconds)
+ * @returns Validity margin (seconds)
+ */
+function getDefaultValidityMargin(windowSeconds: number): number {
+  return Math.min(DEFAULT_VALIDITY_MARGIN_SECONDS, Math.max(0, Math.floor(windowSeconds / 4)));
+}
 
 /**
  * Signature Request Parameters (Full Version)
@@ -50,6 +107,8 @@ export interface SignRequestParams {
   domainName: string;
   /** EIP-712 domain version (e.g. "2") */
   domainVersion: string;
+  /** Canister request expiration time (optional, nanosecond timestamp, approvers can no longer sign after it) */
+  expireTime?: bigint;
 }
 
 /**
@@ -75,6 +134,8 @@ export interface SimpleSignRequestParams {
   token: SupportedToken;
   /** EIP-712 domain version (e.g. "2", optional, defaults to "2") */
   domainVersion?: string;
+  /** Canister request expiration time (optional, nanosecond timestamp) */
+  expireTime?: bigint;
 }
 
 /**
@@ -91,6 +152,8 @@ export interface SignatureResult {
   createdAt: number;
   /** Execution timestamp (milliseconds, only exists when executed) */
   executedAt?: number;
+  /** Result of execute_request, only when waitForSignature executed the Approved request itself (autoExecute) */
+  executeResult?: boolean;
 }
 
 /**
@@ -153,39 +216,419 @@ export interface PaidServiceResponse {
   timestamp: number;
 }
 
+/**
+ * Signed EIP-3009 transferWithAuthorization sent in the x-payment header
+ * Numeric fields are decimal strings, as produced by the x402 library
+ */
+export interface SignedPaymentAuthorization {
+  /** Payer address (multi-sig wallet address) */
+  from: string;
+  /** Recipient address */
+  to: string;
+  /** Transfer amount (smallest unit) */
+  value: string;
+  /** Valid after timestamp (seconds) */
+  validAfter: string;
+  /** Valid before timestamp (seconds) */
+  validBefore: string;
+  /** Nonce (32-byte hex string) */
+  nonce: string;
+  /** EIP-712 signature returned by the multi-sig canister (with 0x prefix) */
+  signature: string;
+}
+
+/**
+ * Structured Result of a Paid Service Call
+ */
+export interface PaidServiceResult<T = any> {
+  /** Response body, read according to responseType (default: parsed JSON) */
+  body: T;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers */
+  headers: Headers;
+  /** Decoded X-PAYMENT-RESPONSE settlement receipt (only when the server returned one) */
+  settlement?: PaymentSettlement;
+  /** Multi-sig canister request ID (only when a payment was made) */
+  requestId?: bigint;
+  /** Signed authorization sent to the server (only when a payment was made) */
+  authorization?: SignedPaymentAuthorization;
+  /** Encoded x-payment header sent to the server (only when a payment was made) */
+  paymentHeader?: string;
+  /** Payment requirements that were paid (only when a payment was made) */
+  paymentRequirements?: PaymentRequirements;
+}
+
 /**
  * Parameters for callPaidService Method
+ *
+ * HTTP options (method, headers, body, query, signal, responseType) are applied to both
+ * the discovery request and the paid request, so the body must be replayable
+ * (string, object, FormData, URLSearchParams, Blob or binary data; not a stream).
  */
-export interface CallPaidServiceParams {
-  /** Vault ID (wallet ID) */
-  vaultId: bigint;
-  /** Payer address (your multi-sig wallet address) */
-  fromAddress: `0x${string}`;
-  /** Payment requirements configuration for paid service */
-  paymentRequirements: PaymentRequirements;
+export interface CallPaidServiceParams extends PaidServiceRequestOptions {
+  /** Vault ID (wallet ID, optional when the profile binds a default vault) */
+  vaultId?: bigint;
+  /** Payer address (your multi-sig wallet address, optional when the profile binds one) */
+  fromAddress?: `0x${string}`;
+  /**
+   * Use the vault's EVM address as payer address (default: false)
+   * The address is queried from the canister (once per vault); a different fromAddress is rejected
+   */
+  resolveFromAddress?: boolean;
+  /**
+   * Payment requirements configuration for paid service (optional)
+   * If omitted, the SDK first requests apiUrl and discovers requirements from the server's 402 response
+   */
+  paymentRequirements?: PaymentRequirements;
+  /**
+   * Requirement selection preferences used for 402 discovery (optional, only used when paymentRequirements is omitted)
+   * Defaults to the profile's spending policy and network
+   */
+  discovery?: PaymentRequirementsSelection;
   /** API URL of paid service */
   apiUrl: string;
   /** Polling configuration (optional) */
-  polling?: {
-    /** Maximum polling attempts (default: 120) */
-    maxAttempts?: number;
-    /** Polling interval (milliseconds, default: 3000) */
-    interval?: number;
-  };
+  polling?: PollingOptions;
+  /** Set the canister request's expire_time to match the authorization validity (default: false) */
+  syncRequestExpiry?: boolean;
+}
+
+/**
+ * Signature Polling Configuration
+ * Accepts all waitForSignature options; `interval` is shorthand for a fixed-interval backoff
+ */
+export interface PollingOptions extends WaitForSignatureOptions {
+  /** Polling interval (milliseconds, default: 3000, ignored when backoff is set) */
+  interval?: number;
+}
+
+/**
+ * Emitted by waitForSignature when the request status changes
+ */
+export interface SignatureStatusChangeEvent {
+  /** Request ID */
+  requestId: bigint;
+  /** Previous status (undefined on the first query) */
+  previousStatus?: string;
+  /** Current status: Pending | Approved | Rejected | Executed | Expired */
+  status: string;
+  /** Latest request record */
+  record: RequestRecord;
+}
+
+/**
+ * Emitted by waitForSignature for each new entry in the request's approvals list
+ */
+export interface SignatureApprovalEvent {
+  /** Request ID */
+  requestId: bigint;
+  /** Approver Principal ID */
+  approver: string;
+  /** Whether the approver approved (false means rejected) */
+  approved: boolean;
+  /** Approval timestamp (milliseconds) */
+  timestamp: number;
+  /** Number of approvals so far */
+  approvalCount: number;
+  /** Number of rejections so far */
+  rejectionCount: number;
+  /** Latest request record */
+  record: RequestRecord;
+}
+
+/**
+ * Emitted by waitForSignature when it calls execute_request on an Approved request (autoExecute)
+ */
+export interface SignatureExecuteEvent {
+  /** Request ID */
+  requestId: bigint;
+  /** execute_request result (false when the canister did not execute the request or the call failed) */
+  executed: boolean;
+  /** Error thrown by the call (if it failed) */
+  error?: unknown;
+  /** Request record that was Approved */
+  record: RequestRecord;
+}
+
+/**
+ * Options for waitForSignature Method
+ */
+export interface WaitForSignatureOptions {
+  /** Abort signal used to cancel waiting */
+  signal?: AbortSignal;
+  /** Called whenever the request status changes (including the first observed status) */
+  onStatusChange?: (event: SignatureStatusChangeEvent) => void;
+  /** Called for each new approval or rejection recorded on the request */
+  onApproval?: (event: SignatureApprovalEvent) => void;
+  /** Backoff between queries (default: fixed 3 second interval) */
+  backoff?: BackoffOptions;
+  /** Absolute deadline (Date or millisecond timestamp), waiting stops once it has passed */
+  deadline?: Date | number;
+  /**
+   * Authorization validBefore (unix timestamp, seconds)
+   * Waiting stops with AuthorizationExpiredError once less than validityMarginSeconds remain
+   */
+  validBefore?: number;
+  /**
+   * Minimum remaining authorization validity required to keep waiting
+   * (seconds, default: 30, capped at a quarter of the validity window)
+   */
+  validityMarginSeconds?: number;
+  /** Maximum number of queries (default: 120 without deadline/validBefore, unlimited otherwise) */
+  maxAttempts?: number;
+  /**
+   * Call execute_request when the request is Approved but not yet executed (default: the autoExecute option)
+   * When disabled, waiting continues until the request is executed by the canister or another party
+   */
+  autoExecute?: boolean;
+  /** Called after each execute_request call made because of autoExecute */
+  onExecute?: (event: SignatureExecuteEvent) => void;
+}
+
+/**
+ * Parameters for createPaymentHeader Method
+ */
+export interface CreatePaymentHeaderParams {
+  /** Vault ID (wallet ID, optional when the profile binds a default vault) */
+  vaultId?: bigint;
+  /** Payer address (your multi-sig wallet address, optional when the profile binds one) */
+  fromAddress?: `0x${string}`;
+  /** Use the vault's EVM address as payer address, rejecting a different fromAddress (default: false) */
+  resolveFromAddress?: boolean;
+  /** Payment requirements to pay */
+  paymentRequirements: PaymentRequirements;
+  /** X402 protocol version (default: 1) */
+  x402Version?: number;
+  /** Polling configuration (optional) */
+  polling?: PollingOptions;
+  /**
+   * Set the canister request's expire_time to the authorization's validBefore (minus the validity margin),
+   * so the request also expires for approvers once the authorization can no longer be used (default: false)
+   */
+  syncRequestExpiry?: boolean;
+}
+
+/**
+ * Result of createPaymentHeader Method
+ */
+export interface PaymentHeaderResult {
+  /** Encoded x-payment header value */
+  paymentHeader: string;
+  /** Multi-sig canister request ID */
+  requestId: bigint;
+  /** Signed authorization contained in the payment header */
+  authorization: SignedPaymentAuthorization;
+}
+
+/**
+ * Parameters for rotateIdentity Method
+ */
+export interface RotateIdentityOptions {
+  /**
+   * Username registered for the new principal
+   * (default: '<username>_<first principal segment>', where the suffix added by a previous rotation is replaced)
+   */
+  username?: string;
+  /** Display name registered for the new principal (default: current display name) */
+  displayName?: string;
+  /**
+   * Organization whose operators are updated (optional)
+   * When set, an UpdateOrganization request replaces the old principal with the new one,
+   * and the identity only switches over once that request is Executed
+   */
+  organizationId?: bigint;
+  /** Expiration time of the organization update request (nanoseconds, optional) */
+  expireTime?: bigint;
+  /** Options for waiting until the organization update request is executed */
+  wait?: Omit<WaitForSignatureOptions, 'validBefore' | 'validityMarginSeconds'>;
+  /**
+   * Called with the new mnemonic of a mnemonic backed identity as soon as it is generated (optional)
+   * Unlike RotateIdentityResult.mnemonic it is also delivered when a later rotation step fails
+   */
+  onMnemonic?: (mnemonic: string) => void | Promise<void>;
+}
+
+/**
+ * Result of rotateIdentity Method
+ */
+export interface RotateIdentityResult {
+  /** Principal of the retired key */
+  previousPrincipal: string;
+  /** Principal of the new key */
+  principal: string;
+  /** Username registered for the new principal */
+  username: string;
+  /** Name under which the retired key is archived */
+  archivedAs: string;
+  /** Organization update request ID (only when organizationId was given) */
+  requestId?: bigint;
+  /**
+   * Mnemonic of the new key (mnemonic backed identities only)
+   * Only returned by the call that generated it, not by a call resuming an interrupted rotation
+   */
+  mnemonic?: string;
+}
+
+/**
+ * Parameters for listMyVaults Method
+ */
+export interface ListVaultsOptions {
+  /** Only list vaults of this organization (optional) */
+  organizationId?: bigint;
+}
+
+/**
+ * Parameters for listRequests Method
+ */
+export interface ListRequestsOptions {
+  /** Only list requests with this status (default: all) */
+  status?: RequestStatus;
+  /** Position in the organization's request list to start from (default: 0, use RequestPage.nextOffset for the next page) */
+  offset?: bigint;
+  /** Maximum number of requests returned (default: 20) */
+  limit?: number;
+  /**
+   * Pending requests not listed yet, from RequestPage.remainingPending (status 'Pending' only)
+   * Lets a scan continued from nextOffset stop early; without it the organization's total pending count is used
+   */
+  remainingPending?: bigint;
+}
+
+/**
+ * Vote recorded on a request
+ */
+export interface RequestVote {
+  /** Approver Principal ID */
+  approver: string;
+  /** Whether the approver approved (false means rejected) */
+  approved: boolean;
+  /** Vote timestamp (milliseconds) */
+  timestamp: number;
+}
+
+/**
+ * Organization request with a human-readable summary
+ */
+export interface OrganizationRequest {
+  /** Request ID */
+  id: bigint;
+  /** Request status */
+  status: RequestStatus;
+  /** Proposer Principal ID */
+  proposer: string;
+  /** Creation time (milliseconds) */
+  createdAt: number;
+  /** Expiration time (milliseconds, undefined if the request never expires) */
+  expiresAt?: number;
+  /** Decoded request (recipient, amount, network, ...) */
+  summary: RequestSummary;
+  /** Votes recorded so far */
+  votes: RequestVote[];
+  /** Number of approvals */
+  approvalCount: number;
+  /** Number of rejections */
+  rejectionCount: number;
+  /** Whether the bot's principal has already voted */
+  votedByMe: boolean;
+  /** Raw request record */
+  record: RequestRecord;
+}
+
+/**
+ * Page of organization requests returned by listRequests
+ */
+export interface RequestPage {
+  /** Requests of the page */
+  requests: OrganizationRequest[];
+  /** Offset of the next page (undefined when the end of the list was reached) */
+  nextOffset?: bigint;
+  /** Pending requests expected from nextOffset on (status 'Pending' only), pass it back with nextOffset */
+  remainingPending?: bigint;
+}
+
+/**
+ * Parameters for ensureRegistered Method
+ */
+export interface EnsureRegisteredOptions {
+  /** Desired username (default: identity username, otherwise 'bot_<identityName>') */
+  username?: string;
+  /** Display name (default: identity display name) */
+  displayName?: string;
+  /**
+   * Register a suffixed username when the desired one is taken by another principal (default: true)
+   * Candidates: '<username>_<first principal segment>', then '<username>_2', '<username>_3', ...
+   * When disabled, the RegistrationError carries a free suggestedUsername instead
+   */
+  autoSuffix?: boolean;
+  /** Maximum number of suffixed usernames tried or checked (default: 5) */
+  maxUsernameCandidates?: number;
+  /** Maximum attempts of each Register Canister call failing with a network or replica error (default: 3) */
+  maxAttempts?: number;
+  /** Delay between attempts (default: 1s doubling, 20% jitter) */
+  backoff?: BackoffOptions;
+}
+
+/**
+ * Result of ensureRegistered Method
+ */
+export interface EnsureRegisteredResult {
+  /** Registered username */
+  username: string;
+  /** Registered principal */
+  principal: string;
+  /** Register Canister user record */
+  user: RegisterUser;
+  /** Whether this call registered the principal (false if it was already registered) */
+  newlyRegistered: boolean;
+}
+
+/**
+ * Result of getRegistrationStatus Method
+ */
+export interface RegistrationStatus {
+  /** Whether the principal is registered under the username */
+  registered: boolean;
+  /** Username checked (the recorded username if any, otherwise the default username) */
+  username: string;
+  /** Principal of the identity */
+  principal: string;
+  /** Register Canister user record (registered only) */
+  user?: RegisterUser;
+  /** Registration state recorded in the identity file (identities managed by the SDK only) */
+  recorded?: RegistrationState;
 }
 
 /**
  * X402MultiSig Configuration Options
  */
 export interface X402MultiSigOptions {
-  /** X402 Canister ID (required) */
-  x402CanisterId: string;
+  /** X402 Canister ID (required, unless the profile binds one) */
+  x402CanisterId?: string;
   /** Register Canister ID (optional, default: 'vkxj3-biaaa-aaaau-abyra-cai') */
   registerCanisterId?: string;
   /** Identity name (default: 'default') */
   identityName?: string;
-  /** Identity storage directory (default: <project_dir>/.multisig-x402/identities) */
+  /** Identity storage directory (default: <project_dir>/.multisig-x402/identities, ignored when keyStore is set) */
   identityDir?: string;
+  /**
+   * Identity key storage backend (optional, default: FileKeyStore on identityDir)
+   * See MemoryKeyStore, EnvKeyStore and RemoteKeyStore; with a read-only store the identity must already exist
+   */
+  keyStore?: KeyStore;
+  /**
+   * Where the identity comes from (optional, alternative to identityName/keyStore)
+   * - `'dfx:<name>'`: use the dfx identity `<name>` in place (read-only, the key is not copied), see DfxKeyStore
+   */
+  identitySource?: string;
+  /**
+   * Identity profile name (optional, alternative to identityName)
+   * Loads the identity of that name and the settings bound in its profile (canisters, IC network,
+   * default vault and payer address, spending policy); explicitly passed options take precedence
+   */
+  profile?: string;
   /** IC network (default: 'mainnet') */
   network?: 'mainnet' | 'local';
   /** IC host address (optional, will be inferred from network) */
@@ -194,8 +637,55 @@ export interface X402MultiSigOptions {
   displayName?: string;
   /** Username (optional, only used when creating new identity) */
   username?: string;
+  /**
+   * Register the identity in the Register Canister during create() (default: true)
+   * Registers new identities and retries identities whose recorded registration failed; when disabled,
+   * call ensureRegistered() explicitly
+   */
+  autoRegister?: boolean;
+  /**
+   * Execute Approved requests while waiting for signatures (default: false)
+   * Enable when the canister does not execute requests automatically once approvals reach the threshold;
+   * can be overridden per call with WaitForSignatureOptions.autoExecute
+   */
+  autoExecute?: boolean;
+  /** Logger (optional, default: silent; see createConsoleLogger, fromPinoLogger, fromWinstonLogger) */
+  logger?: Logger;
+  /**
+   * Passphrase (or callback returning it) used to encrypt identity files at rest (optional)
+   * Required to load encrypted identities; existing plaintext identities are migrated to encrypted files on load
+   */
+  identityPassphrase?: PassphraseSource;
+  /**
+   * Identity used to sign IC requests (optional, e.g. Secp256k1KeyIdentity or a hardware-backed SignIdentity)
+   * When set, the identity manager is not used: identityName, identityDir, keyStore and identityPassphrase are ignored
+   * and the identity is not auto-registered
+   */
+  identity?: Identity;
+  /**
+   * External signer used to sign IC requests (optional, alternative to identity)
+   * The private key stays with the signer (e.g. a signing daemon), the SDK only receives signatures
+   */
+  signer?: ExternalSigner;
+  /**
+   * Sign IC requests with a short-lived session key delegated from the identity (optional, default: disabled)
+   * `true` uses defaults (8 hour TTL, scoped to the x402 and register canisters); sessions of managed identities
+   * are persisted in the identity record and refreshed automatically before they expire
+   */
+  session?: boolean | SessionOptions;
 }
 
+/**
+ * X402MultiSig Options with Defaults Applied
+ * Secrets (identityPassphrase), the key store and external identities are not retained after initialization
+ */
+export type ResolvedX402MultiSigOptions = Required<
+  Omit<
+    X402MultiSigOptions,
+    'identityPassphrase' | 'keyStore' | 'identitySource' | 'profile' | 'identity' | 'signer' | 'session'
+  >
+>;
+
 /**
  * X402MultiSig - Intelligent SDK Client
  *
@@ -226,28 +716,45 @@ export interface X402MultiSigOptions {
  */
 export class X402MultiSig {
   /** Current identity in use */
-  private identity: Ed25519KeyIdentity;
+  private identity: Identity;
   /** IC Agent client */
   private agentClient: IcAgentClient;
   /** X402 Canister client */
   private x402Client: X402Client;
   /** Configuration options */
-  private options: Required<X402MultiSigOptions>;
+  private options: ResolvedX402MultiSigOptions;
+  /** Logger (bound to the X402MultiSig component) */
+  private logger: Logger;
+  /** Identity Manager (only for identities managed by the SDK) */
+  private identityManager?: IdentityManager;
+  /** Session Manager (only when sessions are enabled) */
+  private sessionManager?: SessionManager;
+  /** Identity profile (only when created with the profile option) */
+  private profile?: IdentityProfile;
+  /** Cache mapping vault IDs to their EVM addresses (vault addresses never change) */
+  private vaultAddressCache: Map<bigint, `0x${string}`> = new Map();
 
   /**
    * Private Constructor
    * Please use X402MultiSig.create() to create instances
    */
   private constructor(
-    identity: Ed25519KeyIdentity,
+    identity: Identity,
     agentClient: IcAgentClient,
     x402Client: X402Client,
-    options: Required<X402MultiSigOptions>
+    options: ResolvedX402MultiSigOptions,
+    identityManager?: IdentityManager,
+    sessionManager?: SessionManager,
+    profile?: IdentityProfile
   ) {
     this.identity = identity;
     this.agentClient = agentClient;
     this.x402Client = x402Client;
     this.options = options;
+    this.identityManager = identityManager;
+    this.sessionManager = sessionManager;
+    this.profile = profile;
+    this.logger = options.logger.child({ component: 'X402MultiSig' });
   }
 
   /**
@@ -256,6 +763,8 @@ export class X402MultiSig {
    * Automatically handles identity management:
    * - If identity doesn't exist, automatically creates new identity
    * - If identity exists, automatically loads it
+   * - If an identity or external signer is provided, uses it without touching the identity manager
+   * - If a profile is given, loads that identity together with the settings bound in its profile
    *
    * @param options - Configuration options
    * @returns X402MultiSig instance
@@ -268,20 +777,29 @@ export class X402MultiSig {
    * ```
    */
   static async create(options: X402MultiSigOptions): Promise<X402MultiSig> {
+    // Identity source: selects the key store and identity name
+    const source = options.identitySource ? X402MultiSig.parseIdentitySource(options) : undefined;
+
+    // Use relative path: create identity storage directory in project directory
+    const identityDir = options.identityDir || path.join(process.cwd(), DEFAULT_CONFIG.identityDirRelativePath);
+
+    // Profile: settings bound to the identity, used where no option is passed explicitly
+    const profile = options.profile ? await X402MultiSig.loadProfile(options, identityDir) : undefined;
+    const network = options.network || profile?.icNetwork || DEFAULT_CONFIG.network;
+
     // Fill in default configuration (using unified config defined in types.ts)
-    const fullOptions: Required<X402MultiSigOptions> = {
-      x402CanisterId: options.x402CanisterId,
+    const fullOptions: ResolvedX402MultiSigOptions = {
+      x402CanisterId: options.x402CanisterId || profile?.x402CanisterId || '',
       // Use default Register Canister ID
-      registerCanisterId: options.registerCanisterId || DEFAULT_CONFIG.registerCanisterId,
+      registerCanisterId: options.registerCanisterId || profile?.registerCanisterId || DEFAULT_CONFIG.registerCanisterId,
       // Use default identity name
-      identityName: options.identityName || DEFAULT_CONFIG.identityName,
-      // Use relative path: create identity storage directory in project directory
-      identityDir: options.identityDir || path.join(process.cwd(), DEFAULT_CONFIG.identityDirRelativePath),
+      identityName: source?.identityName || options.profile || options.identityName || DEFAULT_CONFIG.identityName,
+      identityDir,
       // Use default network type
-      network: options.network || DEFAULT_CONFIG.network,
+      network,
       // Automatically select host address based on network
       host: options.host || (
-        options.network === 'local'
+        network === 'local'
           ? DEFAULT_CONFIG.hosts.local
           : DEFAULT_CONFIG.hosts.mainnet
       ),
@@ -289,74 +807,208 @@ export class X402MultiSig {
       displayName: options.displayName || DEFAULT_CONFIG.displayName,
       // Use default username
       username: options.username || DEFAULT_CONFIG.username,
+      autoRegister: options.autoRegister ?? true,
+      autoExecute: options.autoExecute ?? false,
+      // SDK is silent unless a logger is provided
+      logger: options.logger ?? silentLogger,
     };
+    const logger = fullOptions.logger.child({ component: 'X402MultiSig' });
 
-    // Intelligent identity management: check if identity exists
-    const identityManager = new IdentityManager(fullOptions.identityDir);
-
-    // Initialize identity manager, ensure directory exists
-    await identityManager.initialize();
-
-    const identityPath = path.join(fullOptions.identityDir, `${fullOptions.identityName}.json`);
+    if (!fullOptions.x402CanisterId) {
+      throw new ValidationError(
+        'X402 Canister ID is required: pass x402CanisterId or use a profile that binds one',
+        'x402CanisterId'
+      );
+    }
+    if (profile?.x402CanisterId && options.x402CanisterId && profile.x402CanisterId !== options.x402CanisterId) {
+      logger.warn('x402CanisterId overrides the canister bound in the profile', {
+        profile: options.profile,
+        x402CanisterId: options.x402CanisterId,
+      });
+    }
 
-    let identity: Ed25519KeyIdentity;
+    let identity: Identity;
     let isNewIdentity = false; // Flag whether it's a newly created identity
+    let identityManager: IdentityManager | undefined;
 
-    if (fs.existsSync(identityPath)) {
-      // Identity exists, load it
-      identity = await identityManager.loadIdentity(fullOptions.identityName);
-    } else {
-      // Identity doesn't exist, auto-create
-      console.log('Identity does not exist, creating new identity...');
-      identity = await identityManager.generateIdentity(
-        fullOptions.identityName,
-        false,
-        fullOptions.username || undefined,
-        fullOptions.displayName || undefined
-      );
-      console.log('✅ New identity created successfully');
-      isNewIdentity = true; // Mark as new identity
+    if (options.identity && options.signer) {
+      throw new ValidationError('Provide either identity or signer, not both', 'identity');
     }
-    const agentClient = await IcAgentClient.create(identity, fullOptions.host);
 
-    // If it's a newly created identity, automatically register user
-    if (isNewIdentity) {
-      console.log('');
-      console.log('New identity detected, automatically registering user...');
+    if (options.identity || options.signer) {
+      // Externally managed identity: keys never pass through the identity manager
+      identity = options.identity ?? (await ExternalSignerIdentity.create(options.signer!));
+      logger.info('Using externally provided identity', { principal: identity.getPrincipal().toText() });
+    } else {
+      ({ identity, isNewIdentity, identityManager } = await X402MultiSig.loadOrCreateIdentity(
+        source ? { ...options, keyStore: source.keyStore } : options,
+        fullOptions,
+        logger
+      ));
+    }
 
-      try {
-        // Create Register client
-        const registerClient = new RegisterClient(agentClient, fullOptions.registerCanisterId);
-
-        // Get Principal
-        const principal = identity.getPrincipal();
-
-        // Prepare registration parameters
-        const username = fullOptions.username || `bot_${fullOptions.identityName}`;
-        const displayName = fullOptions.displayName || 'x402MultiSig Bot';
-
-        // Call registration method
-        const user = await registerClient.registerUser(username, displayName, principal);
-
-        console.log('✅ User registration successful');
-        console.log(`   Username: ${user.user_name}`);
-        console.log(`   Display name: ${user.display_name || '(None)'}`);
-        console.log(`   Principal: ${user.user_principal.toText()}`);
-        console.log('');
-      } catch (error: any) {
-        // If registration fails (e.g. username already exists), print warning but don't interrupt initialization
-        console.warn('⚠️  User registration failed:', error.message);
-        console.warn('   Continuing initialization, but this identity may not be able to use certain features');
-        console.log('');
+    // Session keys: the agent signs with a delegated short-lived key, the principal stays the same
+    let sessionManager: SessionManager | undefined;
+    if (options.session) {
+      const signIdentity = identity as Partial<SignIdentity>;
+      if (typeof signIdentity.sign !== 'function' || typeof signIdentity.getPublicKey !== 'function') {
+        throw new ValidationError('Sessions require an identity that can sign delegations (SignIdentity)', 'session');
       }
+      const sessionOptions = options.session === true ? {} : options.session;
+      sessionManager = new SessionManager(identity as SignIdentity, {
+        ...sessionOptions,
+        targets: sessionOptions.targets ?? [fullOptions.x402CanisterId, fullOptions.registerCanisterId],
+        store: identityManager?.createSessionStore(fullOptions.identityName),
+        logger: fullOptions.logger,
+      });
+    }
+
+    const agentClient = await IcAgentClient.create(
+      sessionManager ? await sessionManager.getIdentity() : identity,
+      fullOptions.host,
+      fullOptions.logger
+    );
+    if (sessionManager) {
+      const manager = sessionManager;
+      agentClient.setIdentityProvider(() => manager.getIdentity());
     }
 
     // Create X402 Canister client
-    const x402Client = new X402Client(agentClient, fullOptions.x402CanisterId);
+    const x402Client = new X402Client(agentClient, fullOptions.x402CanisterId, fullOptions.logger);
+
+    const bot = new X402MultiSig(identity, agentClient, x402Client, fullOptions, identityManager, sessionManager, profile);
+
+    // Register new identities, and retry identities whose last registration failed or was never recorded
+    // (identity files written before registration states were recorded). Read-only stores are not registered.
+    if (fullOptions.autoRegister && identityManager && !identityManager.getKeyStore().readOnly) {
+      const registration = isNewIdentity
+        ? undefined
+        : await identityManager.getRegistration(fullOptions.identityName);
+      if (registration?.status !== 'registered') {
+        logger.info(
+          isNewIdentity
+            ? 'New identity detected, automatically registering user'
+            : registration
+              ? 'Retrying failed registration'
+              : 'No registration recorded, checking registration',
+          { identityName: fullOptions.identityName }
+        );
+        try {
+          await bot.ensureRegistered();
+        } catch (error) {
+          // Don't interrupt initialization, the failure is recorded and retried on the next start
+          logger.warn(
+            'User registration failed, continuing initialization but this identity may not be able to use certain features',
+            { error }
+          );
+        }
+      }
+    }
+
+    return bot;
+  }
+
+  /**
+   * Load the profile named by the profile option
+   *
+   * @param options - Configuration options as provided by the caller
+   * @param identityDir - Identity storage directory (used when no key store is provided)
+   * @returns Identity profile
+   * @throws ValidationError if the profile is combined with conflicting options
+   * @throws If the identity does not exist or has no profile
+   */
+  private static async loadProfile(options: X402MultiSigOptions, identityDir: string): Promise<IdentityProfile> {
+    const name = options.profile!;
+    if (options.identitySource || options.identity || options.signer) {
+      throw new ValidationError('profile cannot be combined with identitySource, identity or signer', 'profile', name);
+    }
+
+    const identityManager = new IdentityManager(options.keyStore ?? identityDir, { logger: options.logger });
+    const profile = (await identityManager.hasIdentity(name)) ? await identityManager.getProfile(name) : undefined;
+    if (!profile) {
+      throw new X402MultiSigError(`Profile '${name}' not found, create it with IdentityManager.setProfile()`);
+    }
+    return profile;
+  }
+
+  /**
+   * Resolve the identitySource option into a key store and identity name
+   *
+   * @param options - Configuration options as provided by the caller
+   * @returns Key store and identity name selected by the source
+   * @throws ValidationError if the source is malformed or combined with conflicting options
+   */
+  private static parseIdentitySource(options: X402MultiSigOptions): { keyStore: KeyStore; identityName: string } {
+    const source = options.identitySource!;
+    if (options.keyStore || options.identity || options.signer) {
+      throw new ValidationError(
+        'identitySource cannot be combined with keyStore, identity or signer',
+        'identitySource',
+        source
+      );
+    }
+
+    const separator = source.indexOf(':');
+    const kind = separator >= 0 ? source.slice(0, separator) : '';
+    const name = source.slice(separator + 1);
+    if (kind !== 'dfx' || !name) {
+      throw new ValidationError(
+        `Unsupported identity source '${source}', expected 'dfx:<identity name>'`,
+        'identitySource',
+        source
+      );
+    }
 
-    return new X402MultiSig(identity, agentClient, x402Client, fullOptions);
+    return { keyStore: new DfxKeyStore(), identityName: name };
   }
 
+  /**
+   * Load the configured identity through the identity manager, creating it if it doesn't exist
+   *
+   * @param options - Configuration options as provided by the caller
+   * @param fullOptions - Configuration options with defaults applied
+   * @param logger - Logger (bound to the X402MultiSig component)
+   * @returns Loaded or generated identity, whether it was newly created, and the identity manager used
+   */
+  private static async loadOrCreateIdentity(
+    options: X402MultiSigOptions,
+    fullOptions: ResolvedX402MultiSigOptions,
+    logger: Logger
+  ): Promise<{ identity: ManagedIdentity; isNewIdentity: boolean; identityManager: IdentityManager }> {
+    // Intelligent identity management: check if identity exists
+    const identityManager = new IdentityManager(options.keyStore ?? fullOptions.identityDir, {
+      logger: fullOptions.logger,
+      passphrase: options.identityPassphrase,
+    });
+
+    // Initialize identity manager, ensure the key store is ready (e.g. directory exists)
+    await identityManager.initialize();
+
+    if (identityManager.getKeyStore().readOnly) {
+      // Read-only stores (mounted secrets, environment variables) cannot receive a generated identity
+      if (!(await identityManager.hasIdentity(fullOptions.identityName))) {
+        throw new X402MultiSigError(
+          `Identity '${fullOptions.identityName}' not found in read-only key store, provision it before starting`
+        );
+      }
+      const identity = await identityManager.loadIdentity(fullOptions.identityName);
+      return { identity, isNewIdentity: false, identityManager };
+    }
+
+    // Load the identity, or create it if it doesn't exist. Creation is atomic, so when several processes
+    // start at once with the same identity name, exactly one creates it and the others load that identity
+    const { identity, created } = await identityManager.createIdentityIfAbsent(
+      fullOptions.identityName,
+      fullOptions.username || undefined,
+      fullOptions.displayName || undefined
+    );
+    if (created) {
+      logger.info('Identity did not exist, created new identity', { identityName: fullOptions.identityName });
+    }
+
+    // Only the process that created the identity registers it
+    return { identity, isNewIdentity: created, identityManager };
+  }
 
   /**
    * Method 1: Get Bot's Principal ID
@@ -402,30 +1054,23 @@ export class X402MultiSig {
    * ```
    */
   async createSignRequest(params: SignRequestParams): Promise<bigint> {
-    console.log('Creating multi-signature request...');
-    console.log('');
+    this.logger.debug('Creating multi-signature request', { vaultId: params.vaultId, to: params.to });
 
     // ==================== Step 0: Input Validation ====================
     // Validate all input parameters before processing
     try {
-      validateSignRequestParams(params);
+      validateSignRequestParams(params, this.logger);
     } catch (error) {
-      // Re-throw validation errors with context
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(
-        `❌ Input parameter validation failed:\n${errorMessage}\n` +
-        `\nPlease check the following parameters:\n` +
-        `- vaultId: ${params.vaultId}\n` +
-        `- to: ${params.to}\n` +
-        `- value: ${params.value}\n` +
-        `- validAfter: ${params.validAfter}\n` +
-        `- validBefore: ${params.validBefore}\n` +
-        `- nonce: ${params.nonce}\n` +
-        `- verifyingContract: ${params.verifyingContract}\n` +
-        `- domainChainId: ${params.domainChainId}\n` +
-        `- domainName: ${params.domainName}\n` +
-        `- domainVersion: ${params.domainVersion}`
-      );
+      // Re-throw validation errors with context, keeping the offending field
+      if (error instanceof ValidationError) {
+        throw new ValidationError(
+          `Input parameter validation failed: ${error.message}`,
+          error.field,
+          error.value,
+          { cause: error }
+        );
+      }
+      throw error;
     }
 
     // ==================== Step 1: Verify Network Support ====================
@@ -433,25 +1078,15 @@ export class X402MultiSig {
     const network: SupportedNetwork | undefined = CHAIN_ID_TO_NETWORK[params.domainChainId];
 
     if (!network) {
-      const supportedChainIds = Object.keys(CHAIN_ID_TO_NETWORK).join(', ');
-      throw new Error(
-        `❌ Unsupported network Chain ID: ${params.domainChainId}\n` +
-        `   Multi-sig wallet only supports the following networks:\n` +
-        `   - BASE mainnet (Chain ID: 0x2105)\n` +
-        `   - BASE testnet (Chain ID: 0x14a34)\n` +
-        `   - Solana (Chain ID: solana)\n` +
-        `   Supported Chain IDs: ${supportedChainIds}`
-      );
+      throw new UnsupportedNetworkError(params.domainChainId, Object.keys(CHAIN_ID_TO_NETWORK));
     }
 
     // ==================== Step 2: Verify Token Contract Address ====================
     if (!isSupportedToken(network, params.verifyingContract)) {
-      throw new Error(
-        `❌ Unsupported token contract address: ${params.verifyingContract}\n` +
-        `   Network: ${network}\n` +
-        `   Multi-sig wallet only supports the following token contracts on ${network}:\n` +
-        `${this.getSupportedTokensMessage(network)}\n` +
-        `   Please verify the contract address or select a supported token.`
+      throw new UnsupportedTokenError(
+        network,
+        params.verifyingContract,
+        SUPPORTED_TOKENS[network]?.map(token => token.symbol) ?? []
       );
     }
 
@@ -468,13 +1103,13 @@ export class X402MultiSig {
       domainChainId: params.domainChainId,
       domainName: params.domainName,
       domainVersion: params.domainVersion,
+      expireTime: params.expireTime,
     };
 
     // Directly call canister's create_request method (without waiting for execution)
     const requestId = await this.x402Client.createRequestOnly(signParams);
 
-    console.log(`Request created, ID: ${requestId}`);
-    console.log('');
+    this.logger.info('Signature request created', { requestId, vaultId: params.vaultId });
 
     return requestId;
   }
@@ -509,8 +1144,11 @@ export class X402MultiSig {
 
     // Use default version "2" (if not specified)
     const domainVersion = params.domainVersion || '2';
-    console.log(`   Domain Version: ${domainVersion}`);
-    console.log('');
+    this.logger.debug('Resolving EIP-712 domain parameters', {
+      network: params.network,
+      token: params.token,
+      domainVersion,
+    });
 
     // Auto-retrieve domain parameters
     const domainParams = getEIP712DomainParams(params.network, params.token, domainVersion);
@@ -527,34 +1165,13 @@ export class X402MultiSig {
       domainChainId: domainParams.domainChainId,
       domainName: domainParams.domainName,
       domainVersion: domainParams.domainVersion,
+      expireTime: params.expireTime,
     };
 
     // Call the full version of create request method
     return this.createSignRequest(fullParams);
   }
 
-  /**
-   * Get Supported Token List for Specified Network (for error messages)
-   *
-   * @param network - Network name
-   * @returns Formatted token list string
-   */
-  private getSupportedTokensMessage(network: SupportedNetwork): string {
-    // Dynamically import SUPPORTED_TOKENS to avoid circular dependencies
-    const { SUPPORTED_TOKENS } = require('./types.js');
-    const tokens = SUPPORTED_TOKENS[network];
-
-    if (!tokens || tokens.length === 0) {
-      return `   (No supported tokens on this network yet)`;
-    }
-
-    return tokens
-      .map((token: any) =>
-        `   - ${token.symbol} (${token.name}): ${token.address}`
-      )
-      .join('\n');
-  }
-
   /**
    * Method 3: Query Signature
    *
@@ -584,14 +1201,25 @@ export class X402MultiSig {
    * ```
    */
   async getSignature(requestId: bigint): Promise<SignatureResult> {
-    console.log('Querying signature...\n');
+    this.logger.debug('Querying signature', { requestId });
 
     const record = await this.x402Client.getRequest(requestId, true);
 
     if (!record) {
-      throw new Error(`Request does not exist: ${requestId}`);
+      throw new X402MultiSigError(`Request does not exist: ${requestId}`);
     }
 
+    return this.toSignatureResult(requestId, record);
+  }
+
+  /**
+   * Convert Request Record to Signature Result
+   *
+   * @param requestId - Request ID
+   * @param record - Request record returned by the canister
+   * @returns Signature result
+   */
+  private toSignatureResult(requestId: bigint, record: RequestRecord): SignatureResult {
     const statusKey = Object.keys(record.status)[0] as string;
 
     const result: SignatureResult = {
@@ -612,43 +1240,793 @@ export class X402MultiSig {
   }
 
   /**
-   * Get Underlying X402Client (Advanced Usage)
+   * Wait for Signature Completion
    *
-   * If you need to directly call advanced methods of X402 Canister, you can get the underlying client.
+   * Polls the request until it is Executed, emitting typed events whenever the status or the
+   * approvals list changes. Supports cancellation, exponential backoff with jitter and an
+   * absolute deadline (e.g. derived from the authorization's validBefore). With autoExecute,
+   * a request left Approved is executed with execute_request (retried on the next poll if it fails).
    *
-   * @returns X402Client instance
+   * @param requestId - Request ID (returned by createSignRequest)
+   * @param options - Wait options
+   * @returns Signature result (status Executed, signature present)
+   * @throws AuthorizationExpiredError if validBefore is given and the authorization expires before execution
+   * @throws SignatureRejectedError if approvers reject the request
+   * @throws SignatureTimeoutError if the request expires, or the deadline or maxAttempts is reached
+   * @throws The signal's abort reason if the signal is aborted
    *
    * @example
    * ```typescript
-   * const x402 = bot.getX402Client();
-   * const record = await x402.getRequest(requestId, true);
+   * const result = await bot.waitForSignature(requestId, {
+   *   signal: AbortSignal.timeout(10 * 60_000),
+   *   backoff: { initialDelay: 2000, multiplier: 1.5, maxDelay: 15000, jitter: 0.2 },
+   *   onStatusChange: (e) => console.log(`Status: ${e.previousStatus} -> ${e.status}`),
+   *   onApproval: (e) => console.log(`${e.approvalCount} approvals (latest: ${e.approver})`),
+   * });
+   * console.log('Signature:', result.signature);
    * ```
    */
-  getX402Client(): X402Client {
-    return this.x402Client;
-  }
+  async waitForSignature(requestId: bigint, options: WaitForSignatureOptions = {}): Promise<SignatureResult> {
+    const { signal, onStatusChange, onApproval, onExecute, backoff, validBefore } = options;
+    const autoExecute = options.autoExecute ?? this.options.autoExecute;
+    const deadline = options.deadline instanceof Date ? options.deadline.getTime() : options.deadline;
+    const maxAttempts = options.maxAttempts ??
+      (deadline === undefined && validBefore === undefined ? 120 : Infinity);
+
+    // Last moment at which a signature is still useful for the authorization (milliseconds)
+    const validityMarginSeconds = validBefore !== undefined
+      ? options.validityMarginSeconds ?? getDefaultValidityMargin(validBefore - Date.now() / 1000)
+      : 0;
+    const validityDeadline = validBefore !== undefined ? (validBefore - validityMarginSeconds) * 1000 : undefined;
+
+    let previousStatus: string | undefined;
+    const seenApprovals = new Set<string>();
+    let attempts = 0;
+    // execute_request result (only set once autoExecute has called it)
+    let executeResult: boolean | undefined;
+
+    while (true) {
+      signal?.throwIfAborted();
+      attempts++;
+
+      const record = await this.x402Client.getRequest(requestId, true);
+      if (!record) {
+        throw new X402MultiSigError(`Request does not exist: ${requestId}`);
+      }
 
-  /**
-   * Get Underlying IC Agent Client (Advanced Usage)
-   *
-   * If you need to directly call other Canisters or perform underlying operations, you can get the Agent client.
-   *
-   * @returns IcAgentClient instance
-   *
-   * @example
-   * ```typescript
-   * const agent = bot.getAgentClient();
-   * const result = await agent.callQuery(...);
-   * ```
+      const status = Object.keys(record.status)[0] as string;
+
+      // Emit approval events for entries not seen before, with the counts up to and including each entry
+      let approvalCount = 0;
+      let rejectionCount = 0;
+      for (const approval of record.approvals) {
+        if (approval.approved) {
+          approvalCount++;
+        } else {
+          rejectionCount++;
+        }
+        const approver = approval.approver.toText();
+        const key = `${approver}:${approval.approved}:${approval.timestamp}`;
+        if (seenApprovals.has(key)) {
+          continue;
+        }
+        seenApprovals.add(key);
+        onApproval?.({
+          requestId,
+          approver,
+          approved: approval.approved,
+          timestamp: Number(approval.timestamp / BigInt(1_000_000)),
+          approvalCount,
+          rejectionCount,
+          record,
+        });
+      }
+
+      if (status !== previousStatus) {
+        onStatusChange?.({ requestId, previousStatus, status, record });
+        previousStatus = status;
+        if (status === 'Approved' && !autoExecute) {
+          this.logger.info('Signature request approved, waiting for execution', { requestId });
+        }
+      }
+
+      if (status === 'Executed') {
+        this.logger.info('Signature request completed', { requestId });
+        const result = this.toSignatureResult(requestId, record);
+        if (executeResult !== undefined) {
+          result.executeResult = executeResult;
+        }
+        return result;
+      } else if (status === 'Rejected') {
+        throw new SignatureRejectedError(requestId);
+      } else if (status === 'Expired') {
+        throw new SignatureTimeoutError(requestId, 'expired', status);
+      } else if (status === 'Approved' && autoExecute && executeResult !== true) {
+        executeResult = await this.executeApprovedRequest(requestId, record, onExecute);
+        if (executeResult) {
+          // Query again right away to pick up the signature
+          continue;
+        }
+      }
+
+      if (attempts >= maxAttempts) {
+        throw new SignatureTimeoutError(requestId, 'maxAttempts', status);
+      }
+
+      // Wait for next attempt, never sleeping past the deadline or the authorization validity
+      let delay = computeBackoffDelay(attempts, backoff);
+      if (validityDeadline !== undefined) {
+        const remaining = validityDeadline - Date.now();
+        if (remaining <= 0) {
+          throw new AuthorizationExpiredError(validBefore!, requestId);
+        }
+        delay = Math.min(delay, remaining);
+      }
+      if (deadline !== undefined) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new SignatureTimeoutError(requestId, 'deadline', previousStatus);
+        }
+        delay = Math.min(delay, remaining);
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Execute an Approved Request on Behalf of waitForSignature
+   * Failures are reported through onExecute and logged, so that waiting can continue
+   *
+   * @param requestId - Request ID
+   * @param record - Approved request record
+   * @param onExecute - Execute event callback (optional)
+   * @returns execute_request result (false if the call failed)
+   */
+  private async executeApprovedRequest(
+    requestId: bigint,
+    record: RequestRecord,
+    onExecute?: (event: SignatureExecuteEvent) => void
+  ): Promise<boolean> {
+    let executed = false;
+    let error: unknown;
+    try {
+      executed = await this.x402Client.executeRequest(requestId);
+    } catch (caught) {
+      error = caught;
+    }
+
+    if (executed) {
+      this.logger.info('Approved signature request executed', { requestId });
+    } else {
+      this.logger.warn('Approved signature request not executed, will retry', { requestId, error });
+    }
+    onExecute?.({ requestId, executed, error, record });
+    return executed;
+  }
+
+  /**
+   * Query a Vault
+   *
+   * @param vaultId - Vault ID
+   * @returns Vault (addresses, threshold configuration and advance rules), or null if it does not exist
+   * @throws CanisterCallError if the query fails
+   *
+   * @example
+   * ```typescript
+   * const vault = await bot.getVault(1n);
+   * console.log(vault?.vault_name, vault?.eth_address);
+   * ```
+   */
+  async getVault(vaultId: bigint): Promise<Vault | null> {
+    const vault = await this.x402Client.getVault(vaultId);
+    if (vault) {
+      this.cacheVaultAddress(vault);
+    }
+    return vault;
+  }
+
+  /**
+   * List the Vaults the Bot Can Use
+   *
+   * Looks up the organizations the bot's principal belongs to. In organizations where the bot is an operator
+   * or admin, all vaults are listed; otherwise only the vaults it approves for or views.
+   *
+   * @param options - Listing options
+   * @returns Vaults, sorted by vault ID
+   * @throws CanisterCallError if a query fails
+   *
+   * @example
+   * ```typescript
+   * const [vault] = await bot.listMyVaults();
+   * await bot.callPaidService({ apiUrl, vaultId: vault.vault_id, fromAddress: vault.eth_address });
+   * ```
+   */
+  async listMyVaults(options: ListVaultsOptions = {}): Promise<Vault[]> {
+    const memberships = await this.x402Client.getUserStatus(this.identity.getPrincipal());
+    const vaults = new Map<bigint, Vault>();
+
+    for (const membership of memberships) {
+      if (options.organizationId !== undefined && membership.organization_id !== options.organizationId) {
+        continue;
+      }
+
+      const roles = membership.roles[0] ?? [];
+      if (roles.some(role => 'Op' in role || 'Admin' in role)) {
+        for (const vault of await this.x402Client.getVaultsInOrganization(membership.organization_id)) {
+          vaults.set(vault.vault_id, vault);
+        }
+        continue;
+      }
+
+      const ids = await this.x402Client.getUserVaultIds(membership.user_name, membership.organization_id);
+      for (const vaultId of [...(ids?.vault_ids ?? []), ...(ids?.wallet_viewer[0] ?? [])]) {
+        const vault = vaults.has(vaultId) ? undefined : await this.x402Client.getVault(vaultId);
+        if (vault) {
+          vaults.set(vault.vault_id, vault);
+        }
+      }
+    }
+
+    const result = [...vaults.values()].sort((a, b) => (a.vault_id < b.vault_id ? -1 : a.vault_id > b.vault_id ? 1 : 0));
+    result.forEach(vault => this.cacheVaultAddress(vault));
+    this.logger.debug('Listed vaults', { count: result.length, organizationId: options.organizationId });
+    return result;
+  }
+
+  /**
+   * List an Organization's Requests
+   *
+   * Pages through the organization's requests (optionally filtered by status) and decodes each one into a
+   * human-readable summary. With a status filter, the list is scanned until `limit` matching requests are
+   * found or the end is reached; continue from `nextOffset`.
+   *
+   * The canister cannot filter by status, so a filtered listing reads every request from `offset` on
+   * (one query per `limit` requests) and its cost grows with the organization's request history.
+   * With status 'Pending', the scan stops as soon as the organization's pending count is reached. The count
+   * covers the whole list, so a scan continued from `nextOffset` needs `remainingPending` from the previous
+   * page to stop early (requests created after the scan started may then be left for the next scan).
+   *
+   * @param organizationId - Organization ID
+   * @param options - Listing options
+   * @returns Page of requests
+   * @throws ValidationError if limit is not a positive integer
+   * @throws CanisterCallError if a query fails
+   *
+   * @example
+   * ```typescript
+   * let offset: bigint | undefined = 0n;
+   * while (offset !== undefined) {
+   *   const page = await bot.listRequests(1n, { offset, limit: 50 });
+   *   page.requests.forEach(r => console.log(r.id, r.status, r.summary.description));
+   *   offset = page.nextOffset;
+   * }
+   * ```
+   */
+  async listRequests(organizationId: bigint, options: ListRequestsOptions = {}): Promise<RequestPage> {
+    const limit = options.limit ?? 20;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new ValidationError(`limit must be a positive integer: ${limit}`, 'limit', limit);
+    }
+
+    const requests: OrganizationRequest[] = [];
+    let offset = options.offset ?? 0n;
+
+    // No more Pending requests can follow once as many as the organization has were found
+    let remainingPending = options.status === 'Pending'
+      ? options.remainingPending ?? await this.x402Client.getOrganizationRequestCount(organizationId, true)
+      : undefined;
+    if (remainingPending === 0n) {
+      return { requests };
+    }
+
+    while (true) {
+      const records = await this.x402Client.getOrganizationRequests(organizationId, offset, BigInt(limit));
+      for (const record of records) {
+        offset++;
+        if (options.status !== undefined && !(options.status in record.status)) {
+          continue;
+        }
+        requests.push(this.toOrganizationRequest(record));
+        if (remainingPending !== undefined && --remainingPending === 0n) {
+          this.logger.debug('Listed organization requests', { organizationId, count: requests.length });
+          return { requests };
+        }
+        if (requests.length === limit) {
+          return { requests, nextOffset: offset, remainingPending };
+        }
+      }
+      if (records.length < limit) {
+        this.logger.debug('Listed organization requests', { organizationId, count: requests.length });
+        return { requests };
+      }
+    }
+  }
+
+  /**
+   * List an Organization's Pending Requests
+   *
+   * Shorthand for listRequests with `status: 'Pending'`.
+   *
+   * @param organizationId - Organization ID
+   * @param options - Listing options
+   * @returns Page of Pending requests
+   * @throws CanisterCallError if a query fails
+   *
+   * @example
+   * ```typescript
+   * const { requests } = await bot.listPendingRequests(1n);
+   * for (const request of requests.filter(r => !r.votedByMe)) {
+   *   console.log(`#${request.id}: ${request.summary.description}`);
+   * }
+   * ```
+   */
+  async listPendingRequests(
+    organizationId: bigint,
+    options: Omit<ListRequestsOptions, 'status'> = {}
+  ): Promise<RequestPage> {
+    return this.listRequests(organizationId, { ...options, status: 'Pending' });
+  }
+
+  /**
+   * Approve a Request
+   *
+   * @param requestId - Request ID
+   * @param reason - Reason recorded with the approval (optional)
+   * @returns Canister result (true when the vote was accepted)
+   * @throws CanisterCallError if the call fails (e.g. the bot is not an approver of the request)
+   *
+   * @example
+   * ```typescript
+   * await bot.approveRequest(42n, 'Within the daily budget');
+   * ```
+   */
+  async approveRequest(requestId: bigint, reason?: string): Promise<boolean> {
+    const accepted = await this.x402Client.submitApproval(requestId, true, reason);
+    this.logger.info('Request approved', { requestId, accepted });
+    return accepted;
+  }
+
+  /**
+   * Reject a Request
+   *
+   * @param requestId - Request ID
+   * @param reason - Reason recorded with the rejection (optional)
+   * @returns Canister result (true when the vote was accepted)
+   * @throws CanisterCallError if the call fails (e.g. the bot is not an approver of the request)
+   *
+   * @example
+   * ```typescript
+   * await bot.rejectRequest(42n, 'Recipient not on the allowlist');
+   * ```
+   */
+  async rejectRequest(requestId: bigint, reason?: string): Promise<boolean> {
+    const accepted = await this.x402Client.submitApproval(requestId, false, reason);
+    this.logger.info('Request rejected', { requestId, accepted });
+    return accepted;
+  }
+
+  /**
+   * Convert a Request Record to an Organization Request
+   *
+   * @param record - Request record returned by the canister
+   * @returns Organization request
+   */
+  private toOrganizationRequest(record: RequestRecord): OrganizationRequest {
+    const principal = this.identity.getPrincipal().toText();
+    const votes = record.approvals.map(approval => ({
+      approver: approval.approver.toText(),
+      approved: approval.approved,
+      timestamp: Number(approval.timestamp / BigInt(1_000_000)),
+    }));
+    const [expireTime] = record.request.expire_time;
+
+    return {
+      id: record.id,
+      status: Object.keys(record.status)[0] as RequestStatus,
+      proposer: record.proposer.toText(),
+      createdAt: Number(record.created_at / BigInt(1_000_000)),
+      expiresAt: expireTime !== undefined ? Number(expireTime / BigInt(1_000_000)) : undefined,
+      summary: summarizeRequest(record.request.request_type),
+      votes,
+      approvalCount: votes.filter(vote => vote.approved).length,
+      rejectionCount: votes.filter(vote => !vote.approved).length,
+      votedByMe: votes.some(vote => vote.approver === principal),
+      record,
+    };
+  }
+
+  /**
+   * Remember a vault's EVM address for payer address resolution
+   *
+   * @param vault - Vault
+   */
+  private cacheVaultAddress(vault: Vault): void {
+    if (/^0x[0-9a-fA-F]{40}$/.test(vault.eth_address)) {
+      this.vaultAddressCache.set(vault.vault_id, vault.eth_address);
+    }
+  }
+
+  /**
+   * Make sure the Bot's Principal is Registered in the Register Canister
+   *
+   * 1. Checks the recorded username, the desired username and its suffixed variants with get_user,
+   *    and returns as soon as one of them belongs to this principal
+   * 2. Otherwise registers the first free username (a suffixed one if the desired username is taken)
+   * 3. Records the outcome in the identity file, so a failed registration is retried on the next create()
+   *
+   * Register Canister calls failing with network or replica errors are retried with backoff.
+   *
+   * @param options - Registration options
+   * @returns Registered username and user record
+   * @throws RegistrationError if the Register Canister refuses the principal, or every candidate username is taken
+   *
+   * @example
+   * ```typescript
+   * const bot = await X402MultiSig.create({ x402CanisterId, autoRegister: false });
+   * const { username, newlyRegistered } = await bot.ensureRegistered({ username: 'weather_bot' });
+   * ```
+   */
+  async ensureRegistered(options: EnsureRegisteredOptions = {}): Promise<EnsureRegisteredResult> {
+    const principal = this.identity.getPrincipal();
+    const registerClient = new RegisterClient(this.agentClient, this.options.registerCanisterId, this.options.logger);
+    const retry = <T>(operation: () => Promise<T>) =>
+      this.retryRegistration(operation, options.maxAttempts ?? 3, options.backoff);
+    const isOwnUser = (user: RegisterUser | null): user is RegisterUser =>
+      user !== null && user.user_principal.toText() === principal.toText();
+
+    const recorded = await this.identityManager?.getRegistration(this.options.identityName);
+    const username = options.username ?? (await this.getDefaultUsername());
+    const displayName = options.displayName ?? (await this.getDefaultDisplayName());
+    const autoSuffix = options.autoSuffix ?? true;
+    const maxCandidates = options.maxUsernameCandidates ?? 5;
+
+    const candidates = new Set([
+      ...(recorded?.status === 'registered' ? [recorded.username] : []),
+      username,
+      ...(autoSuffix ? getUsernameCandidates(username, principal, maxCandidates) : []),
+    ]);
+
+    let candidate = username;
+    try {
+      for (candidate of candidates) {
+        const existing = await retry(() => registerClient.getUser(candidate));
+        if (isOwnUser(existing)) {
+          this.logger.debug('Principal already registered', { username: candidate, principal: principal.toText() });
+          if (recorded?.status !== 'registered' || recorded.username !== candidate) {
+            await this.recordRegistration({ status: 'registered', username: candidate });
+          }
+          return { username: candidate, principal: principal.toText(), user: existing, newlyRegistered: false };
+        }
+        if (existing) {
+          continue; // Taken by another principal
+        }
+
+        let user: RegisterUser;
+        try {
+          user = await retry(() => registerClient.registerUser(candidate, displayName, principal));
+        } catch (error) {
+          if (!(error instanceof RegistrationError)) {
+            throw error;
+          }
+          // Registered by a retried attempt, or taken concurrently by another principal
+          const current = await retry(() => registerClient.getUser(candidate));
+          if (isOwnUser(current)) {
+            user = current;
+          } else if (current) {
+            continue;
+          } else {
+            throw error; // The canister refused the principal itself
+          }
+        }
+
+        await this.recordRegistration({ status: 'registered', username: candidate });
+        return { username: candidate, principal: principal.toText(), user, newlyRegistered: true };
+      }
+
+      const suggestedUsername = autoSuffix
+        ? undefined
+        : await registerClient.suggestUsername(username, principal, maxCandidates);
+      throw new RegistrationError(
+        username,
+        principal.toText(),
+        autoSuffix ? `username and ${candidates.size - 1} alternatives are taken` : 'username is taken',
+        { suggestedUsername }
+      );
+    } catch (error) {
+      await this.recordRegistration({
+        status: 'failed',
+        username: candidate,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the Bot's Registration Status
+   * Checks the recorded username (or the default username) with the Register Canister, without registering
+   *
+   * @returns Registration status
+   *
+   * @example
+   * ```typescript
+   * const status = await bot.getRegistrationStatus();
+   * if (!status.registered) {
+   *   await bot.ensureRegistered();
+   * }
+   * ```
+   */
+  async getRegistrationStatus(): Promise<RegistrationStatus> {
+    const principal = this.identity.getPrincipal().toText();
+    const recorded = await this.identityManager?.getRegistration(this.options.identityName);
+    const username = recorded?.username ?? (await this.getDefaultUsername());
+
+    const registerClient = new RegisterClient(this.agentClient, this.options.registerCanisterId, this.options.logger);
+    const user = await registerClient.getUser(username);
+    const registered = user !== null && user.user_principal.toText() === principal;
+
+    return { registered, username, principal, user: registered ? user : undefined, recorded };
+  }
+
+  /**
+   * Get the username registered by default (identity username, configured username, or 'bot_<identityName>')
+   *
+   * @returns Username
+   */
+  private async getDefaultUsername(): Promise<string> {
+    const name = this.options.identityName;
+    return (await this.identityManager?.getUsername(name)) || this.options.username || `bot_${name}`;
+  }
+
+  /**
+   * Get the display name registered by default (identity display name or configured display name)
+   *
+   * @returns Display name
+   */
+  private async getDefaultDisplayName(): Promise<string> {
+    const name = this.options.identityName;
+    return (await this.identityManager?.getDisplayName(name)) || this.options.displayName || 'x402MultiSig Bot';
+  }
+
+  /**
+   * Run a Register Canister call, retrying network and replica errors with backoff
+   * RegistrationError (a definitive answer of the canister) is never retried
+   *
+   * @param operation - Register Canister call
+   * @param maxAttempts - Maximum number of attempts
+   * @param backoff - Delay between attempts
+   * @returns Result of the call
+   */
+  private async retryRegistration<T>(
+    operation: () => Promise<T>,
+    maxAttempts: number,
+    backoff: BackoffOptions = { initialDelay: 1000, multiplier: 2, jitter: 0.2 }
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (error instanceof RegistrationError || attempt >= maxAttempts) {
+          throw error;
+        }
+        const delay = computeBackoffDelay(attempt, backoff);
+        this.logger.warn('Register Canister call failed, retrying', { attempt, maxAttempts, delay, error });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Record the registration state of the current principal in the identity file
+   * Only for identities managed by the SDK; failures to record are logged, not thrown
+   *
+   * @param state - Registration outcome
+   */
+  private async recordRegistration(
+    state: Pick<RegistrationState, 'status' | 'username' | 'lastError'>
+  ): Promise<void> {
+    if (!this.identityManager) {
+      return;
+    }
+    const now = new Date().toISOString();
+    try {
+      await this.identityManager.setRegistration(this.options.identityName, {
+        ...state,
+        principal: this.identity.getPrincipal().toText(),
+        ...(state.status === 'registered' ? { registeredAt: now } : {}),
+        updatedAt: now,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to record registration state', { identityName: this.options.identityName, error });
+    }
+  }
+
+  /**
+   * Rotate the Bot's Key
+   *
+   * 1. Generates a new key of the same type (or resumes an interrupted rotation), kept next to the current one;
+   *    a mnemonic backed identity gets a new mnemonic, passed to onMnemonic and returned once
+   * 2. Registers the new principal in the Register Canister
+   * 3. Optionally submits an UpdateOrganization request replacing the old operator with the new one,
+   *    and waits until it is Executed
+   * 4. Archives the old key and switches this instance over to the new key
+   *
+   * If any step fails the current key stays active; calling rotateIdentity() again resumes with the same new key
+   * and waits on the organization update request already proposed
+   * (a new one is only proposed if it was rejected or expired).
+   *
+   * @param options - Rotation options
+   * @returns Rotation result
+   * @throws X402MultiSigError if the identity is not managed by the SDK (identity or signer option)
+   * @throws RegistrationError if the new principal cannot be registered
+   * @throws SignatureRejectedError / SignatureTimeoutError if the organization update is not executed
+   *
+   * @example
+   * ```typescript
+   * const result = await bot.rotateIdentity({ organizationId: 1n });
+   * console.log(`Rotated ${result.previousPrincipal} -> ${result.principal}`);
+   * ```
+   */
+  async rotateIdentity(options: RotateIdentityOptions = {}): Promise<RotateIdentityResult> {
+    if (!this.identityManager) {
+      throw new X402MultiSigError('Key rotation requires an identity managed by the SDK (identity/signer option used)');
+    }
+
+    const name = this.options.identityName;
+    const previousPrincipal = this.identity.getPrincipal();
+    const { identity, mnemonic } = await this.identityManager.prepareRotation(name);
+    if (mnemonic !== undefined) {
+      await options.onMnemonic?.(mnemonic);
+    }
+    const principal = identity.getPrincipal();
+    const fields = { identityName: name, previousPrincipal: previousPrincipal.toText(), principal: principal.toText() };
+    this.logger.info('Rotating identity', fields);
+
+    // Register the new principal (signed by the new key)
+    const newAgentClient = await IcAgentClient.create(identity, this.options.host, this.options.logger);
+    const registerClient = new RegisterClient(newAgentClient, this.options.registerCanisterId, this.options.logger);
+    // Drop the suffix added by the previous rotation, so suffixes do not pile up
+    const currentUsername = (await this.identityManager.getUsername(name)) || this.options.username || `bot_${name}`;
+    const previousSuffix = `_${previousPrincipal.toText().split('-')[0]}`;
+    const baseUsername = currentUsername.endsWith(previousSuffix)
+      ? currentUsername.slice(0, -previousSuffix.length)
+      : currentUsername;
+    const username = options.username ?? `${baseUsername}_${principal.toText().split('-')[0]}`;
+    const displayName = options.displayName ??
+      ((await this.identityManager.getDisplayName(name)) || this.options.displayName || 'x402MultiSig Bot');
+
+    const registered = await registerClient.getUser(username);
+    if (registered && registered.user_principal.toText() === principal.toText()) {
+      this.logger.info('New principal already registered, resuming rotation', { ...fields, username });
+    } else {
+      await registerClient.registerUser(username, displayName, principal);
+    }
+
+    // Replace the old operator with the new one (proposed by the old key, which is still an operator)
+    let requestId: bigint | undefined;
+    if (options.organizationId !== undefined) {
+      const organization = await this.x402Client.getOrganization(options.organizationId);
+      if (!organization) {
+        throw new X402MultiSigError(`Organization does not exist: ${options.organizationId}`);
+      }
+
+      const pendingRequest = await this.identityManager.getRotationRequest(name);
+      requestId = pendingRequest?.organizationId === options.organizationId ? pendingRequest.requestId : undefined;
+      const operatorTexts = organization.organization_op.map(op => op.toText());
+
+      if (operatorTexts.includes(principal.toText()) && !operatorTexts.includes(previousPrincipal.toText())) {
+        this.logger.info('Organization operators already updated, resuming rotation', { ...fields, requestId });
+      } else {
+        if (requestId === undefined) {
+          const operators = organization.organization_op.filter(op => op.toText() !== previousPrincipal.toText());
+          if (!operators.some(op => op.toText() === principal.toText())) {
+            operators.push(principal);
+          }
+
+          requestId = await this.x402Client.createUpdateOrganizationRequest(
+            {
+              organization_id: options.organizationId,
+              update_operator: [operators],
+              update_viewer: [],
+              organization_name: [],
+              update_admin: [],
+            },
+            options.expireTime
+          );
+          // Recorded with the new key, so a resumed rotation waits on this request instead of proposing another
+          await this.identityManager.setRotationRequest(name, { organizationId: options.organizationId, requestId });
+          this.logger.info('Organization update request created, waiting for approval', { ...fields, requestId });
+        } else {
+          this.logger.info('Resuming wait for organization update request', { ...fields, requestId });
+        }
+
+        try {
+          await this.waitForSignature(requestId, options.wait);
+        } catch (error) {
+          if (error instanceof SignatureRejectedError ||
+            (error instanceof SignatureTimeoutError && error.reason === 'expired')) {
+            // The request can no longer execute, the next attempt proposes a new one
+            await this.identityManager.setRotationRequest(name, undefined);
+          }
+          throw error;
+        }
+      }
+    }
+
+    // Switch over: archive the old key, promote the new one
+    const { archivedAs } = await this.identityManager.completeRotation(name, username);
+    this.identity = identity;
+    if (this.sessionManager) {
+      // The agent picks up a session delegated by the new key on its next call
+      this.sessionManager.setMasterIdentity(identity);
+    } else {
+      this.agentClient.replaceIdentity(identity);
+    }
+    await this.recordRegistration({ status: 'registered', username });
+
+    return {
+      previousPrincipal: previousPrincipal.toText(),
+      principal: principal.toText(),
+      username,
+      archivedAs,
+      requestId,
+      mnemonic,
+    };
+  }
+
+  /**
+   * Get Underlying X402Client (Advanced Usage)
+   *
+   * If you need to directly call advanced methods of X402 Canister, you can get the underlying client.
+   *
+   * @returns X402Client instance
+   *
+   * @example
+   * ```typescript
+   * const x402 = bot.getX402Client();
+   * const record = await x402.getRequest(requestId, true);
+   * ```
+   */
+  getX402Client(): X402Client {
+    return this.x402Client;
+  }
+
+  /**
+   * Get Underlying IC Agent Client (Advanced Usage)
+   *
+   * If you need to directly call other Canisters or perform underlying operations, you can get the Agent client.
+   *
+   * @returns IcAgentClient instance
+   *
+   * @example
+   * ```typescript
+   * const agent = bot.getAgentClient();
+   * const result = await agent.callQuery(...);
+   * ```
    */
   getAgentClient(): IcAgentClient {
     return this.agentClient;
   }
 
+  /**
+   * Get Session Manager (Advanced Usage)
+   *
+   * @returns SessionManager instance, or undefined if sessions are not enabled
+   *
+   * @example
+   * ```typescript
+   * const sessions = bot.getSessionManager();
+   * console.log('Session expires at:', sessions?.getExpiry());
+   * ```
+   */
+  getSessionManager(): SessionManager | undefined {
+    return this.sessionManager;
+  }
+
   /**
    * Get Current Identity in Use
    *
-   * @returns Ed25519KeyIdentity instance
+   * @returns Identity instance (Ed25519KeyIdentity or Secp256k1KeyIdentity for identities managed by the SDK)
    *
    * @example
    * ```typescript
@@ -656,7 +2034,7 @@ export class X402MultiSig {
    * console.log('Principal:', identity.getPrincipal().toText());
    * ```
    */
-  getIdentity(): Ed25519KeyIdentity {
+  getIdentity(): Identity {
     return this.identity;
   }
 
@@ -665,14 +2043,92 @@ export class X402MultiSig {
    *
    * @returns Current configuration options
    */
-  getOptions(): Readonly<Required<X402MultiSigOptions>> {
+  getOptions(): Readonly<ResolvedX402MultiSigOptions> {
     return { ...this.options };
   }
 
+  /**
+   * Get the identity profile
+   *
+   * @returns Identity profile, or undefined if the client was not created with a profile
+   */
+  getProfile(): Readonly<IdentityProfile> | undefined {
+    return this.profile;
+  }
+
+  /**
+   * Resolve the paying vault and address, falling back to the profile's default vault
+   * With resolveFromAddress, the payer address is the vault's EVM address as reported by the canister
+   *
+   * @param params - Payment parameters
+   * @returns Vault ID and payer address
+   * @throws ValidationError if neither the parameters nor the profile provide them,
+   *   or fromAddress is not the vault's address (resolveFromAddress only)
+   */
+  private async resolvePayer(params: {
+    vaultId?: bigint;
+    fromAddress?: `0x${string}`;
+    resolveFromAddress?: boolean;
+  }): Promise<{ vaultId: bigint; fromAddress: `0x${string}` }> {
+    const vaultId = params.vaultId ?? this.profile?.vaultId;
+    const fromAddress = params.fromAddress ?? this.profile?.evmAddress;
+    if (vaultId === undefined) {
+      throw new ValidationError('vaultId is required (no default vault bound in the profile)', 'vaultId');
+    }
+    if (!params.resolveFromAddress) {
+      if (!fromAddress) {
+        throw new ValidationError(
+          'fromAddress is required (no vault address bound in the profile, or set resolveFromAddress)',
+          'fromAddress'
+        );
+      }
+      return { vaultId, fromAddress };
+    }
+
+    let vaultAddress = this.vaultAddressCache.get(vaultId);
+    if (!vaultAddress) {
+      const vault = await this.getVault(vaultId);
+      if (!vault) {
+        throw new ValidationError(`Vault does not exist: ${vaultId}`, 'vaultId', vaultId);
+      }
+      vaultAddress = this.vaultAddressCache.get(vaultId);
+      if (!vaultAddress) {
+        throw new X402MultiSigError(`Vault ${vaultId} has no EVM address: ${vault.eth_address || '(empty)'}`);
+      }
+    }
+
+    if (fromAddress && fromAddress.toLowerCase() !== vaultAddress.toLowerCase()) {
+      throw new ValidationError(
+        `fromAddress ${fromAddress} is not the EVM address of vault ${vaultId} (${vaultAddress})`,
+        'fromAddress',
+        fromAddress
+      );
+    }
+    return { vaultId, fromAddress: vaultAddress };
+  }
+
+  /**
+   * Check payment requirements against the profile's spending policy
+   *
+   * @param paymentRequirements - Payment requirements to pay
+   * @throws ValidationError if the amount exceeds the policy's maxAmountRequired
+   */
+  private checkSpendingPolicy(paymentRequirements: PaymentRequirements): void {
+    const maxAmount = this.profile?.spendingPolicy?.maxAmountRequired;
+    if (maxAmount !== undefined && BigInt(paymentRequirements.maxAmountRequired) > BigInt(maxAmount)) {
+      throw new ValidationError(
+        `Payment of ${paymentRequirements.maxAmountRequired} exceeds the profile spending limit of ${maxAmount}`,
+        'maxAmountRequired',
+        paymentRequirements.maxAmountRequired
+      );
+    }
+  }
+
   /**
    * Call Paid Service (using X402 Payment Protocol)
    *
    * This method encapsulates the complete X402 payment flow:
+   * 0. Discover payment requirements from the server's 402 response (only when paymentRequirements is omitted)
    * 1. Prepare unsigned payment header (using x402 library)
    * 2. Extract signature parameters
    * 3. Create signature request
@@ -682,7 +2138,7 @@ export class X402MultiSig {
    * 7. Send HTTP request with x-payment header
    *
    * @param params - Parameters for calling paid service
-   * @returns Response from paid service (format may vary by service)
+   * @returns Response from paid service, read according to params.responseType (default: parsed JSON)
    *
    * @example
    * ```typescript
@@ -713,21 +2169,187 @@ export class X402MultiSig {
    * });
    *
    * console.log('Service response:', response);
+   *
+   * // POST a JSON body and read the response as text
+   * const completion = await bot.callPaidService({
+   *   vaultId: 1n,
+   *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+   *   paymentRequirements,
+   *   apiUrl: 'http://example.com/api/inference',
+   *   method: 'POST',
+   *   headers: { Authorization: 'Bearer <token>' },
+   *   body: { prompt: 'Hello' },
+   *   responseType: 'text',
+   * });
+   *
+   * // Or let the SDK discover payment requirements from the server's 402 response
+   * const discovered = await bot.callPaidService({
+   *   vaultId: 1n,
+   *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+   *   apiUrl: 'http://example.com/api/weather',
+   *   discovery: { network: 'base-sepolia', token: 'USDC', maxAmountRequired: '10000' },
+   * });
    * ```
    */
   async callPaidService(params: CallPaidServiceParams): Promise<any> {
+    const result = await this.callPaidServiceWithReceipt(params);
+    return result.body;
+  }
+
+  /**
+   * Call Paid Service and Return Settlement Details
+   *
+   * Same flow as callPaidService, but returns a structured result containing the response body,
+   * HTTP status, the decoded X-PAYMENT-RESPONSE settlement receipt, the multi-sig request ID
+   * and the signed authorization, so each on-chain settlement can be reconciled with the
+   * RequestRecord that produced it.
+   *
+   * @param params - Parameters for calling paid service
+   * @returns Structured paid service result
+   *
+   * @example
+   * ```typescript
+   * const result = await bot.callPaidServiceWithReceipt({
+   *   vaultId: 1n,
+   *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+   *   apiUrl: 'http://example.com/api/weather',
+   * });
+   *
+   * console.log('Body:', result.body);
+   * console.log('Request ID:', result.requestId);
+   * console.log('Settlement tx:', result.settlement?.transaction);
+   * ```
+   */
+  async callPaidServiceWithReceipt<T = any>(params: CallPaidServiceParams): Promise<PaidServiceResult<T>> {
+
+    const { vaultId, fromAddress, polling, responseType } = params;
+    const discovery = params.discovery ?? getProfileSelection(this.profile);
+    const apiUrl = buildPaidServiceUrl(params.apiUrl, params.query);
+
+    let paymentRequirements = params.paymentRequirements;
+    let x402Version = 1;
+
+    // ==================== Step 0: Discover Payment Requirements (402) ====================
+    if (!paymentRequirements) {
+      this.logger.debug('Discovering payment requirements', { apiUrl });
+
+      const probeResponse = await fetch(apiUrl, buildPaidServiceRequestInit(params));
+
+      // Service did not ask for payment, return its response directly
+      if (probeResponse.status !== 402) {
+        if (!probeResponse.ok && responseType !== 'response') {
+          throw new X402MultiSigError(
+            `Server returned error: ${probeResponse.status} ${probeResponse.statusText}`
+          );
+        }
+        this.logger.debug('Service did not require payment', { apiUrl, status: probeResponse.status });
+        return {
+          body: await readPaidServiceResponse(probeResponse, responseType),
+          status: probeResponse.status,
+          statusText: probeResponse.statusText,
+          headers: probeResponse.headers,
+        };
+      }
+
+      const paymentRequired = await parsePaymentRequiredResponse(probeResponse);
+      paymentRequirements = selectPaymentRequirements(paymentRequired.accepts, discovery);
+      x402Version = paymentRequired.x402Version;
+
+      this.logger.debug('Selected payment requirement', {
+        maxAmountRequired: paymentRequirements.maxAmountRequired,
+        asset: paymentRequirements.asset,
+        network: paymentRequirements.network,
+      });
+    }
+
+    // ==================== Steps 1-6: Sign and Encode x-payment Header ====================
+    const payment = await this.createPaymentHeader({
+      vaultId,
+      fromAddress,
+      resolveFromAddress: params.resolveFromAddress,
+      paymentRequirements,
+      x402Version,
+      // HTTP abort signal also cancels waiting for the signature (unless overridden)
+      polling: { signal: params.signal, ...polling },
+      syncRequestExpiry: params.syncRequestExpiry,
+    });
+    const encodedPayment = payment.paymentHeader;
+
+    // ==================== Step 7: Send Request with Standard x-payment Header ====================
+    this.logger.debug('Sending paid request', { apiUrl, requestId: payment.requestId });
+
+    const response = await fetch(apiUrl, buildPaidServiceRequestInit(params, encodedPayment));
+    // Check response status (raw Response is returned as-is for caller inspection)
+    if (response.status === 402 && responseType !== 'response') {
+      throw await toPaymentRejectedError(response);
+    }
+    if (!response.ok && responseType !== 'response') {
+      throw new X402MultiSigError(
+        `Server returned error: ${response.status} ${response.statusText}`
+      );
+    }
+    // Decode settlement receipt returned by the facilitator (if any)
+    const settlementHeader = response.headers.get(PAYMENT_RESPONSE_HEADER);
+    const settlement = settlementHeader ? decodePaymentResponseHeader(settlementHeader, this.logger) : undefined;
+    if (settlement) {
+      this.logger.info('Payment settled', { network: settlement.network, transaction: settlement.transaction });
+    }
 
-    const { vaultId, fromAddress, paymentRequirements, apiUrl, polling } = params;
+    // Read response in requested format
+    const serviceResponse = await readPaidServiceResponse(response, responseType);
+    this.logger.debug('Paid service call successful', { apiUrl, status: response.status });
+
+    return {
+      body: serviceResponse,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      settlement,
+      requestId: payment.requestId,
+      authorization: payment.authorization,
+      paymentHeader: encodedPayment,
+      paymentRequirements,
+    };
+  }
 
-    // Polling configuration (use default values)
-    const maxAttempts = polling?.maxAttempts || 120;  // Default 120 times (6 minutes)
-    const interval = polling?.interval || 3000;        // Default 3 seconds
+  /**
+   * Create Signed x-payment Header for Payment Requirements
+   *
+   * Runs the multi-sig signing part of the X402 flow without sending any HTTP request:
+   * 1. Prepare unsigned payment header (using x402 library)
+   * 2. Extract signature parameters
+   * 3. Create signature request
+   * 4. Wait for signature completion (see waitForSignature)
+   * 5. Build signed payment header
+   * 6. Encode to standard x-payment header
+   *
+   * Used by callPaidService and by HTTP client integrations (see wrapFetch).
+   *
+   * @param params - Payment header parameters
+   * @returns Encoded x-payment header, request ID and signed authorization
+   *
+   * @example
+   * ```typescript
+   * const payment = await bot.createPaymentHeader({
+   *   vaultId: 1n,
+   *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+   *   paymentRequirements,
+   * });
+   *
+   * await fetch(apiUrl, { headers: { 'x-payment': payment.paymentHeader } });
+   * ```
+   */
+  async createPaymentHeader(params: CreatePaymentHeaderParams): Promise<PaymentHeaderResult> {
+    const { paymentRequirements, polling } = params;
+    const { vaultId, fromAddress } = await this.resolvePayer(params);
+    this.checkSpendingPolicy(paymentRequirements);
+    const validityMarginSeconds = polling?.validityMarginSeconds ??
+      getDefaultValidityMargin(paymentRequirements.maxTimeoutSeconds);
 
     // ==================== Step 1: Prepare Unsigned Payment Header ====================
-    const x402Version = 1;
     const unsignedPaymentHeader = preparePaymentHeader(
       fromAddress,
-      x402Version,
+      params.x402Version ?? 1,
       paymentRequirements
     );
 
@@ -738,6 +2360,12 @@ export class X402MultiSig {
     const validBefore = toHex(BigInt(unsignedPaymentHeader.payload.authorization.validBefore));
     const nonce = unsignedPaymentHeader.payload.authorization.nonce;
 
+    // Remaining authorization validity, derived from maxTimeoutSeconds by the x402 library
+    const validBeforeSeconds = Number(unsignedPaymentHeader.payload.authorization.validBefore);
+    if (validBeforeSeconds - validityMarginSeconds <= Date.now() / 1000) {
+      throw new AuthorizationExpiredError(validBeforeSeconds);
+    }
+
     // ==================== Step 3: Create Signature Request ====================
     const requestId = await this.createSignRequest({
       vaultId,
@@ -750,51 +2378,28 @@ export class X402MultiSig {
       domainChainId: paymentRequirements.domainChainId,
       domainName: paymentRequirements.extra.name,
       domainVersion: paymentRequirements.extra.version,
+      // Let the request expire for approvers together with the authorization
+      expireTime: params.syncRequestExpiry
+        ? BigInt(validBeforeSeconds - validityMarginSeconds) * 1_000_000_000n
+        : undefined,
     });
 
-    // ==================== Step 4: Poll and Wait for Signature Completion ====================
-    let result = await this.getSignature(requestId);
-
-    // If signature not yet completed, start polling
-    if (result.status !== 'Executed') {
-      console.log('Signature request not yet completed, starting polling...');
-
-      let attempts = 0;
-
-      while (attempts < maxAttempts) {
-        attempts++;
-        console.log(`Polling attempt ${attempts}/${maxAttempts}... Status: ${result.status}`);
-
-        // Wait for interval
-        await new Promise(resolve => setTimeout(resolve, interval));
-
-        // Query latest status
-        result = await this.getSignature(requestId);
-
-        // Check if completed
-        if (result.status === 'Executed') {
-          console.log('');
-          console.log('✅ Signature request completed');
-          console.log('');
-          break;
-        } else if (result.status === 'Rejected') {
-          throw new Error('Signature request rejected');
-        } else if (result.status === 'Expired') {
-          throw new Error('Signature request expired');
-        }
-      }
+    // ==================== Step 4: Wait for Signature Completion ====================
+    const result = await this.waitForSignature(requestId, {
+      ...polling,
+      backoff: polling?.backoff ?? { initialDelay: polling?.interval ?? 3000 },
+      validBefore: validBeforeSeconds,
+      validityMarginSeconds,
+    });
 
-      if (attempts >= maxAttempts) {
-        throw new Error('Polling timeout, signature request not completed');
-      }
-    } else {
-      console.log('✅ Signature completed');
-      console.log('');
+    // Signature may arrive too late to be accepted by the server
+    if (validBeforeSeconds - validityMarginSeconds <= Date.now() / 1000) {
+      throw new AuthorizationExpiredError(validBeforeSeconds, requestId);
     }
 
     // Check if signature exists
     if (!result.signature) {
-      throw new Error('Failed to retrieve signature');
+      throw new X402MultiSigError(`Failed to retrieve signature, request ID: ${requestId}`);
     }
 
     // ==================== Step 5: Build Complete Signed Payment Header ====================
@@ -815,26 +2420,13 @@ export class X402MultiSig {
     // ==================== Step 6: Encode to Standard x-payment Header ====================
     const encodedPayment = encodePayment(signedPayload);
 
-    // ==================== Step 7: Send Request with Standard x-payment Header ====================
-    console.log(`Sending request to: ${apiUrl}`);
-    console.log('');
-
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'x-payment': encodedPayment,
-        'User-Agent': 'X402MultiSig-SDK/1.0',
+    return {
+      paymentHeader: encodedPayment,
+      requestId,
+      authorization: {
+        ...unsignedPaymentHeader.payload.authorization,
+        signature: signatureWithPrefix,
       },
-    });
-    // Check response status
-    if (!response.ok) {
-      throw new Error(
-        `Server returned error: ${response.status} ${response.statusText}`
-      );
-    }
-    // Parse response
-    const serviceResponse = await response.json();
-    console.log('Paid service call successful');
-    return serviceResponse;
+    };
   }
 }
\ No newline at end of file
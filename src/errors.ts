@@ -0,0 +1,279 @@
+/**
+ * X402MultiSig SDK Error Definitions
+ *
+ * All errors thrown by the SDK extend X402MultiSigError, so callers can branch on the
+ * error class (instanceof) and read structured context instead of parsing messages.
+ * The underlying error (if any) is preserved in `cause`.
+ */
+
+import type { AcceptedPaymentRequirement } from './payment/requirements.js';
+
+/**
+ * Common error construction options
+ */
+export interface X402MultiSigErrorOptions {
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of all SDK errors
+ */
+export class X402MultiSigError extends Error {
+  constructor(message: string, options: X402MultiSigErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'X402MultiSigError';
+  }
+}
+
+/**
+ * Thrown when an input parameter is invalid
+ */
+export class ValidationError extends X402MultiSigError {
+  /** Name of the invalid field (e.g. "vaultId", "recipient address (to)") */
+  readonly field: string;
+  /** Invalid value (if available) */
+  readonly value?: unknown;
+
+  constructor(message: string, field: string, value?: unknown, options: X402MultiSigErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown when a network (or Chain ID) is not supported by the multi-sig wallet
+ */
+export class UnsupportedNetworkError extends X402MultiSigError {
+  /** Requested network name or Chain ID */
+  readonly network: string;
+  /** Networks (or Chain IDs) supported by the multi-sig wallet */
+  readonly supported: readonly string[];
+
+  constructor(network: string, supported: readonly string[], options: X402MultiSigErrorOptions = {}) {
+    super(`Unsupported network: ${network} (supported: ${supported.join(', ')})`, options);
+    this.name = 'UnsupportedNetworkError';
+    this.network = network;
+    this.supported = supported;
+  }
+}
+
+/**
+ * Thrown when a token (symbol or contract address) is not supported on a network
+ */
+export class UnsupportedTokenError extends X402MultiSigError {
+  /** Network name */
+  readonly network: string;
+  /** Requested token symbol or contract address */
+  readonly token: string;
+  /** Token symbols supported on the network */
+  readonly supported: readonly string[];
+
+  constructor(
+    network: string,
+    token: string,
+    supported: readonly string[],
+    options: X402MultiSigErrorOptions = {}
+  ) {
+    super(
+      `Unsupported token ${token} on ${network} (supported: ${supported.join(', ') || 'none'})`,
+      options
+    );
+    this.name = 'UnsupportedTokenError';
+    this.network = network;
+    this.token = token;
+    this.supported = supported;
+  }
+}
+
+/**
+ * Thrown when a canister call fails (network error, replica reject or canister trap)
+ */
+export class CanisterCallError extends X402MultiSigError {
+  /** Target Canister ID */
+  readonly canisterId: string;
+  /** Called method name */
+  readonly method: string;
+  /** Replica reject code (1: SysFatal, 2: SysTransient, 3: DestinationInvalid, 4: CanisterReject, 5: CanisterError) */
+  readonly rejectCode?: number;
+
+  constructor(
+    message: string,
+    context: { canisterId: string; method: string; rejectCode?: number },
+    options: X402MultiSigErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = 'CanisterCallError';
+    this.canisterId = context.canisterId;
+    this.method = context.method;
+    this.rejectCode = context.rejectCode;
+  }
+}
+
+/**
+ * Thrown when approvers reject a signature request
+ */
+export class SignatureRejectedError extends X402MultiSigError {
+  /** Multi-sig canister request ID */
+  readonly requestId: bigint;
+
+  constructor(requestId: bigint, options: X402MultiSigErrorOptions = {}) {
+    super(`Signature request rejected, request ID: ${requestId}`, options);
+    this.name = 'SignatureRejectedError';
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Reason a signature request did not complete in time
+ * - maxAttempts: polling attempt limit reached
+ * - deadline: caller-provided deadline reached
+ * - expired: request expired on the canister (expire_time passed)
+ */
+export type SignatureTimeoutReason = 'maxAttempts' | 'deadline' | 'expired';
+
+/**
+ * Thrown when a signature request is not executed in time
+ */
+export class SignatureTimeoutError extends X402MultiSigError {
+  /** Multi-sig canister request ID */
+  readonly requestId: bigint;
+  /** Why waiting stopped */
+  readonly reason: SignatureTimeoutReason;
+  /** Last observed request status (if any) */
+  readonly lastStatus?: string;
+
+  constructor(
+    requestId: bigint,
+    reason: SignatureTimeoutReason,
+    lastStatus?: string,
+    options: X402MultiSigErrorOptions = {}
+  ) {
+    const description = {
+      maxAttempts: 'Polling timeout, signature request not completed',
+      deadline: 'Signature deadline reached, signature request not completed',
+      expired: 'Signature request expired',
+    }[reason];
+    super(`${description}, request ID: ${requestId}`, options);
+    this.name = 'SignatureTimeoutError';
+    this.requestId = requestId;
+    this.reason = reason;
+    this.lastStatus = lastStatus;
+  }
+}
+
+/**
+ * Thrown when a paid service's HTTP 402 response cannot be satisfied
+ * (invalid body, no compatible requirement, or payment refused by the server)
+ */
+export class PaymentRequiredError extends X402MultiSigError {
+  /** Raw 402 response body as returned by the server (undefined if not available) */
+  readonly body: unknown;
+  /** Payment requirements advertised by the server (empty if the body was invalid) */
+  readonly accepts: AcceptedPaymentRequirement[];
+  /** Error message returned by the server (e.g. why a payment was refused) */
+  readonly serverError?: string;
+
+  constructor(
+    message: string,
+    context: { body?: unknown; accepts?: AcceptedPaymentRequirement[]; serverError?: string } = {},
+    options: X402MultiSigErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = 'PaymentRequiredError';
+    this.body = context.body;
+    this.accepts = context.accepts ?? [];
+    this.serverError = context.serverError;
+  }
+}
+
+/**
+ * Thrown when the Register canister refuses to register a user
+ */
+export class RegistrationError extends X402MultiSigError {
+  /** Requested username */
+  readonly username: string;
+  /** Principal being registered */
+  readonly principal: string;
+  /** Reason returned by the Register canister */
+  readonly reason: string;
+  /** Free username that can be registered instead (only when the username is taken and a suggestion was found) */
+  readonly suggestedUsername?: string;
+
+  constructor(
+    username: string,
+    principal: string,
+    reason: string,
+    context: { suggestedUsername?: string } = {},
+    options: X402MultiSigErrorOptions = {}
+  ) {
+    super(
+      `Registration failed for ${username} (${principal}): ${reason}` +
+      (context.suggestedUsername ? `, try '${context.suggestedUsername}'` : ''),
+      options
+    );
+    this.name = 'RegistrationError';
+    this.username = username;
+    this.principal = principal;
+    this.reason = reason;
+    this.suggestedUsername = context.suggestedUsername;
+  }
+}
+
+/**
+ * Thrown when an encrypted identity cannot be decrypted
+ * (no passphrase configured, wrong passphrase, or corrupted identity file)
+ */
+export class IdentityDecryptionError extends X402MultiSigError {
+  /** Identity name */
+  readonly identityName: string;
+
+  constructor(identityName: string, message: string, options: X402MultiSigErrorOptions = {}) {
+    super(`Failed to decrypt identity '${identityName}': ${message}`, options);
+    this.name = 'IdentityDecryptionError';
+    this.identityName = identityName;
+  }
+}
+
+/**
+ * Thrown when a stored identity record cannot be parsed (e.g. truncated by a crash or edited by hand)
+ * IdentityManager.recoverIdentity() restores the last good copy when the key store keeps one
+ */
+export class CorruptIdentityError extends X402MultiSigError {
+  /** Identity name */
+  readonly identityName: string;
+  /** Location of the corrupt record (e.g. file path) */
+  readonly location?: string;
+
+  constructor(identityName: string, message: string, location?: string, options: X402MultiSigErrorOptions = {}) {
+    super(`Identity '${identityName}' is corrupt: ${message}`, options);
+    this.name = 'CorruptIdentityError';
+    this.identityName = identityName;
+    this.location = location;
+  }
+}
+
+/**
+ * Thrown when an X402 authorization's validity window ends before it can be used
+ *
+ * Raised while waiting for multi-sig approvals (stop early instead of polling past validBefore)
+ * and before sending a signed payment whose authorization is about to expire.
+ */
+export class AuthorizationExpiredError extends X402MultiSigError {
+  /** Authorization validBefore (unix timestamp, seconds) */
+  readonly validBefore: number;
+  /** Multi-sig canister request ID (if a request was created) */
+  readonly requestId?: bigint;
+
+  constructor(validBefore: number, requestId?: bigint) {
+    super(
+      `Authorization expired or about to expire (validBefore: ${new Date(validBefore * 1000).toISOString()})` +
+      (requestId !== undefined ? `, request ID: ${requestId}` : '')
+    );
+    this.name = 'AuthorizationExpiredError';
+    this.validBefore = validBefore;
+    this.requestId = requestId;
+  }
+}
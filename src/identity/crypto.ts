@@ -0,0 +1,232 @@
+/**
+ * Identity Key Encryption Module
+ *
+ * Encrypts identity key data at rest with a passphrase:
+ * - Key derivation: scrypt (N=2^15, r=8, p=1, 16-byte random salt)
+ * - Encryption: AES-256-GCM (12-byte random IV, 16-byte authentication tag)
+ *
+ * Encrypted data is stored in a versioned envelope so KDF parameters can evolve
+ * without breaking existing identity files.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from 'crypto';
+import { CorruptIdentityError, ValidationError, X402MultiSigError } from '../errors.js';
+
+/**
+ * Current encrypted key envelope version
+ */
+export const ENCRYPTED_KEY_VERSION = 1;
+
+/**
+ * Default scrypt parameters (interactive login strength, ~32 MiB memory)
+ */
+const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Largest scrypt parameters accepted when decrypting (N=2^18, r=8 is 256 MiB of memory)
+ * Envelopes are read from disk, so unbounded parameters would let a tampered file exhaust memory or CPU
+ */
+const MAX_SCRYPT_PARAMS = { N: 2 ** 18, r: 8, p: 4 };
+
+/**
+ * AES-GCM authentication tag length (bytes)
+ */
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Encrypted key data envelope (all binary fields base64 encoded)
+ */
+export interface EncryptedKeyData {
+  /** Envelope version */
+  version: number;
+  /** Key derivation function */
+  kdf: 'scrypt';
+  /** Key derivation parameters */
+  kdfParams: {
+    /** CPU/memory cost */
+    N: number;
+    /** Block size */
+    r: number;
+    /** Parallelization */
+    p: number;
+    /** Random salt */
+    salt: string;
+  };
+  /** Cipher */
+  cipher: 'aes-256-gcm';
+  /** Random initialization vector */
+  iv: string;
+  /** GCM authentication tag */
+  authTag: string;
+  /** Encrypted key data */
+  ciphertext: string;
+}
+
+/**
+ * Passphrase request context, passed to passphrase callbacks
+ */
+export interface PassphraseRequest {
+  /** Identity name */
+  identityName: string;
+  /** Whether the passphrase is needed to encrypt (save) or decrypt (load) the identity */
+  purpose: 'encrypt' | 'decrypt';
+}
+
+/**
+ * Passphrase source: a fixed passphrase, or a callback (e.g. reading a secret manager or prompting)
+ */
+export type PassphraseSource = string | ((request: PassphraseRequest) => string | Promise<string>);
+
+/**
+ * Check if a value is an encrypted key envelope
+ *
+ * @param value - Value read from an identity file
+ * @returns Returns true if the value has the encrypted envelope shape
+ */
+export function isEncryptedKeyData(value: unknown): value is EncryptedKeyData {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = value as Partial<EncryptedKeyData>;
+  return (
+    typeof data.version === 'number' &&
+    data.kdf === 'scrypt' &&
+    data.cipher === 'aes-256-gcm' &&
+    typeof data.ciphertext === 'string'
+  );
+}
+
+/**
+ * Encrypt plaintext with a passphrase
+ *
+ * @param plaintext - Data to encrypt (e.g. JSON serialized key data)
+ * @param passphrase - Passphrase
+ * @returns Encrypted key envelope
+ *
+ * @example
+ * ```typescript
+ * const encrypted = await encryptWithPassphrase(JSON.stringify(identity.toJSON()), passphrase);
+ * const plaintext = await decryptWithPassphrase(encrypted, passphrase);
+ * ```
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<EncryptedKeyData> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, DEFAULT_SCRYPT_PARAMS);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    version: ENCRYPTED_KEY_VERSION,
+    kdf: 'scrypt',
+    kdfParams: { ...DEFAULT_SCRYPT_PARAMS, salt: salt.toString('base64') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt an encrypted key envelope
+ *
+ * @param encrypted - Encrypted key envelope
+ * @param passphrase - Passphrase
+ * @param identityName - Identity the envelope belongs to (reported in errors)
+ * @returns Decrypted plaintext
+ * @throws CorruptIdentityError if the scrypt parameters are invalid or exceed N=2^18, r=8, p=4,
+ *   or the authentication tag is not 16 bytes
+ * @throws If the envelope version is unsupported, the passphrase is wrong or the data was tampered with
+ */
+export async function decryptWithPassphrase(
+  encrypted: EncryptedKeyData,
+  passphrase: string,
+  identityName: string = 'unknown'
+): Promise<string> {
+  if (encrypted.version > ENCRYPTED_KEY_VERSION) {
+    throw new X402MultiSigError(`Unsupported encrypted key version: ${encrypted.version}`);
+  }
+
+  const { salt, N, r, p } = encrypted.kdfParams;
+  const isPowerOfTwo = Number.isInteger(N) && N > 1 && (N & (N - 1)) === 0;
+  if (!isPowerOfTwo || N > MAX_SCRYPT_PARAMS.N ||
+    !Number.isInteger(r) || r < 1 || r > MAX_SCRYPT_PARAMS.r ||
+    !Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_PARAMS.p) {
+    throw new CorruptIdentityError(
+      identityName,
+      `unsupported scrypt parameters (N=${N}, r=${r}, p=${p}; ` +
+      `maximum N=${MAX_SCRYPT_PARAMS.N}, r=${MAX_SCRYPT_PARAMS.r}, p=${MAX_SCRYPT_PARAMS.p})`
+    );
+  }
+  // A shorter tag would be accepted by GCM and make forging a tampered file much easier
+  const authTag = Buffer.from(encrypted.authTag, 'base64');
+  if (authTag.length !== AUTH_TAG_LENGTH) {
+    throw new CorruptIdentityError(
+      identityName,
+      `invalid authentication tag length: ${authTag.length} bytes, expected ${AUTH_TAG_LENGTH}`
+    );
+  }
+
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'base64'), { N, r, p });
+
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'), {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+  decipher.setAuthTag(authTag);
+
+  // final() throws if the authentication tag does not match (wrong passphrase or tampered data)
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(encrypted.ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+  return plaintext.toString('utf-8');
+}
+
+/**
+ * Resolve a passphrase source to a passphrase string
+ *
+ * @param source - Passphrase source
+ * @param request - Passphrase request context
+ * @returns Passphrase
+ * @throws ValidationError if the resolved passphrase is empty
+ */
+export async function resolvePassphrase(source: PassphraseSource, request: PassphraseRequest): Promise<string> {
+  const passphrase = typeof source === 'function' ? await source(request) : source;
+  if (!passphrase) {
+    throw new ValidationError(`Empty passphrase provided for identity '${request.identityName}'`, 'passphrase');
+  }
+  return passphrase;
+}
+
+/**
+ * Derive a 256-bit key from a passphrase using scrypt
+ *
+ * @param passphrase - Passphrase
+ * @param salt - Salt
+ * @param params - scrypt parameters
+ * @returns Derived key
+ */
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    // scrypt needs 128 * N * r bytes, leave headroom above Node's 32 MiB default
+    maxmem: 256 * params.N * params.r,
+  };
+
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, options, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
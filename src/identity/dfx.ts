@@ -0,0 +1,287 @@
+/**
+ * dfx Identity Module
+ *
+ * Reads identities managed by the dfx CLI (`~/.config/dfx/identity/<name>/`):
+ * - Lists dfx identities with their storage mode and key type
+ * - Reads plaintext `identity.pem` files (Ed25519 or secp256k1, see pem.ts)
+ * - DfxKeyStore: read-only key store using dfx identities in place, without copying the key
+ *
+ * Identities that dfx keeps encrypted (password), in the system keyring or on an HSM cannot be read
+ * by the SDK; they are reported with a clear error and must be exported with `dfx identity export` first.
+ * Decrypting password-protected identities is not supported: dfx derives their key with Argon2,
+ * which Node.js does not provide.
+ */
+
+import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ValidationError, X402MultiSigError } from '../errors.js';
+import type { IdentityStorageData, ManagedIdentity } from './manager.js';
+import type { KeyStore } from './keystore.js';
+import { identityFromPEM, parsePrivateKeyPEM, type PemKeyType } from './pem.js';
+
+/**
+ * How dfx stores an identity's private key
+ * - plaintext: `identity.pem`
+ * - encrypted: `identity.pem.encrypted`, protected by a dfx password
+ * - keyring: system keyring (macOS Keychain, Secret Service, ...)
+ * - hsm: hardware security module (PKCS#11)
+ */
+export type DfxIdentityStorageMode = 'plaintext' | 'encrypted' | 'keyring' | 'hsm';
+
+/**
+ * dfx identity description
+ */
+export interface DfxIdentityInfo {
+  /** dfx identity name */
+  name: string;
+  /** Identity directory */
+  path: string;
+  /** Key storage mode */
+  storageMode: DfxIdentityStorageMode;
+  /** Key type (plaintext identities only) */
+  keyType?: PemKeyType;
+}
+
+/**
+ * dfx identity.json (only the fields used to detect the storage mode)
+ */
+interface DfxIdentityConfiguration {
+  hsm?: unknown;
+  encryption?: unknown;
+  keyring_identity_suffix?: string;
+}
+
+/**
+ * Get the dfx identity directory
+ * Follows dfx: `$DFX_CONFIG_ROOT/.config/dfx/identity` if set, otherwise `~/.config/dfx/identity`
+ *
+ * @returns dfx identity directory path
+ */
+export function getDefaultDfxIdentityDir(): string {
+  return path.join(process.env.DFX_CONFIG_ROOT || os.homedir(), '.config', 'dfx', 'identity');
+}
+
+/**
+ * Read a dfx identity's configuration and detect how its key is stored
+ *
+ * @param identityPath - dfx identity directory
+ * @returns Storage mode, or undefined if the directory is not a dfx identity
+ */
+async function detectStorageMode(identityPath: string): Promise<DfxIdentityStorageMode | undefined> {
+  let configuration: DfxIdentityConfiguration = {};
+  try {
+    configuration = JSON.parse(await fs.readFile(path.join(identityPath, 'identity.json'), 'utf-8'));
+  } catch (error) {
+    // identity.json is optional for plaintext identities
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  if (configuration.hsm) {
+    return 'hsm';
+  }
+  if (configuration.keyring_identity_suffix) {
+    return 'keyring';
+  }
+  if (configuration.encryption || (await fileExists(path.join(identityPath, 'identity.pem.encrypted')))) {
+    return 'encrypted';
+  }
+  if (await fileExists(path.join(identityPath, 'identity.pem'))) {
+    return 'plaintext';
+  }
+  return undefined;
+}
+
+/**
+ * Check if a file exists
+ *
+ * @param filePath - File path
+ * @returns Returns true if the file exists
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the identities managed by dfx
+ *
+ * @param dfxIdentityDir - dfx identity directory (default: see getDefaultDfxIdentityDir)
+ * @returns dfx identities, sorted by name (plaintext identities include their key type)
+ *
+ * @example
+ * ```typescript
+ * for (const info of await listDfxIdentities()) {
+ *   console.log(info.name, info.storageMode, info.keyType);
+ * }
+ * ```
+ */
+export async function listDfxIdentities(
+  dfxIdentityDir: string = getDefaultDfxIdentityDir()
+): Promise<DfxIdentityInfo[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dfxIdentityDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const identities: DfxIdentityInfo[] = [];
+  for (const name of entries.sort()) {
+    const identityPath = path.join(dfxIdentityDir, name);
+    const storageMode = await detectStorageMode(identityPath).catch(() => undefined);
+    if (!storageMode) {
+      continue;
+    }
+
+    const info: DfxIdentityInfo = { name, path: identityPath, storageMode };
+    if (storageMode === 'plaintext') {
+      try {
+        info.keyType = parsePrivateKeyPEM(await fs.readFile(path.join(identityPath, 'identity.pem'), 'utf-8')).keyType;
+      } catch {
+        // Unsupported or malformed key: listed without a key type, reading it reports the error
+      }
+    }
+    identities.push(info);
+  }
+
+  return identities;
+}
+
+/**
+ * Read the private key PEM of a dfx identity
+ *
+ * @param name - dfx identity name
+ * @param dfxIdentityDir - dfx identity directory (default: see getDefaultDfxIdentityDir)
+ * @returns PEM content, or undefined if the identity does not exist
+ * @throws ValidationError if the name is invalid or the key is not stored in plaintext
+ */
+export async function readDfxIdentityPEM(
+  name: string,
+  dfxIdentityDir: string = getDefaultDfxIdentityDir()
+): Promise<string | undefined> {
+  if (!name || name === '.' || name === '..' || /[\\/]/.test(name)) {
+    throw new ValidationError(`Invalid dfx identity name: '${name}'`, 'name', name);
+  }
+
+  const identityPath = path.join(dfxIdentityDir, name);
+  const storageMode = await detectStorageMode(identityPath);
+
+  switch (storageMode) {
+    case undefined:
+      return undefined;
+    case 'plaintext':
+      return fs.readFile(path.join(identityPath, 'identity.pem'), 'utf-8');
+    case 'encrypted':
+      throw new ValidationError(
+        `dfx identity '${name}' is encrypted with a dfx password and cannot be read directly. ` +
+          `Export it with \`dfx identity export ${name} > ${name}.pem\` and import the PEM instead`,
+        'name',
+        name
+      );
+    case 'keyring':
+      throw new ValidationError(
+        `dfx identity '${name}' is stored in the system keyring and cannot be read directly. ` +
+          `Export it with \`dfx identity export ${name} > ${name}.pem\` and import the PEM instead`,
+        'name',
+        name
+      );
+    case 'hsm':
+      throw new ValidationError(
+        `dfx identity '${name}' is stored on an HSM, its private key cannot be exported. ` +
+          'Use an external signer (see ExternalSignerIdentity) instead',
+        'name',
+        name
+      );
+  }
+}
+
+/**
+ * dfx Key Store configuration
+ */
+export interface DfxKeyStoreOptions {
+  /** dfx identity directory (default: see getDefaultDfxIdentityDir) */
+  identityDir?: string;
+}
+
+/**
+ * Read-only key store using dfx identities in place
+ *
+ * The key is read from `identity.pem` on every load and never copied, so the bot uses exactly the principal
+ * managed with dfx (e.g. the one added as a vault operator). Writes are rejected.
+ *
+ * @example
+ * ```typescript
+ * const bot = await X402MultiSig.create({
+ *   x402CanisterId: 'unn7l-aqaaa-aaaau-ab7ka-cai',
+ *   keyStore: new DfxKeyStore(),
+ *   identityName: 'ops-bot',
+ * });
+ * ```
+ */
+export class DfxKeyStore implements KeyStore {
+  readonly readOnly = true;
+
+  /** dfx identity directory */
+  private identityDir: string;
+
+  /**
+   * Create a dfx key store
+   *
+   * @param options - dfx Key Store configuration (optional)
+   */
+  constructor(options: DfxKeyStoreOptions = {}) {
+    this.identityDir = options.identityDir ?? getDefaultDfxIdentityDir();
+  }
+
+  async read(name: string): Promise<IdentityStorageData | undefined> {
+    const pem = await readDfxIdentityPEM(name, this.identityDir);
+    if (pem === undefined) {
+      return undefined;
+    }
+
+    let identity: ManagedIdentity;
+    try {
+      identity = identityFromPEM(pem);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ValidationError(`Invalid key in dfx identity '${name}': ${message}`, 'name', name, { cause: error });
+    }
+
+    const stat = await fs.stat(path.join(this.identityDir, name, 'identity.pem'));
+    return {
+      keyType: identity instanceof Secp256k1KeyIdentity ? 'secp256k1' : 'ed25519',
+      keyData: identity.toJSON(),
+      principal: identity.getPrincipal().toText(),
+      createdAt: stat.birthtime.toISOString(),
+      updatedAt: stat.mtime.toISOString(),
+    };
+  }
+
+  async write(name: string): Promise<void> {
+    throw new X402MultiSigError(`DfxKeyStore is read-only, manage identity '${name}' with dfx`);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    throw new X402MultiSigError(`DfxKeyStore is read-only, manage identity '${name}' with dfx`);
+  }
+
+  async list(): Promise<string[]> {
+    const identities = await listDfxIdentities(this.identityDir);
+    return identities.filter(info => info.storageMode === 'plaintext').map(info => info.name);
+  }
+
+  describe(name: string): string {
+    return path.join(this.identityDir, name, 'identity.pem');
+  }
+}
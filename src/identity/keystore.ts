@@ -0,0 +1,748 @@
+/**
+ * Identity Key Storage Backends
+ *
+ * IdentityManager reads and writes identity records through the KeyStore interface:
+ * - FileKeyStore: one JSON file per identity in a directory (default behavior), safe for concurrent processes
+ * - MemoryKeyStore: in-process storage (tests, ephemeral bots)
+ * - EnvKeyStore: read-only injection through environment variables or mounted secret files (containers)
+ * - RemoteKeyStore: adapter for remote secret providers (Vault, AWS Secrets Manager, GCP Secret Manager, ...)
+ */
+
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { CorruptIdentityError, ValidationError, X402MultiSigError } from '../errors.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+import { sleep } from '../utils/timing.js';
+import type { IdentityStorageData } from './manager.js';
+
+/**
+ * Identity key storage backend
+ */
+export interface KeyStore {
+  /** Whether the store rejects writes (identities must be provisioned externally) */
+  readonly readOnly: boolean;
+  /** Prepare the store (e.g. create the storage directory), called once by IdentityManager.initialize() */
+  initialize?(): Promise<void>;
+  /** Read an identity record, returns undefined if it does not exist */
+  read(name: string): Promise<IdentityStorageData | undefined>;
+  /** Create or replace an identity record */
+  write(name: string, data: IdentityStorageData): Promise<void>;
+  /**
+   * Create an identity record only if it does not exist, atomically (optional)
+   * Returns false if the record already exists; without it IdentityManager checks and writes under lock()
+   */
+  create?(name: string, data: IdentityStorageData): Promise<boolean>;
+  /** Acquire an exclusive lock on an identity record across processes (optional), resolves to the release function */
+  lock?(name: string): Promise<() => Promise<void>>;
+  /**
+   * Move a corrupt identity record aside and restore the last good copy (optional)
+   * Returns true if a good copy was restored, false if the record was only moved aside
+   */
+  recover?(name: string): Promise<boolean>;
+  /** Delete an identity record, returns false if it did not exist */
+  delete(name: string): Promise<boolean>;
+  /** List stored record names, including rotation records (IdentityManager.listIdentities() filters those out) */
+  list(): Promise<string[]>;
+  /** Human-readable location of an identity record, used in logs (optional) */
+  describe?(name: string): string;
+}
+
+/**
+ * Parse a serialized identity record
+ *
+ * Accepts the SDK identity file format (IdentityStorageData), or a bare Ed25519KeyIdentity JSON key
+ * (`[publicKeyHex, secretKeyHex]`, as produced by `identity.toJSON()`), which is convenient for secret injection.
+ *
+ * @param content - Serialized identity record
+ * @param name - Identity name (used in error messages)
+ * @returns Identity record
+ * @throws ValidationError if the content is not a valid identity record
+ */
+export function parseIdentityStorageData(content: string, name: string): IdentityStorageData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    // Secret content is deliberately not attached to the error
+    throw new ValidationError(`Invalid identity record for '${name}': not valid JSON`, 'identity', undefined, {
+      cause: error,
+    });
+  }
+
+  if (Array.isArray(parsed) && parsed.length === 2 && parsed.every(part => typeof part === 'string')) {
+    const keyData = parsed as [string, string];
+    const now = new Date().toISOString();
+    return {
+      keyData,
+      principal: Ed25519KeyIdentity.fromParsedJson(keyData).getPrincipal().toText(),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  const record = parsed as Partial<IdentityStorageData> | null;
+  if (
+    record &&
+    typeof record === 'object' &&
+    typeof record.principal === 'string' &&
+    ((Array.isArray(record.keyData) && record.keyData.length === 2) ||
+      (typeof record.encryptedKeyData === 'object' && record.encryptedKeyData !== null))
+  ) {
+    return record as IdentityStorageData;
+  }
+
+  throw new ValidationError(
+    `Invalid identity record for '${name}': expected an identity file or an Ed25519 JSON key`,
+    'identity'
+  );
+}
+
+/**
+ * Build the error thrown when writing to a read-only store
+ *
+ * @param storeName - Key store class name
+ * @param name - Identity name
+ * @returns Error instance
+ */
+function readOnlyError(storeName: string, name: string): X402MultiSigError {
+  return new X402MultiSigError(
+    `${storeName} is read-only, identity '${name}' must be provisioned outside the SDK`
+  );
+}
+
+/**
+ * File Key Store configuration
+ */
+export interface FileKeyStoreOptions {
+  /** Reject writes, e.g. for directories mounted read-only (default: false) */
+  readOnly?: boolean;
+  /** Create the directory with 0700 and enforce 0600 on identity files (default: true, false when readOnly) */
+  managePermissions?: boolean;
+  /** Maximum time to wait for an identity lock in milliseconds (default: 10000) */
+  lockTimeoutMs?: number;
+  /**
+   * Age after which a lock file left by a crashed process is removed, in milliseconds (default: 30000)
+   * Held locks are refreshed every third of this period
+   */
+  staleLockMs?: number;
+  /** Logger (optional, defaults to silent) */
+  logger?: Logger;
+}
+
+/**
+ * Filesystem key store: one `<name>.json` file per identity
+ *
+ * Safe for several processes sharing the directory:
+ * - Writes go to a temporary file that is renamed over the record, so readers never see a partial file
+ * - The previous good record is kept as `<name>.json.bak`, recover() restores it if the record is corrupt
+ * - create() is atomic (hard link of a complete file), so only one process can create an identity
+ * - lock() uses a `<name>.json.lock` file created exclusively and refreshed while held, stale locks of crashed processes are removed
+ */
+export class FileKeyStore implements KeyStore {
+  readonly readOnly: boolean;
+
+  /** Identity storage directory */
+  private identityDir: string;
+
+  /** Whether directory and file permissions are managed by the store */
+  private managePermissions: boolean;
+
+  /** Maximum time to wait for a lock (milliseconds) */
+  private lockTimeoutMs: number;
+
+  /** Age after which a lock file is considered stale (milliseconds) */
+  private staleLockMs: number;
+
+  /** Logger (bound to the FileKeyStore component) */
+  private logger: Logger;
+
+  /**
+   * Create a filesystem key store
+   *
+   * @param identityDir - Directory path for storing identity files
+   * @param options - File Key Store configuration (optional)
+   */
+  constructor(identityDir: string, options: FileKeyStoreOptions = {}) {
+    this.identityDir = identityDir;
+    this.readOnly = options.readOnly ?? false;
+    this.managePermissions = options.managePermissions ?? !this.readOnly;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10_000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+    this.logger = (options.logger ?? silentLogger).child({ component: 'FileKeyStore' });
+  }
+
+  /**
+   * Ensure the storage directory exists and has correct permissions
+   */
+  async initialize(): Promise<void> {
+    if (!this.managePermissions) {
+      return;
+    }
+
+    try {
+      await fs.access(this.identityDir);
+    } catch {
+      await fs.mkdir(this.identityDir, { recursive: true, mode: 0o700 });
+      this.logger.debug('Identity storage directory created', { identityDir: this.identityDir });
+      return;
+    }
+
+    // Directory already exists, ensure correct permissions (Unix systems)
+    if (process.platform !== 'win32') {
+      try {
+        await fs.chmod(this.identityDir, 0o700);
+      } catch (error) {
+        this.logger.warn('Failed to set identity directory permissions', { identityDir: this.identityDir, error });
+      }
+    }
+  }
+
+  async read(name: string): Promise<IdentityStorageData | undefined> {
+    const keyPath = this.getKeyPath(name);
+    let content: string;
+    try {
+      content = await fs.readFile(keyPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return parseIdentityStorageData(content, name);
+    } catch (error) {
+      throw new CorruptIdentityError(
+        name,
+        `${keyPath} is empty, truncated or not an identity file. ` +
+          `Call IdentityManager.recoverIdentity('${name}') to restore the last good copy (${keyPath}.bak)`,
+        keyPath,
+        { cause: error }
+      );
+    }
+  }
+
+  async write(name: string, data: IdentityStorageData): Promise<void> {
+    if (this.readOnly) {
+      throw readOnlyError('FileKeyStore', name);
+    }
+
+    const keyPath = this.getKeyPath(name);
+    await this.backupRecord(name);
+
+    const tempPath = await this.writeTempFile(keyPath, JSON.stringify(data, null, 2));
+    try {
+      // rename() replaces the record atomically: readers see either the old or the new file
+      await fs.rename(tempPath, keyPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async create(name: string, data: IdentityStorageData): Promise<boolean> {
+    if (this.readOnly) {
+      throw readOnlyError('FileKeyStore', name);
+    }
+
+    const keyPath = this.getKeyPath(name);
+    const tempPath = await this.writeTempFile(keyPath, JSON.stringify(data, null, 2));
+    try {
+      // link() fails if the record exists, and only ever exposes a complete file
+      await fs.link(tempPath, keyPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  async lock(name: string): Promise<() => Promise<void>> {
+    if (this.readOnly) {
+      return async () => {}; // Nothing is written, and read-only mounts cannot hold a lock file
+    }
+
+    const lockPath = `${this.getKeyPath(name)}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    // Owner token: only the holder may release or refresh the lock
+    const owner = `${process.pid} ${randomBytes(16).toString('hex')}\n`;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx', 0o600);
+        await handle.writeFile(owner);
+        await handle.close();
+        return this.holdLock(lockPath, owner);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Lock held by another process: remove it if its owner crashed (no heartbeat), otherwise wait
+      try {
+        const { mtimeMs } = await fs.stat(lockPath);
+        if (Date.now() - mtimeMs > this.staleLockMs) {
+          await this.removeStaleLock(lockPath);
+          continue;
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue; // Released meanwhile
+        }
+        throw error;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new X402MultiSigError(
+          `Timed out after ${this.lockTimeoutMs}ms waiting for identity lock ${lockPath}, ` +
+            'remove the file if no other process is using the identity'
+        );
+      }
+      await sleep(25 + Math.random() * 75);
+    }
+  }
+
+  /**
+   * Keep a lock alive while it is held
+   * The lock file's mtime is refreshed periodically so other processes never consider it stale
+   *
+   * @param lockPath - Lock file path
+   * @param owner - Owner token written in the lock file
+   * @returns Release function, removing the lock only if it is still owned
+   */
+  private holdLock(lockPath: string, owner: string): () => Promise<void> {
+    const isOwned = async () => (await fs.readFile(lockPath, 'utf-8').catch(() => undefined)) === owner;
+
+    const heartbeat = setInterval(async () => {
+      try {
+        if (await isOwned()) {
+          const now = new Date();
+          await fs.utimes(lockPath, now, now);
+        } else {
+          clearInterval(heartbeat);
+          this.logger.warn('Identity lock was taken over by another process', { lockPath });
+        }
+      } catch (error) {
+        this.logger.warn('Failed to refresh identity lock', { lockPath, error });
+      }
+    }, Math.max(this.staleLockMs / 3, 10));
+    heartbeat.unref();
+
+    return async () => {
+      clearInterval(heartbeat);
+      if (await isOwned()) {
+        await fs.rm(lockPath, { force: true });
+      } else {
+        this.logger.warn('Identity lock no longer owned, not removing it', { lockPath });
+      }
+    };
+  }
+
+  /**
+   * Remove a stale lock file
+   * The file is moved aside first and put back if it turns out to be a fresh lock taken meanwhile
+   * (another process may have removed the stale lock and locked again since it was checked)
+   *
+   * @param lockPath - Lock file path
+   */
+  private async removeStaleLock(lockPath: string): Promise<void> {
+    const asidePath = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+    try {
+      await fs.rename(lockPath, asidePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const { mtimeMs } = await fs.stat(asidePath);
+      if (Date.now() - mtimeMs > this.staleLockMs) {
+        this.logger.warn('Removed stale identity lock', { lockPath });
+      } else {
+        // link() does not replace a lock taken in the meantime
+        await fs.link(asidePath, lockPath).catch(() => undefined);
+      }
+    } finally {
+      await fs.rm(asidePath, { force: true });
+    }
+  }
+
+  async recover(name: string): Promise<boolean> {
+    if (this.readOnly) {
+      throw readOnlyError('FileKeyStore', name);
+    }
+
+    const keyPath = this.getKeyPath(name);
+    const corruptPath = `${keyPath}.corrupt-${Date.now()}`;
+    try {
+      await fs.rename(keyPath, corruptPath);
+      this.logger.warn('Corrupt identity file moved aside', { keyPath, corruptPath });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Only restore a backup that is itself a valid record
+    let backup: string;
+    try {
+      backup = await fs.readFile(`${keyPath}.bak`, 'utf-8');
+      parseIdentityStorageData(backup, name);
+    } catch (error) {
+      this.logger.warn('No usable backup of the identity file', { keyPath, error });
+      return false;
+    }
+
+    await fs.rename(await this.writeTempFile(keyPath, backup), keyPath);
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    if (this.readOnly) {
+      throw readOnlyError('FileKeyStore', name);
+    }
+
+    try {
+      await fs.unlink(this.getKeyPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+    await fs.rm(`${this.getKeyPath(name)}.bak`, { force: true });
+    return true;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.identityDir);
+      return files.filter(file => file.endsWith('.json')).map(file => path.basename(file, '.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  describe(name: string): string {
+    return this.getKeyPath(name);
+  }
+
+  /**
+   * Get the key file path
+   *
+   * @param name - Identity name
+   * @returns Full path of the key file
+   */
+  private getKeyPath(name: string): string {
+    return path.join(this.identityDir, `${name}.json`);
+  }
+
+  /**
+   * Write content to a new temporary file next to the record, flushed to disk with 0600 permissions
+   *
+   * @param keyPath - Record path
+   * @param content - File content
+   * @returns Temporary file path
+   */
+  private async writeTempFile(keyPath: string, content: string): Promise<string> {
+    const tempPath = `${keyPath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    const handle = await fs.open(tempPath, 'wx', 0o600); // Owner read/write only
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // Double-check file permissions are 0600 on Unix systems (extra safety, e.g. with a permissive umask)
+    if (this.managePermissions && process.platform !== 'win32') {
+      try {
+        await fs.chmod(tempPath, 0o600);
+      } catch (error) {
+        this.logger.warn('Failed to set private key file permissions', { keyPath, error });
+      }
+    }
+    return tempPath;
+  }
+
+  /**
+   * Keep a copy of the current record as `<name>.json.bak` before it is replaced, if it is valid
+   *
+   * @param name - Identity name
+   */
+  private async backupRecord(name: string): Promise<void> {
+    const keyPath = this.getKeyPath(name);
+    let content: string;
+    try {
+      content = await fs.readFile(keyPath, 'utf-8');
+      parseIdentityStorageData(content, name);
+    } catch {
+      return; // No record yet, or a corrupt one that must not replace the last good copy
+    }
+
+    try {
+      await fs.rename(await this.writeTempFile(keyPath, content), `${keyPath}.bak`);
+    } catch (error) {
+      this.logger.warn('Failed to back up identity file', { keyPath, error });
+    }
+  }
+}
+
+/**
+ * In-memory key store (records are lost when the process exits)
+ *
+ * @example
+ * ```typescript
+ * const bot = await X402MultiSig.create({
+ *   x402CanisterId: 'unn7l-aqaaa-aaaau-ab7ka-cai',
+ *   keyStore: new MemoryKeyStore(),
+ * });
+ * ```
+ */
+export class MemoryKeyStore implements KeyStore {
+  readonly readOnly = false;
+
+  /** Stored records (serialized, so callers cannot mutate stored data) */
+  private records: Map<string, string> = new Map();
+
+  /**
+   * Create an in-memory key store
+   *
+   * @param initial - Records to preload, keyed by identity name (optional)
+   */
+  constructor(initial: Record<string, IdentityStorageData> = {}) {
+    for (const [name, data] of Object.entries(initial)) {
+      this.records.set(name, JSON.stringify(data));
+    }
+  }
+
+  async read(name: string): Promise<IdentityStorageData | undefined> {
+    const record = this.records.get(name);
+    return record !== undefined ? (JSON.parse(record) as IdentityStorageData) : undefined;
+  }
+
+  async write(name: string, data: IdentityStorageData): Promise<void> {
+    this.records.set(name, JSON.stringify(data));
+  }
+
+  async create(name: string, data: IdentityStorageData): Promise<boolean> {
+    if (this.records.has(name)) {
+      return false;
+    }
+    this.records.set(name, JSON.stringify(data));
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.records.delete(name);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.records.keys()];
+  }
+
+  describe(name: string): string {
+    return `memory:${name}`;
+  }
+}
+
+/**
+ * Environment Key Store configuration
+ */
+export interface EnvKeyStoreOptions {
+  /** Environment variable prefix (default: 'X402_IDENTITY_') */
+  prefix?: string;
+  /** Environment to read from (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Read-only key store for container deployments
+ *
+ * For identity `default`, the record is read from (first match wins):
+ * - `X402_IDENTITY_DEFAULT`: identity record content
+ * - `X402_IDENTITY_DEFAULT_FILE`: path to a file containing the record (e.g. a mounted Kubernetes secret)
+ *
+ * The record is either an SDK identity file or a bare Ed25519 JSON key (`identity.toJSON()`).
+ * Identity names are upper-cased and non-alphanumeric characters replaced by `_`.
+ * The store never creates directories or changes file permissions.
+ */
+export class EnvKeyStore implements KeyStore {
+  readonly readOnly = true;
+
+  /** Environment variable prefix */
+  private prefix: string;
+
+  /** Environment to read from */
+  private env: Record<string, string | undefined>;
+
+  /**
+   * Create an environment key store
+   *
+   * @param options - Environment Key Store configuration (optional)
+   */
+  constructor(options: EnvKeyStoreOptions = {}) {
+    this.prefix = options.prefix ?? 'X402_IDENTITY_';
+    this.env = options.env ?? process.env;
+  }
+
+  async read(name: string): Promise<IdentityStorageData | undefined> {
+    const variable = this.getVariableName(name);
+
+    const content = this.env[variable];
+    if (content) {
+      return parseIdentityStorageData(content, name);
+    }
+
+    const filePath = this.env[`${variable}_FILE`];
+    if (filePath) {
+      return parseIdentityStorageData(await fs.readFile(filePath, 'utf-8'), name);
+    }
+
+    return undefined;
+  }
+
+  async write(name: string): Promise<void> {
+    throw readOnlyError('EnvKeyStore', name);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    throw readOnlyError('EnvKeyStore', name);
+  }
+
+  async list(): Promise<string[]> {
+    const names = new Set<string>();
+    for (const [variable, value] of Object.entries(this.env)) {
+      if (variable.startsWith(this.prefix) && value) {
+        names.add(variable.slice(this.prefix.length).replace(/_FILE$/, '').toLowerCase());
+      }
+    }
+    return [...names];
+  }
+
+  describe(name: string): string {
+    return `env:${this.getVariableName(name)}`;
+  }
+
+  /**
+   * Get the environment variable holding an identity
+   *
+   * @param name - Identity name
+   * @returns Environment variable name
+   */
+  private getVariableName(name: string): string {
+    return `${this.prefix}${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  }
+}
+
+/**
+ * Remote secret provider (Vault, AWS Secrets Manager, GCP Secret Manager, ...)
+ *
+ * Only getSecret is required; providers without setSecret are treated as read-only.
+ */
+export interface RemoteSecretProvider {
+  /** Read a secret, returns undefined if it does not exist */
+  getSecret(key: string): Promise<string | undefined>;
+  /** Create or replace a secret (optional) */
+  setSecret?(key: string, value: string): Promise<void>;
+  /** Delete a secret, returns false if it did not exist (optional) */
+  deleteSecret?(key: string): Promise<boolean>;
+  /** List secret keys (optional) */
+  listSecrets?(): Promise<string[]>;
+}
+
+/**
+ * Remote Key Store configuration
+ */
+export interface RemoteKeyStoreOptions {
+  /** Secret key prefix (default: 'x402-identity/') */
+  prefix?: string;
+}
+
+/**
+ * Key store backed by a remote secret provider
+ *
+ * Each identity record is stored as one JSON secret under `<prefix><name>`.
+ *
+ * @example
+ * ```typescript
+ * const keyStore = new RemoteKeyStore({
+ *   getSecret: async key => (await vault.read(`secret/data/${key}`))?.data?.data?.value,
+ *   setSecret: async (key, value) => { await vault.write(`secret/data/${key}`, { data: { value } }); },
+ * });
+ * ```
+ */
+export class RemoteKeyStore implements KeyStore {
+  readonly readOnly: boolean;
+
+  /** Remote secret provider */
+  private provider: RemoteSecretProvider;
+
+  /** Secret key prefix */
+  private prefix: string;
+
+  /**
+   * Create a remote key store
+   *
+   * @param provider - Remote secret provider
+   * @param options - Remote Key Store configuration (optional)
+   */
+  constructor(provider: RemoteSecretProvider, options: RemoteKeyStoreOptions = {}) {
+    this.provider = provider;
+    this.prefix = options.prefix ?? 'x402-identity/';
+    this.readOnly = provider.setSecret === undefined;
+  }
+
+  async read(name: string): Promise<IdentityStorageData | undefined> {
+    const content = await this.provider.getSecret(this.getSecretKey(name));
+    return content !== undefined ? parseIdentityStorageData(content, name) : undefined;
+  }
+
+  async write(name: string, data: IdentityStorageData): Promise<void> {
+    if (!this.provider.setSecret) {
+      throw readOnlyError('RemoteKeyStore', name);
+    }
+    await this.provider.setSecret(this.getSecretKey(name), JSON.stringify(data));
+  }
+
+  async delete(name: string): Promise<boolean> {
+    if (!this.provider.deleteSecret) {
+      throw readOnlyError('RemoteKeyStore', name);
+    }
+    return this.provider.deleteSecret(this.getSecretKey(name));
+  }
+
+  async list(): Promise<string[]> {
+    if (!this.provider.listSecrets) {
+      return [];
+    }
+    const keys = await this.provider.listSecrets();
+    return keys.filter(key => key.startsWith(this.prefix)).map(key => key.slice(this.prefix.length));
+  }
+
+  describe(name: string): string {
+    return `remote:${this.getSecretKey(name)}`;
+  }
+
+  /**
+   * Get the secret key holding an identity
+   *
+   * @param name - Identity name
+   * @returns Secret key
+   */
+  private getSecretKey(name: string): string {
+    return `${this.prefix}${name}`;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Mnemonic Identity Module
+ *
+ * BIP-39 mnemonic backed identities, so a bot key can be escrowed as a paper backup:
+ * - Mnemonics are generated from the English BIP-39 wordlist (24 words by default)
+ * - The key is a secp256k1 key derived with BIP-32 along MNEMONIC_DERIVATION_PATH, the same derivation
+ *   as `dfx identity import --seed-file`, so a recovered phrase yields the same principal in dfx
+ */
+
+import { generateMnemonic as generateBip39Mnemonic, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
+import { ValidationError } from '../errors.js';
+
+/**
+ * BIP-32 derivation path of mnemonic backed identities (BIP-44, ICP coin type 223)
+ */
+export const MNEMONIC_DERIVATION_PATH = "m/44'/223'/0'/0/0";
+
+/**
+ * Supported mnemonic lengths
+ */
+export type MnemonicWordCount = 12 | 24;
+
+/**
+ * Generate a new BIP-39 mnemonic
+ *
+ * @param wordCount - Number of words (default: 24, i.e. 256 bits of entropy)
+ * @returns Space separated mnemonic
+ * @throws ValidationError if the word count is not supported
+ */
+export function generateMnemonic(wordCount: MnemonicWordCount = 24): string {
+  if (wordCount !== 12 && wordCount !== 24) {
+    throw new ValidationError('Mnemonic word count must be 12 or 24', 'wordCount', wordCount);
+  }
+  return generateBip39Mnemonic(wordlist, wordCount === 24 ? 256 : 128);
+}
+
+/**
+ * Normalize a mnemonic typed or copied by a human (case, extra whitespace)
+ *
+ * @param mnemonic - Mnemonic phrase
+ * @returns Normalized mnemonic
+ * @throws ValidationError if the mnemonic is not a valid English BIP-39 mnemonic
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  const normalized = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+  if (!validateMnemonic(normalized, wordlist)) {
+    // The phrase is a secret, it is deliberately not attached to the error
+    throw new ValidationError(
+      'Invalid mnemonic: expected 12 to 24 words from the English BIP-39 wordlist with a valid checksum',
+      'mnemonic'
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Derive an identity from a BIP-39 mnemonic
+ *
+ * @param mnemonic - Mnemonic phrase
+ * @returns Secp256k1KeyIdentity derived along MNEMONIC_DERIVATION_PATH
+ * @throws ValidationError if the mnemonic is invalid
+ *
+ * @example
+ * ```typescript
+ * const identity = identityFromMnemonic('abandon abandon ... art');
+ * console.log(identity.getPrincipal().toText()); // same as `dfx identity import --seed-file`
+ * ```
+ */
+export function identityFromMnemonic(mnemonic: string): Secp256k1KeyIdentity {
+  return Secp256k1KeyIdentity.fromSeedPhrase(normalizeMnemonic(mnemonic));
+}
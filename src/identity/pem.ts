@@ -0,0 +1,351 @@
+/**
+ * PEM Private Key Module
+ *
+ * Parses and serializes identity private keys in the formats used by dfx:
+ * - Ed25519: PKCS#8 "PRIVATE KEY" (RFC 8410, v1 and v2 including the legacy dfx public key encoding)
+ * - secp256k1: SEC1 "EC PRIVATE KEY" (RFC 5915, optionally preceded by an "EC PARAMETERS" block)
+ *   and PKCS#8 "PRIVATE KEY" wrapping a SEC1 key
+ *
+ * The ASN.1 structures are decoded with a minimal DER reader and the algorithm/curve OIDs are checked,
+ * so keys of other types are rejected instead of being misread.
+ */
+
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
+import { ValidationError } from '../errors.js';
+import type { ManagedIdentity } from './manager.js';
+
+/**
+ * Private key types supported in PEM files
+ */
+export type PemKeyType = 'ed25519' | 'secp256k1';
+
+/**
+ * Private key decoded from a PEM file
+ */
+export interface ParsedPrivateKey {
+  /** Key type */
+  keyType: PemKeyType;
+  /** 32-byte private key */
+  secretKey: Uint8Array;
+  /** Public key, if included in the PEM file (Ed25519: 32 bytes, secp256k1: SEC1 encoded point) */
+  publicKey?: Uint8Array;
+}
+
+/** DER encoded OID 1.3.101.112 (Ed25519) */
+const OID_ED25519 = '2b6570';
+/** DER encoded OID 1.2.840.10045.2.1 (id-ecPublicKey) */
+const OID_EC_PUBLIC_KEY = '2a8648ce3d0201';
+/** DER encoded OID 1.3.132.0.10 (secp256k1) */
+const OID_SECP256K1 = '2b8104000a';
+
+/** DER tags used by the private key structures */
+const TAG_INTEGER = 0x02;
+const TAG_BIT_STRING = 0x03;
+const TAG_OCTET_STRING = 0x04;
+const TAG_OID = 0x06;
+const TAG_SEQUENCE = 0x30;
+
+/**
+ * DER element (tag, and value bytes)
+ */
+interface DerElement {
+  tag: number;
+  value: Uint8Array;
+}
+
+/**
+ * Read the DER elements contained in a byte range
+ *
+ * @param bytes - DER encoded bytes
+ * @returns Top-level elements
+ * @throws Error on malformed encoding
+ */
+function readDerElements(bytes: Uint8Array): DerElement[] {
+  const elements: DerElement[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 2 > bytes.length) {
+      throw new Error('truncated DER element');
+    }
+    const tag = bytes[offset++];
+    let length = bytes[offset++];
+
+    // Long form length: the low bits give the number of length bytes
+    if (length & 0x80) {
+      const lengthBytes = length & 0x7f;
+      if (lengthBytes === 0 || lengthBytes > 4 || offset + lengthBytes > bytes.length) {
+        throw new Error('invalid DER length');
+      }
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) {
+        length = length * 256 + bytes[offset++];
+      }
+    }
+
+    if (offset + length > bytes.length) {
+      throw new Error('truncated DER element');
+    }
+    elements.push({ tag, value: bytes.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return elements;
+}
+
+/**
+ * Read a single DER element of the expected tag
+ *
+ * @param bytes - DER encoded bytes
+ * @param tag - Expected tag
+ * @param description - Structure name used in error messages
+ * @returns Element value
+ */
+function readSingle(bytes: Uint8Array, tag: number, description: string): Uint8Array {
+  const elements = readDerElements(bytes);
+  if (elements.length !== 1 || elements[0].tag !== tag) {
+    throw new Error(`invalid ${description}`);
+  }
+  return elements[0].value;
+}
+
+/**
+ * Encode a DER element
+ *
+ * @param tag - Tag
+ * @param value - Value bytes
+ * @returns DER encoded element
+ */
+function encodeDer(tag: number, ...value: Uint8Array[]): Uint8Array {
+  const content = Buffer.concat(value);
+  const length = content.length < 0x80
+    ? Buffer.from([content.length])
+    : Buffer.from([0x81, content.length]); // Private key structures are always < 256 bytes
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+/**
+ * Encode a base64 DER blob as a PEM block
+ *
+ * @param label - PEM label (e.g. "PRIVATE KEY")
+ * @param der - DER encoded bytes
+ * @returns PEM block
+ */
+function toPemBlock(label: string, der: Uint8Array): string {
+  const base64 = Buffer.from(der).toString('base64').replace(/.{64}/g, '$&\n').trimEnd();
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Decode a SEC1 ECPrivateKey (RFC 5915), only the secp256k1 curve is accepted
+ *
+ * @param der - ECPrivateKey DER bytes
+ * @param curveKnown - Whether the curve was already checked (PKCS#8 algorithm parameters)
+ * @returns Parsed private key
+ */
+function parseSec1(der: Uint8Array, curveKnown: boolean): ParsedPrivateKey {
+  const fields = readDerElements(readSingle(der, TAG_SEQUENCE, 'EC private key'));
+  const [version, privateKey, ...optional] = fields;
+  if (version?.tag !== TAG_INTEGER || version.value.length !== 1 || version.value[0] !== 1) {
+    throw new Error('unsupported EC private key version');
+  }
+  if (privateKey?.tag !== TAG_OCTET_STRING || privateKey.value.length !== 32) {
+    throw new Error('invalid EC private key length');
+  }
+
+  let publicKey: Uint8Array | undefined;
+  let curveChecked = curveKnown;
+  for (const field of optional) {
+    if (field.tag === 0xa0) {
+      // [0] parameters: named curve OID
+      const curve = readSingle(field.value, TAG_OID, 'EC parameters');
+      if (Buffer.from(curve).toString('hex') !== OID_SECP256K1) {
+        throw new Error('unsupported elliptic curve (only secp256k1 is supported)');
+      }
+      curveChecked = true;
+    } else if (field.tag === 0xa1) {
+      // [1] publicKey: BIT STRING with no unused bits
+      const bits = readSingle(field.value, TAG_BIT_STRING, 'EC public key');
+      publicKey = bits.subarray(1);
+    }
+  }
+  if (!curveChecked) {
+    throw new Error('EC private key does not specify its curve');
+  }
+
+  return { keyType: 'secp256k1', secretKey: new Uint8Array(privateKey.value), publicKey };
+}
+
+/**
+ * Decode a PKCS#8 PrivateKeyInfo / OneAsymmetricKey (RFC 5208, RFC 5958)
+ *
+ * @param der - PKCS#8 DER bytes
+ * @returns Parsed private key
+ */
+function parsePkcs8(der: Uint8Array): ParsedPrivateKey {
+  const fields = readDerElements(readSingle(der, TAG_SEQUENCE, 'PKCS#8 structure'));
+  const [version, algorithm, privateKey, ...optional] = fields;
+  if (version?.tag !== TAG_INTEGER || version.value.length !== 1 || version.value[0] > 1) {
+    throw new Error('unsupported PKCS#8 version');
+  }
+  if (algorithm?.tag !== TAG_SEQUENCE || privateKey?.tag !== TAG_OCTET_STRING) {
+    throw new Error('invalid PKCS#8 structure');
+  }
+
+  const [oid, parameters] = readDerElements(algorithm.value);
+  const oidHex = oid?.tag === TAG_OID ? Buffer.from(oid.value).toString('hex') : '';
+
+  if (oidHex === OID_ED25519) {
+    // CurvePrivateKey ::= OCTET STRING (32 bytes)
+    const secretKey = readSingle(privateKey.value, TAG_OCTET_STRING, 'Ed25519 private key');
+    if (secretKey.length !== 32) {
+      throw new Error(`invalid Ed25519 private key length: ${secretKey.length} bytes, expected 32`);
+    }
+
+    // [1] publicKey: implicit BIT STRING (0x81), or the explicit form (0xa1) written by older dfx versions
+    let publicKey: Uint8Array | undefined;
+    for (const field of optional) {
+      if (field.tag === 0x81) {
+        publicKey = field.value.subarray(1);
+      } else if (field.tag === 0xa1) {
+        publicKey = readSingle(field.value, TAG_BIT_STRING, 'Ed25519 public key').subarray(1);
+      }
+    }
+
+    return { keyType: 'ed25519', secretKey: new Uint8Array(secretKey), publicKey };
+  }
+
+  if (oidHex === OID_EC_PUBLIC_KEY) {
+    const curveHex = parameters?.tag === TAG_OID ? Buffer.from(parameters.value).toString('hex') : '';
+    if (curveHex !== OID_SECP256K1) {
+      throw new Error('unsupported elliptic curve (only secp256k1 is supported)');
+    }
+    return parseSec1(privateKey.value, true);
+  }
+
+  throw new Error('unsupported key algorithm (only Ed25519 and secp256k1 are supported)');
+}
+
+/**
+ * Parse a PEM encoded private key
+ *
+ * Accepts PKCS#8 "PRIVATE KEY" (Ed25519 or secp256k1) and SEC1 "EC PRIVATE KEY" (secp256k1) blocks;
+ * other blocks such as "EC PARAMETERS" are skipped.
+ *
+ * @param pem - PEM file content
+ * @returns Parsed private key
+ * @throws ValidationError if no supported private key is found or the key is malformed
+ *
+ * @example
+ * ```typescript
+ * const key = parsePrivateKeyPEM(fs.readFileSync('~/.config/dfx/identity/default/identity.pem', 'utf-8'));
+ * console.log(key.keyType); // 'ed25519' | 'secp256k1'
+ * ```
+ */
+export function parsePrivateKeyPEM(pem: string): ParsedPrivateKey {
+  const blocks = [...pem.matchAll(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g)];
+  if (blocks.length === 0) {
+    throw new ValidationError('Invalid PEM format: missing required header or footer markers', 'pem');
+  }
+
+  for (const [, label, body] of blocks) {
+    if (label === 'ENCRYPTED PRIVATE KEY' || /Proc-Type:\s*4,ENCRYPTED/.test(body)) {
+      throw new ValidationError('Encrypted PEM private keys are not supported, decrypt the key first', 'pem');
+    }
+    if (label !== 'PRIVATE KEY' && label !== 'EC PRIVATE KEY') {
+      continue;
+    }
+
+    const der = new Uint8Array(Buffer.from(body.replace(/\s/g, ''), 'base64'));
+    try {
+      return label === 'PRIVATE KEY' ? parsePkcs8(der) : parseSec1(der, false);
+    } catch (error) {
+      // Private key content is deliberately not attached to the error
+      throw new ValidationError(
+        `Invalid ${label}: ${error instanceof Error ? error.message : String(error)}`,
+        'pem',
+        undefined,
+        { cause: error }
+      );
+    }
+  }
+
+  throw new ValidationError('No PRIVATE KEY or EC PRIVATE KEY block found in PEM content', 'pem');
+}
+
+/**
+ * Serialize a private key as PEM
+ *
+ * Ed25519 keys are written as PKCS#8 v1 "PRIVATE KEY" (RFC 8410).
+ * secp256k1 keys are written like `dfx identity export`: an "EC PARAMETERS" block followed by a SEC1
+ * "EC PRIVATE KEY" block (the public key is included when provided).
+ *
+ * @param key - Private key to serialize
+ * @returns PEM content
+ */
+export function serializePrivateKeyPEM(key: ParsedPrivateKey): string {
+  if (key.secretKey.length !== 32) {
+    throw new ValidationError(`Invalid private key length: ${key.secretKey.length} bytes, expected 32`, 'secretKey');
+  }
+
+  if (key.keyType === 'ed25519') {
+    const der = encodeDer(
+      TAG_SEQUENCE,
+      encodeDer(TAG_INTEGER, Buffer.from([0])),
+      encodeDer(TAG_SEQUENCE, encodeDer(TAG_OID, Buffer.from(OID_ED25519, 'hex'))),
+      encodeDer(TAG_OCTET_STRING, encodeDer(TAG_OCTET_STRING, key.secretKey))
+    );
+    return toPemBlock('PRIVATE KEY', der);
+  }
+
+  const curve = encodeDer(TAG_OID, Buffer.from(OID_SECP256K1, 'hex'));
+  const der = encodeDer(
+    TAG_SEQUENCE,
+    encodeDer(TAG_INTEGER, Buffer.from([1])),
+    encodeDer(TAG_OCTET_STRING, key.secretKey),
+    encodeDer(0xa0, curve),
+    ...(key.publicKey ? [encodeDer(0xa1, encodeDer(TAG_BIT_STRING, Buffer.from([0]), key.publicKey))] : [])
+  );
+  return toPemBlock('EC PARAMETERS', curve) + toPemBlock('EC PRIVATE KEY', der);
+}
+
+/**
+ * Create an identity from a PEM encoded private key
+ *
+ * @param pem - PEM file content (e.g. a dfx identity.pem)
+ * @returns Ed25519KeyIdentity or Secp256k1KeyIdentity
+ * @throws ValidationError if the key is malformed or its embedded public key does not match the private key
+ */
+export function identityFromPEM(pem: string): ManagedIdentity {
+  const key = parsePrivateKeyPEM(pem);
+  const secretKey = new Uint8Array(key.secretKey).buffer;
+  const identity = key.keyType === 'ed25519'
+    ? Ed25519KeyIdentity.fromSecretKey(secretKey)
+    : Secp256k1KeyIdentity.fromSecretKey(secretKey);
+
+  if (key.publicKey) {
+    const derived = Buffer.from(identity.getPublicKey().toRaw());
+    if (!derived.equals(Buffer.from(key.publicKey))) {
+      throw new ValidationError('PEM public key does not match the private key', 'pem');
+    }
+  }
+
+  return identity;
+}
+
+/**
+ * Serialize an identity's private key as PEM (compatible with `dfx identity import`)
+ *
+ * @param identity - Ed25519KeyIdentity or Secp256k1KeyIdentity
+ * @returns PEM content
+ */
+export function identityToPEM(identity: ManagedIdentity): string {
+  const [, secretKeyHex] = identity.toJSON();
+  const keyType: PemKeyType = identity instanceof Secp256k1KeyIdentity ? 'secp256k1' : 'ed25519';
+  return serializePrivateKeyPEM({
+    keyType,
+    secretKey: new Uint8Array(Buffer.from(secretKeyHex, 'hex')),
+    publicKey: keyType === 'secp256k1' ? new Uint8Array(identity.getPublicKey().toRaw()) : undefined,
+  });
+}
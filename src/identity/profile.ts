@@ -0,0 +1,95 @@
+/**
+ * Identity Profile Module
+ *
+ * A profile is stored in an identity record next to the key and binds the identity to the
+ * resources it works with, so a bot only needs the profile name to start:
+ * - x402 canister, register canister and IC network
+ * - Default vault and its EVM/Solana addresses (the payer fromAddress)
+ * - Default payment network and spending policy
+ */
+
+import type { SupportedNetwork } from '../types.js';
+import type { PaymentRequirementsSelection } from '../payment/requirements.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Identity profile
+ */
+export interface IdentityProfile {
+  /** Bound X402 Canister ID */
+  x402CanisterId?: string;
+  /** Register Canister ID (optional, defaults to the SDK default) */
+  registerCanisterId?: string;
+  /** IC network (optional, defaults to 'mainnet') */
+  icNetwork?: 'mainnet' | 'local';
+  /** Default vault ID (wallet ID) */
+  vaultId?: bigint;
+  /** EVM address of the default vault, used as payer fromAddress */
+  evmAddress?: `0x${string}`;
+  /** Solana address of the default vault */
+  solanaAddress?: string;
+  /** Default payment network, preferred when discovering payment requirements */
+  network?: SupportedNetwork;
+  /**
+   * Spending policy applied to payments made with this profile
+   * Used as discovery preferences, and maxAmountRequired also caps explicitly provided payment requirements
+   */
+  spendingPolicy?: PaymentRequirementsSelection;
+}
+
+/**
+ * Identity profile as stored in the identity record (bigint fields as decimal strings)
+ */
+export type StoredIdentityProfile = Omit<IdentityProfile, 'vaultId'> & {
+  /** Default vault ID (decimal string) */
+  vaultId?: string;
+};
+
+/**
+ * Convert a profile to its stored form
+ *
+ * @param profile - Identity profile
+ * @returns JSON-serializable profile
+ * @throws ValidationError if an address or the spending policy amount is malformed
+ */
+export function serializeProfile(profile: IdentityProfile): StoredIdentityProfile {
+  if (profile.evmAddress !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(profile.evmAddress)) {
+    throw new ValidationError('Profile EVM address must be a 0x-prefixed 20-byte hex address', 'evmAddress', profile.evmAddress);
+  }
+  const maxAmount = profile.spendingPolicy?.maxAmountRequired;
+  if (maxAmount !== undefined && !/^\d+$/.test(maxAmount)) {
+    throw new ValidationError(
+      'Spending policy maxAmountRequired must be a decimal integer string (smallest unit)',
+      'spendingPolicy',
+      maxAmount
+    );
+  }
+
+  const { vaultId, ...rest } = profile;
+  return vaultId !== undefined ? { ...rest, vaultId: vaultId.toString() } : rest;
+}
+
+/**
+ * Convert a stored profile back to an identity profile
+ *
+ * @param stored - Stored profile
+ * @returns Identity profile
+ */
+export function deserializeProfile(stored: StoredIdentityProfile): IdentityProfile {
+  const { vaultId, ...rest } = stored;
+  return vaultId !== undefined ? { ...rest, vaultId: BigInt(vaultId) } : rest;
+}
+
+/**
+ * Get the payment requirement selection preferences derived from a profile
+ *
+ * @param profile - Identity profile (optional)
+ * @returns Spending policy (with the profile's default network unless the policy lists networks),
+ *   or undefined if the profile sets neither
+ */
+export function getProfileSelection(profile?: IdentityProfile): PaymentRequirementsSelection | undefined {
+  if (!profile?.spendingPolicy && !profile?.network) {
+    return undefined;
+  }
+  return { network: profile.network, ...profile.spendingPolicy };
+}
@@ -0,0 +1,310 @@
+/**
+ * Session Identity Module
+ *
+ * Short-lived session keys authorized by the master identity through a delegation chain:
+ * - The session key (Ed25519) signs IC requests instead of the master key
+ * - The delegation expires after a configurable TTL and is scoped to target canisters
+ * - Sessions are persisted (optional) and refreshed automatically before they expire
+ *
+ * A leaked session key is only usable until the delegation expires, and only on the target canisters.
+ */
+
+import type { SignIdentity } from '@dfinity/agent';
+import {
+  DelegationChain,
+  DelegationIdentity,
+  Ed25519KeyIdentity,
+  type JsonnableDelegationChain,
+} from '@dfinity/identity';
+import { Principal } from '@dfinity/principal';
+import { ValidationError } from '../errors.js';
+import { silentLogger, type Logger } from '../utils/logger.js';
+
+/**
+ * Default session lifetime (8 hours)
+ */
+export const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+/**
+ * Default time before expiry at which a session is refreshed (5 minutes)
+ */
+export const DEFAULT_SESSION_REFRESH_MARGIN_SECONDS = 5 * 60;
+
+/**
+ * Persisted session data
+ */
+export interface StoredSession {
+  /** Session key (result of Ed25519KeyIdentity.toJSON()) */
+  sessionKey: [string, string];
+  /** Delegation chain from the master identity to the session key */
+  delegationChain: JsonnableDelegationChain;
+  /** Canisters the delegation is scoped to (Principal text) */
+  targets: string[];
+  /** Delegation expiry (ISO 8601 format) */
+  expiresAt: string;
+}
+
+/**
+ * Session persistence backend
+ */
+export interface SessionStore {
+  /** Load the persisted session, returns undefined if none */
+  load(): Promise<StoredSession | undefined>;
+  /** Persist a new session */
+  save(session: StoredSession): Promise<void>;
+}
+
+/**
+ * Session configuration
+ */
+export interface SessionOptions {
+  /** Session lifetime in seconds (default: 8 hours) */
+  ttlSeconds?: number;
+  /** Canisters the session may call (default: the x402 and register canisters) */
+  targets?: string[];
+  /** Refresh the session when it expires within this many seconds (default: 300) */
+  refreshMarginSeconds?: number;
+}
+
+/**
+ * Session Manager configuration
+ */
+export interface SessionManagerOptions extends SessionOptions {
+  /** Session persistence backend (optional, sessions are kept in memory only if omitted) */
+  store?: SessionStore;
+  /** Logger (optional, defaults to silent) */
+  logger?: Logger;
+}
+
+/**
+ * Session Manager, responsible for issuing, persisting and refreshing session identities
+ *
+ * @example
+ * ```typescript
+ * const sessions = new SessionManager(masterIdentity, {
+ *   ttlSeconds: 4 * 60 * 60,
+ *   targets: ['unn7l-aqaaa-aaaau-ab7ka-cai'],
+ * });
+ * const sessionIdentity = await sessions.getIdentity(); // same principal as masterIdentity
+ * ```
+ */
+export class SessionManager {
+  /** Master identity signing the delegations */
+  private master: SignIdentity;
+
+  /** Session lifetime in seconds */
+  private ttlSeconds: number;
+
+  /** Delegation targets */
+  private targets: Principal[];
+
+  /** Refresh margin in seconds */
+  private refreshMarginSeconds: number;
+
+  /** Session persistence backend */
+  private store?: SessionStore;
+
+  /** Logger (bound to the SessionManager component) */
+  private logger: Logger;
+
+  /** Current session identity */
+  private current?: { identity: DelegationIdentity; expiresAt: Date };
+
+  /** Whether the persisted session has been checked */
+  private storeLoaded = false;
+
+  /** In-flight session refresh (avoids issuing two sessions concurrently) */
+  private pending?: Promise<DelegationIdentity>;
+
+  /**
+   * Create a new Session Manager
+   *
+   * @param master - Master identity signing the delegations
+   * @param options - Session Manager configuration
+   * @throws ValidationError if the TTL, refresh margin or targets are invalid
+   */
+  constructor(master: SignIdentity, options: SessionManagerOptions = {}) {
+    this.master = master;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_SESSION_TTL_SECONDS;
+    this.refreshMarginSeconds = options.refreshMarginSeconds ?? DEFAULT_SESSION_REFRESH_MARGIN_SECONDS;
+    this.store = options.store;
+    this.logger = (options.logger ?? silentLogger).child({ component: 'SessionManager' });
+
+    if (!Number.isFinite(this.ttlSeconds) || this.ttlSeconds <= 0) {
+      throw new ValidationError('Session TTL must be a positive number of seconds', 'ttlSeconds', this.ttlSeconds);
+    }
+    if (this.refreshMarginSeconds < 0 || this.refreshMarginSeconds >= this.ttlSeconds) {
+      throw new ValidationError(
+        'Session refresh margin must be non-negative and shorter than the session TTL',
+        'refreshMarginSeconds',
+        this.refreshMarginSeconds
+      );
+    }
+
+    try {
+      this.targets = (options.targets ?? []).map(target => Principal.fromText(target));
+    } catch (error) {
+      throw new ValidationError(`Invalid session target canister: ${error}`, 'targets', options.targets, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Get a valid session identity, issuing or refreshing the session if needed
+   *
+   * @returns Session identity (its principal is the master identity's principal)
+   */
+  async getIdentity(): Promise<DelegationIdentity> {
+    if (this.current && !this.needsRefresh(this.current.expiresAt)) {
+      return this.current.identity;
+    }
+
+    if (!this.pending) {
+      this.pending = this.resolveSession().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Issue a new session immediately, regardless of the current session's expiry
+   *
+   * @returns New session identity
+   */
+  async refresh(): Promise<DelegationIdentity> {
+    const { identity, session } = await this.issueSession();
+    this.current = { identity, expiresAt: new Date(session.expiresAt) };
+    await this.persist(session);
+    return identity;
+  }
+
+  /**
+   * Switch to a new master identity (e.g. after a key rotation)
+   * The current session is discarded, the next getIdentity() call issues a session from the new master
+   *
+   * @param master - New master identity
+   */
+  setMasterIdentity(master: SignIdentity): void {
+    this.master = master;
+    this.current = undefined;
+    this.storeLoaded = false;
+  }
+
+  /**
+   * Get the current session expiry
+   *
+   * @returns Expiry time, or undefined if no session has been issued yet
+   */
+  getExpiry(): Date | undefined {
+    return this.current?.expiresAt;
+  }
+
+  /**
+   * Reuse the persisted session if still valid for the configured master and targets, otherwise issue a new one
+   *
+   * @returns Session identity
+   */
+  private async resolveSession(): Promise<DelegationIdentity> {
+    if (!this.storeLoaded && this.store) {
+      this.storeLoaded = true;
+      try {
+        const stored = await this.store.load();
+        const restored = stored ? this.restoreSession(stored) : undefined;
+        if (restored) {
+          this.current = restored;
+          this.logger.debug('Restored persisted session', { expiresAt: stored!.expiresAt });
+          return restored.identity;
+        }
+      } catch (error) {
+        this.logger.warn('Failed to load persisted session, issuing a new one', { error });
+      }
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Rebuild a session identity from persisted data
+   *
+   * @param stored - Persisted session
+   * @returns Session identity, or undefined if the session is expiring, scoped differently or issued by another key
+   */
+  private restoreSession(stored: StoredSession): { identity: DelegationIdentity; expiresAt: Date } | undefined {
+    const expiresAt = new Date(stored.expiresAt);
+    if (Number.isNaN(expiresAt.getTime()) || this.needsRefresh(expiresAt)) {
+      return undefined;
+    }
+
+    const expectedTargets = this.targets.map(target => target.toText()).sort().join(',');
+    if ([...stored.targets].sort().join(',') !== expectedTargets) {
+      return undefined;
+    }
+
+    const chain = DelegationChain.fromJSON(stored.delegationChain);
+    const identity = DelegationIdentity.fromDelegation(Ed25519KeyIdentity.fromParsedJson(stored.sessionKey), chain);
+    // A session issued by a previous master key (e.g. after rotation) has a different principal
+    if (identity.getPrincipal().toText() !== this.master.getPrincipal().toText()) {
+      return undefined;
+    }
+
+    return { identity, expiresAt };
+  }
+
+  /**
+   * Generate a session key and delegate to it from the master identity
+   *
+   * @returns Session identity and its persistable form
+   */
+  private async issueSession(): Promise<{ identity: DelegationIdentity; session: StoredSession }> {
+    const sessionKey = Ed25519KeyIdentity.generate();
+    const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000);
+
+    const chain = await DelegationChain.create(this.master, sessionKey.getPublicKey(), expiresAt, {
+      targets: this.targets.length > 0 ? this.targets : undefined,
+    });
+
+    this.logger.info('Issued new session', {
+      principal: this.master.getPrincipal().toText(),
+      expiresAt: expiresAt.toISOString(),
+      targets: this.targets.map(target => target.toText()),
+    });
+
+    return {
+      identity: DelegationIdentity.fromDelegation(sessionKey, chain),
+      session: {
+        sessionKey: sessionKey.toJSON(),
+        delegationChain: chain.toJSON(),
+        targets: this.targets.map(target => target.toText()),
+        expiresAt: expiresAt.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Persist a session, a failure only costs a new session on the next start
+   *
+   * @param session - Session to persist
+   */
+  private async persist(session: StoredSession): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+    try {
+      await this.store.save(session);
+    } catch (error) {
+      this.logger.warn('Failed to persist session', { error });
+    }
+  }
+
+  /**
+   * Check if a session expiring at the given time must be refreshed
+   *
+   * @param expiresAt - Session expiry
+   * @returns Returns true if the session expires within the refresh margin
+   */
+  private needsRefresh(expiresAt: Date): boolean {
+    return expiresAt.getTime() - Date.now() <= this.refreshMarginSeconds * 1000;
+  }
+}
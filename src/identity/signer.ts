@@ -0,0 +1,94 @@
+/**
+ * External Signer Module
+ *
+ * Lets the SDK sign IC requests without holding a private key:
+ * the key stays in a separate process (signing daemon, HSM, KMS) and the SDK only
+ * sees the public key and the signatures it returns.
+ */
+
+import { SignIdentity, type DerEncodedPublicKey, type PublicKey, type Signature } from '@dfinity/agent';
+import { ValidationError } from '../errors.js';
+
+/**
+ * External signer (e.g. a client for a signing daemon listening on a Unix socket)
+ */
+export interface ExternalSigner {
+  /** DER encoded (SubjectPublicKeyInfo) public key of the signing key, e.g. Ed25519 or secp256k1 */
+  getPublicKey(): ArrayBuffer | Uint8Array | Promise<ArrayBuffer | Uint8Array>;
+  /** Sign a request blob with the signing key (the IC domain separator is already included in the blob) */
+  sign(blob: Uint8Array): Promise<ArrayBuffer | Uint8Array>;
+}
+
+/**
+ * Copy bytes into a standalone ArrayBuffer
+ *
+ * @param bytes - Bytes to copy
+ * @returns ArrayBuffer containing exactly the given bytes
+ */
+function toArrayBuffer(bytes: ArrayBuffer | Uint8Array): ArrayBuffer {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const buffer = new ArrayBuffer(view.byteLength);
+  new Uint8Array(buffer).set(view);
+  return buffer;
+}
+
+/**
+ * SignIdentity backed by an external signer
+ *
+ * The principal is derived from the signer's public key (self-authenticating principal),
+ * so it matches the principal of the same key used directly.
+ *
+ * @example
+ * ```typescript
+ * const identity = await ExternalSignerIdentity.create({
+ *   getPublicKey: () => daemon.request('public_key'),
+ *   sign: blob => daemon.request('sign', blob),
+ * });
+ * const bot = await X402MultiSig.create({ x402CanisterId, identity });
+ * ```
+ */
+export class ExternalSignerIdentity extends SignIdentity {
+  /** Public key reported by the signer */
+  private publicKey: PublicKey;
+
+  /** External signer */
+  private signer: ExternalSigner;
+
+  /**
+   * Create an identity from an external signer (private constructor, use create static method)
+   *
+   * @param publicKey - Public key reported by the signer
+   * @param signer - External signer
+   */
+  private constructor(publicKey: PublicKey, signer: ExternalSigner) {
+    super();
+    this.publicKey = publicKey;
+    this.signer = signer;
+  }
+
+  /**
+   * Create an identity from an external signer
+   * Fetches the public key once, signatures are requested for every IC call
+   *
+   * @param signer - External signer
+   * @returns ExternalSignerIdentity instance
+   * @throws ValidationError if the signer returns an empty public key
+   */
+  static async create(signer: ExternalSigner): Promise<ExternalSignerIdentity> {
+    const derKey = toArrayBuffer(await signer.getPublicKey()) as DerEncodedPublicKey;
+    if (derKey.byteLength === 0) {
+      throw new ValidationError('External signer returned an empty public key', 'signer');
+    }
+
+    return new ExternalSignerIdentity({ toDer: () => derKey, derKey }, signer);
+  }
+
+  getPublicKey(): PublicKey {
+    return this.publicKey;
+  }
+
+  async sign(blob: ArrayBuffer): Promise<Signature> {
+    const signature = await this.signer.sign(new Uint8Array(blob));
+    return toArrayBuffer(signature) as Signature;
+  }
+}
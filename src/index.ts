@@ -13,19 +13,197 @@
 export {
   X402MultiSig,
   type X402MultiSigOptions,
+  type ResolvedX402MultiSigOptions,
   type SignRequestParams,
   type SimpleSignRequestParams,
   type SignatureResult,
   type PaymentRequirements,
   type PaidServiceResponse,
   type CallPaidServiceParams,
+  type PaidServiceResult,
+  type SignedPaymentAuthorization,
+  type PollingOptions,
+  type WaitForSignatureOptions,
+  type SignatureStatusChangeEvent,
+  type SignatureApprovalEvent,
+  type SignatureExecuteEvent,
+  type CreatePaymentHeaderParams,
+  type PaymentHeaderResult,
+  type RotateIdentityOptions,
+  type RotateIdentityResult,
+  type EnsureRegisteredOptions,
+  type EnsureRegisteredResult,
+  type RegistrationStatus,
+  type ListVaultsOptions,
+  type ListRequestsOptions,
+  type RequestVote,
+  type OrganizationRequest,
+  type RequestPage,
 } from './client.js';
 
+// ==================== Errors ====================
+
+/**
+ * All SDK errors extend X402MultiSigError and carry structured context
+ * (the underlying error, if any, is available as `cause`)
+ */
+export {
+  X402MultiSigError,
+  ValidationError,
+  UnsupportedNetworkError,
+  UnsupportedTokenError,
+  CanisterCallError,
+  SignatureRejectedError,
+  SignatureTimeoutError,
+  PaymentRequiredError,
+  RegistrationError,
+  IdentityDecryptionError,
+  CorruptIdentityError,
+  AuthorizationExpiredError,
+  type X402MultiSigErrorOptions,
+  type SignatureTimeoutReason,
+} from './errors.js';
+
 // ==================== Advanced Usage ====================
 
-export { X402Client } from './canisters/x402.js';
-export { RegisterClient, type User as RegisterUser } from './canisters/register.js';
-export { IdentityManager, type IdentityStorageData } from './identity/manager.js';
+export { X402Client, type Vault, type VaultAdvanceRule } from './canisters/x402.js';
+export {
+  summarizeRequest,
+  formatTokenAmount,
+  type RequestSummary,
+  type RequestKind,
+} from './canisters/summary.js';
+export { RegisterClient, getUsernameCandidates, type User as RegisterUser } from './canisters/register.js';
+export {
+  IdentityManager,
+  ROTATION_IDENTITY_SUFFIX,
+  type ManagedIdentity,
+  type IdentityStorageData,
+  type IdentityManagerOptions,
+  type RegistrationState,
+  type RotationRequest,
+} from './identity/manager.js';
+export {
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+  isEncryptedKeyData,
+  type EncryptedKeyData,
+  type PassphraseSource,
+  type PassphraseRequest,
+} from './identity/crypto.js';
+export {
+  FileKeyStore,
+  MemoryKeyStore,
+  EnvKeyStore,
+  RemoteKeyStore,
+  parseIdentityStorageData,
+  type KeyStore,
+  type FileKeyStoreOptions,
+  type EnvKeyStoreOptions,
+  type RemoteKeyStoreOptions,
+  type RemoteSecretProvider,
+} from './identity/keystore.js';
+export {
+  parsePrivateKeyPEM,
+  serializePrivateKeyPEM,
+  identityFromPEM,
+  identityToPEM,
+  type ParsedPrivateKey,
+  type PemKeyType,
+} from './identity/pem.js';
+export { type IdentityProfile, type StoredIdentityProfile } from './identity/profile.js';
+export {
+  generateMnemonic,
+  normalizeMnemonic,
+  identityFromMnemonic,
+  MNEMONIC_DERIVATION_PATH,
+  type MnemonicWordCount,
+} from './identity/mnemonic.js';
+export {
+  DfxKeyStore,
+  listDfxIdentities,
+  readDfxIdentityPEM,
+  getDefaultDfxIdentityDir,
+  type DfxKeyStoreOptions,
+  type DfxIdentityInfo,
+  type DfxIdentityStorageMode,
+} from './identity/dfx.js';
+export { ExternalSignerIdentity, type ExternalSigner } from './identity/signer.js';
+export {
+  SessionManager,
+  DEFAULT_SESSION_TTL_SECONDS,
+  DEFAULT_SESSION_REFRESH_MARGIN_SECONDS,
+  type SessionOptions,
+  type SessionManagerOptions,
+  type SessionStore,
+  type StoredSession,
+} from './identity/session.js';
+
+// ==================== Approval ====================
+
+/**
+ * Policy-driven co-signer voting on an organization's pending requests
+ */
+export {
+  AutoApprover,
+  type AutoApproverOptions,
+  type AutoApproverDecisionEvent,
+} from './approval/auto-approver.js';
+export {
+  evaluateApprovalPolicy,
+  validateApprovalPolicy,
+  type ApprovalPolicy,
+  type ApprovalDecision,
+  type ApprovalContext,
+  type BusinessHours,
+} from './approval/policy.js';
+
+// ==================== Payment Discovery ====================
+
+/**
+ * X402 402-response parsing and payment requirement selection
+ * Used by callPaidService when paymentRequirements is omitted
+ */
+export {
+  parsePaymentRequiredResponse,
+  parsePaymentRequiredBody,
+  selectPaymentRequirements,
+  toPaymentRequirements,
+  type AcceptedPaymentRequirement,
+  type PaymentRequiredResponse,
+  type PaymentRequirementsSelection,
+} from './payment/requirements.js';
+
+/**
+ * Paid service HTTP request helpers
+ */
+export {
+  buildPaidServiceUrl,
+  buildPaidServiceRequestInit,
+  readPaidServiceResponse,
+  decodePaymentResponseHeader,
+  DEFAULT_USER_AGENT,
+  PAYMENT_RESPONSE_HEADER,
+  type PaidServiceRequestOptions,
+  type PaidServiceResponseType,
+  type PaymentSettlement,
+} from './payment/http.js';
+
+/**
+ * fetch-compatible wrapper that pays HTTP 402 responses through the multi-sig wallet
+ */
+export {
+  wrapFetch,
+  type FetchFunction,
+  type FetchPaymentInfo,
+  type PaymentPolicy,
+} from './payment/fetch.js';
+
+/**
+ * axios response interceptor that pays HTTP 402 responses through the multi-sig wallet
+ * (requires the optional axios peer dependency)
+ */
+export { withPaymentInterceptor } from './payment/axios.js';
 
 // ==================== Type Definitions ====================
 
@@ -44,6 +222,46 @@ export type {
   RequestStatus,
 } from './types.js';
 
+// Organization management
+export type {
+  Organization,
+  UpdateOrganizationAction,
+  ThresholdConfig,
+  ThresholdMode,
+  WeightedApprover,
+} from './canisters/idl/multisig.idl.js';
+
+// Vaults
+export type {
+  VaultRecord,
+  TransferAdvancedRule,
+  TransferRule,
+  BetweenTransferRule,
+  UserStatus,
+  OrganizationRole,
+  VaultIdList,
+} from './canisters/idl/multisig.idl.js';
+
+// Multisig canister interface (typed actor, see X402Client.getActor)
+export type {
+  MultisigService,
+  MultisigMethod,
+  MultisigMethodArgs,
+  MultisigMethodResult,
+  CanisterResult,
+  Approval,
+  RequestStatusVariant,
+  RequestType,
+  CreateRequestParams,
+  X402TransferWithAuthorizationAction,
+  AcquiringAccount,
+  SubAcquiringAccount,
+  AcquiringAccountIdList,
+  Admin,
+  User as MultisigUser,
+  WalletConfig,
+} from './canisters/idl/multisig.idl.js';
+
 // ==================== Constants ====================
 
 /**
@@ -99,6 +317,29 @@ export {
   generateNonce,
 } from './utils/hex.js';
 
+/**
+ * Timing utility functions
+ * Backoff configuration used by waitForSignature
+ */
+export { computeBackoffDelay, type BackoffOptions } from './utils/timing.js';
+
+/**
+ * Logging utilities
+ * The SDK is silent by default; pass a logger in X402MultiSigOptions to receive structured log entries
+ */
+export {
+  silentLogger,
+  createConsoleLogger,
+  fromPinoLogger,
+  fromWinstonLogger,
+  type Logger,
+  type LogLevel,
+  type LogFields,
+  type ConsoleLoggerOptions,
+  type PinoLikeLogger,
+  type WinstonLikeLogger,
+} from './utils/logger.js';
+
 /**
  * Input validation utility functions
  * Used to validate parameters before submitting requests
@@ -0,0 +1,113 @@
+/**
+ * X402 Axios Interceptor
+ *
+ * Adds a response interceptor to an axios instance that:
+ * - Catches HTTP 402 responses
+ * - Runs the multi-sig signing flow (create request, wait for Executed, encode payment)
+ * - Replays the original request config (method, body, headers) with the x-payment header
+ *
+ * axios is an optional peer dependency: only types are imported here, the caller provides the instance.
+ */
+
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import type { PaymentRequirements, X402MultiSig } from '../client.js';
+import type { PaymentPolicy } from './fetch.js';
+import {
+  parsePaymentRequiredBody,
+  selectPaymentRequirements,
+  type PaymentRequiredResponse,
+} from './requirements.js';
+import { getProfileSelection } from '../identity/profile.js';
+import { PaymentRequiredError } from '../errors.js';
+
+/**
+ * Request config flag marking a request that has already been retried with payment
+ */
+interface PaymentRetryConfig extends InternalAxiosRequestConfig {
+  __x402PaymentRetry?: boolean;
+}
+
+/**
+ * Attach a multi-sig backed X402 payment interceptor to an axios instance
+ *
+ * Each request is paid at most once: if the paid retry also returns 402, the error is propagated.
+ * A 402 response offering no payment the multi-sig wallet can make rejects with the original AxiosError,
+ * unless policy.throwOnUnpayable is set (PaymentRequiredError).
+ *
+ * @param axiosInstance - axios instance to attach the interceptor to
+ * @param bot - X402MultiSig instance used to create signature requests
+ * @param policy - Payment policy (vault, payer address, selection preferences)
+ * @returns The same axios instance (for chaining)
+ *
+ * @example
+ * ```typescript
+ * import axios from 'axios';
+ *
+ * const client = withPaymentInterceptor(axios.create(), bot, {
+ *   vaultId: 1n,
+ *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+ *   selection: { maxAmountRequired: '10000' },
+ * });
+ *
+ * const { data } = await client.post('http://example.com/api/inference', { prompt: 'Hello' });
+ * ```
+ */
+export function withPaymentInterceptor(
+  axiosInstance: AxiosInstance,
+  bot: X402MultiSig,
+  policy: PaymentPolicy
+): AxiosInstance {
+  axiosInstance.interceptors.response.use(
+    response => response,
+    async (error: AxiosError) => {
+      const response = error.response;
+      const config = error.config as PaymentRetryConfig | undefined;
+
+      // Only handle 402 responses that have not been paid yet
+      if (!response || response.status !== 402 || !config || config.__x402PaymentRetry) {
+        return Promise.reject(error);
+      }
+
+      let paymentRequired: PaymentRequiredResponse;
+      let paymentRequirements: PaymentRequirements;
+      try {
+        paymentRequired = parsePaymentRequiredBody(response.data);
+        paymentRequirements = selectPaymentRequirements(
+          paymentRequired.accepts,
+          policy.selection ?? getProfileSelection(bot.getProfile())
+        );
+      } catch (selectionError) {
+        if (selectionError instanceof PaymentRequiredError && !policy.throwOnUnpayable) {
+          return Promise.reject(error);
+        }
+        throw selectionError;
+      }
+
+      const payment = await bot.createPaymentHeader({
+        vaultId: policy.vaultId,
+        fromAddress: policy.fromAddress,
+        resolveFromAddress: policy.resolveFromAddress,
+        paymentRequirements,
+        x402Version: paymentRequired.x402Version,
+        polling: policy.polling,
+        syncRequestExpiry: policy.syncRequestExpiry,
+      });
+
+      if (policy.onPayment) {
+        await policy.onPayment({
+          ...payment,
+          url: axiosInstance.getUri(config),
+          paymentRequirements,
+        });
+      }
+
+      // Replay the original config (method, data, headers preserved) with the payment header
+      config.__x402PaymentRetry = true;
+      config.headers.set('X-PAYMENT', payment.paymentHeader);
+
+      return axiosInstance.request(config);
+    }
+  );
+
+  return axiosInstance;
+}
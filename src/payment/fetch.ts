@@ -0,0 +1,138 @@
+/**
+ * X402 Fetch Wrapper
+ *
+ * Provides a fetch-compatible function backed by the multi-sig wallet:
+ * - Performs the original request
+ * - On HTTP 402, selects a compatible payment requirement and requests a multi-sig signature
+ * - Retries the request once with the x-payment header
+ */
+
+import type { X402MultiSig, PollingOptions, PaymentHeaderResult, PaymentRequirements } from '../client.js';
+import {
+  parsePaymentRequiredResponse,
+  selectPaymentRequirements,
+  type PaymentRequiredResponse,
+  type PaymentRequirementsSelection,
+} from './requirements.js';
+import { getProfileSelection } from '../identity/profile.js';
+import { PaymentRequiredError } from '../errors.js';
+
+/**
+ * Fetch function signature (compatible with the global fetch)
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Information passed to the onPayment callback
+ */
+export interface FetchPaymentInfo extends PaymentHeaderResult {
+  /** Request URL that required payment */
+  url: string;
+  /** Payment requirements that were paid */
+  paymentRequirements: PaymentRequirements;
+}
+
+/**
+ * Payment policy used by wrapFetch
+ */
+export interface PaymentPolicy {
+  /** Vault ID (wallet ID) that pays for requests (optional when the bot's profile binds a default vault) */
+  vaultId?: bigint;
+  /** Payer address (multi-sig wallet address, optional when the bot's profile binds one) */
+  fromAddress?: `0x${string}`;
+  /** Use the vault's EVM address as payer address, rejecting a different fromAddress (default: false) */
+  resolveFromAddress?: boolean;
+  /** Requirement selection preferences (network, token, maximum amount per request, default: the profile's spending policy) */
+  selection?: PaymentRequirementsSelection;
+  /** Polling configuration used while waiting for the multi-sig signature */
+  polling?: PollingOptions;
+  /** Set the canister request's expire_time to match the authorization validity (default: false) */
+  syncRequestExpiry?: boolean;
+  /**
+   * Throw PaymentRequiredError when a 402 response cannot be paid (invalid body or no compatible requirement)
+   * instead of returning it (wrapFetch) or rejecting with the original AxiosError (axios interceptor, default: false)
+   */
+  throwOnUnpayable?: boolean;
+  /** Called after a payment header has been signed, before the request is retried (optional) */
+  onPayment?: (payment: FetchPaymentInfo) => void | Promise<void>;
+}
+
+/**
+ * Wrap fetch so HTTP 402 responses are paid through the multi-sig wallet
+ *
+ * The returned function has the same signature as fetch and can be passed to any library
+ * that accepts a custom fetch implementation. Requests that do not return 402, or that already
+ * carry an x-payment header, are passed through untouched. A 402 response offering no payment the
+ * multi-sig wallet can make is returned as is, unless throwOnUnpayable is set.
+ *
+ * @param bot - X402MultiSig instance used to create signature requests
+ * @param policy - Payment policy
+ * @param fetchImpl - Underlying fetch implementation (default: global fetch)
+ * @returns fetch-compatible function
+ * @throws PaymentRequiredError (from the returned function) if the 402 response cannot be paid and throwOnUnpayable is set
+ *
+ * @example
+ * ```typescript
+ * const fetchWithPayment = wrapFetch(bot, {
+ *   vaultId: 1n,
+ *   fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+ *   selection: { network: 'base-sepolia', maxAmountRequired: '10000' },
+ * });
+ *
+ * const response = await fetchWithPayment('http://example.com/api/weather');
+ * console.log(await response.json());
+ * ```
+ */
+export function wrapFetch(
+  bot: X402MultiSig,
+  policy: PaymentPolicy,
+  fetchImpl: FetchFunction = fetch
+): FetchFunction {
+  return async (input, init) => {
+    // Build a Request so the body can be replayed on retry
+    const request = new Request(input, init);
+    const response = await fetchImpl(request.clone());
+
+    if (response.status !== 402 || request.headers.has('x-payment')) {
+      return response;
+    }
+
+    let paymentRequired: PaymentRequiredResponse;
+    let paymentRequirements: PaymentRequirements;
+    try {
+      // Parse a copy, so the original response can still be returned with its body
+      paymentRequired = await parsePaymentRequiredResponse(response.clone());
+      paymentRequirements = selectPaymentRequirements(
+        paymentRequired.accepts,
+        policy.selection ?? getProfileSelection(bot.getProfile())
+      );
+    } catch (error) {
+      if (error instanceof PaymentRequiredError && !policy.throwOnUnpayable) {
+        return response;
+      }
+      throw error;
+    }
+
+    // The 402 response is replaced by the paid retry: release its connection while the signature is pending
+    await response.body?.cancel();
+
+    const payment = await bot.createPaymentHeader({
+      vaultId: policy.vaultId,
+      fromAddress: policy.fromAddress,
+      resolveFromAddress: policy.resolveFromAddress,
+      paymentRequirements,
+      x402Version: paymentRequired.x402Version,
+      polling: policy.polling,
+      syncRequestExpiry: policy.syncRequestExpiry,
+    });
+
+    if (policy.onPayment) {
+      await policy.onPayment({ ...payment, url: request.url, paymentRequirements });
+    }
+
+    const headers = new Headers(request.headers);
+    headers.set('x-payment', payment.paymentHeader);
+
+    return fetchImpl(new Request(request, { headers }));
+  };
+}
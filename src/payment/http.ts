@@ -0,0 +1,212 @@
+/**
+ * Paid Service HTTP Request Module
+ *
+ * This module is responsible for:
+ * - Building fetch requests for paid services (method, headers, query parameters, body)
+ * - Attaching the X402 x-payment header
+ * - Reading the service response in the requested format
+ * - Decoding the X-PAYMENT-RESPONSE settlement header
+ */
+
+import { decodeXPaymentResponse } from 'x402/shared';
+import { silentLogger, type Logger } from '../utils/logger.js';
+
+/**
+ * Default User-Agent sent to paid services
+ */
+export const DEFAULT_USER_AGENT = 'X402MultiSig-SDK/1.0';
+
+/**
+ * Header carrying the facilitator's settlement receipt
+ */
+export const PAYMENT_RESPONSE_HEADER = 'x-payment-response';
+
+/**
+ * Settlement receipt decoded from the X-PAYMENT-RESPONSE header
+ */
+export interface PaymentSettlement {
+  /** Whether the settlement succeeded */
+  success: boolean;
+  /** Settlement transaction hash */
+  transaction: string;
+  /** Network the payment was settled on */
+  network: string;
+  /** Payer address */
+  payer: string;
+  /** Error reason reported by the facilitator (optional) */
+  errorReason?: string;
+}
+
+/**
+ * Paid service response format
+ * - json: Parse body as JSON (default)
+ * - text: Read body as string
+ * - arrayBuffer: Read body as ArrayBuffer (binary)
+ * - blob: Read body as Blob
+ * - stream: Return the unread body stream
+ * - response: Return the raw fetch Response
+ */
+export type PaidServiceResponseType = 'json' | 'text' | 'arrayBuffer' | 'blob' | 'stream' | 'response';
+
+/**
+ * HTTP request options for paid service calls
+ */
+export interface PaidServiceRequestOptions {
+  /** HTTP method (default: 'GET') */
+  method?: string;
+  /** Additional request headers (e.g. Authorization, Accept) */
+  headers?: RequestInit['headers'];
+  /**
+   * Request body
+   * Strings, FormData, URLSearchParams, Blob and binary data are sent as-is;
+   * plain objects and arrays are serialized as JSON
+   */
+  body?: RequestInit['body'] | Record<string, unknown> | unknown[];
+  /** Query parameters appended to the API URL */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Abort signal used to cancel the HTTP request */
+  signal?: AbortSignal;
+  /** Response format (default: 'json') */
+  responseType?: PaidServiceResponseType;
+}
+
+/**
+ * Check if a body value should be serialized as JSON
+ *
+ * @param body - Request body
+ * @returns Returns true for plain objects and arrays
+ */
+function isJsonBody(body: unknown): body is Record<string, unknown> | unknown[] {
+  if (Array.isArray(body)) {
+    return true;
+  }
+  if (body === null || typeof body !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(body);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Append query parameters to a URL
+ *
+ * @param apiUrl - API URL (may already contain query parameters)
+ * @param query - Query parameters (undefined values are skipped)
+ * @returns URL with query parameters
+ */
+export function buildPaidServiceUrl(
+  apiUrl: string,
+  query?: PaidServiceRequestOptions['query']
+): string {
+  if (!query) {
+    return apiUrl;
+  }
+
+  const url = new URL(apiUrl);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.append(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * Build fetch RequestInit for a paid service call
+ *
+ * A fresh RequestInit is built on every call so the same options can be used
+ * for the initial request and the paid retry.
+ *
+ * @param options - Request options
+ * @param paymentHeader - Encoded x-payment header (optional, omitted for the unpaid request)
+ * @returns fetch RequestInit
+ */
+export function buildPaidServiceRequestInit(
+  options: PaidServiceRequestOptions,
+  paymentHeader?: string
+): RequestInit {
+  const headers = new Headers(options.headers);
+
+  if (!headers.has('User-Agent')) {
+    headers.set('User-Agent', DEFAULT_USER_AGENT);
+  }
+
+  let body: RequestInit['body'] | undefined;
+  if (isJsonBody(options.body)) {
+    body = JSON.stringify(options.body);
+    if (!headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+  } else {
+    body = options.body as RequestInit['body'] | undefined;
+  }
+
+  if (paymentHeader) {
+    headers.set('x-payment', paymentHeader);
+  }
+
+  return {
+    method: options.method?.toUpperCase() || 'GET',
+    headers,
+    body,
+    signal: options.signal,
+  };
+}
+
+/**
+ * Read a paid service response in the requested format
+ *
+ * @param response - fetch Response
+ * @param responseType - Response format (default: 'json')
+ * @returns Parsed response body, or the raw Response / body stream
+ */
+export async function readPaidServiceResponse(
+  response: Response,
+  responseType: PaidServiceResponseType = 'json'
+): Promise<any> {
+  switch (responseType) {
+    case 'response':
+      return response;
+    case 'stream':
+      return response.body;
+    case 'text':
+      return response.text();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    case 'blob':
+      return response.blob();
+    case 'json':
+    default:
+      return response.json();
+  }
+}
+
+/**
+ * Decode the X-PAYMENT-RESPONSE header returned by a paid service
+ *
+ * @param header - Base64 encoded X-PAYMENT-RESPONSE header value
+ * @param logger - Logger used to report malformed headers (optional, defaults to silent)
+ * @returns Decoded settlement receipt, or undefined if the header is malformed
+ *
+ * @example
+ * ```typescript
+ * const header = response.headers.get(PAYMENT_RESPONSE_HEADER);
+ * const settlement = header ? decodePaymentResponseHeader(header) : undefined;
+ * console.log('Transaction:', settlement?.transaction);
+ * ```
+ */
+export function decodePaymentResponseHeader(
+  header: string,
+  logger: Logger = silentLogger
+): PaymentSettlement | undefined {
+  try {
+    const decoded = decodeXPaymentResponse(header) as PaymentSettlement;
+    if (!decoded || typeof decoded !== 'object' || typeof decoded.transaction !== 'string') {
+      return undefined;
+    }
+    return decoded;
+  } catch (error) {
+    logger.warn(`Failed to decode ${PAYMENT_RESPONSE_HEADER} header`, { error });
+    return undefined;
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * X402 Payment Requirements Discovery Module
+ *
+ * This module is responsible for:
+ * - Parsing the HTTP 402 response body returned by paid services
+ * - Selecting a payment requirement compatible with the multi-sig wallet
+ * - Converting the server's requirement into the SDK's PaymentRequirements format
+ */
+
+import type { PaymentRequirements } from '../client.js';
+import type { SupportedNetwork, SupportedToken } from '../types.js';
+import { PaymentRequiredError, UnsupportedNetworkError, UnsupportedTokenError, ValidationError } from '../errors.js';
+import {
+  SUPPORTED_NETWORKS,
+  SUPPORTED_TOKENS,
+  NETWORK_CHAIN_IDS,
+  getTokenConfig,
+  isSupportedToken,
+} from '../types.js';
+
+/**
+ * Payment requirement as advertised by a server in the `accepts` list of a 402 response
+ * Field names follow the X402 protocol specification
+ */
+export interface AcceptedPaymentRequirement {
+  /** Payment scheme (e.g. 'exact') */
+  scheme: string;
+  /** Network name (may include networks not supported by the multi-sig wallet) */
+  network: string;
+  /** Maximum payment amount (smallest unit) */
+  maxAmountRequired: string;
+  /** Resource URL */
+  resource: string;
+  /** Service description */
+  description: string;
+  /** Response content type */
+  mimeType: string;
+  /** Payment recipient address */
+  payTo: string;
+  /** Maximum timeout (seconds) */
+  maxTimeoutSeconds: number;
+  /** Token contract address */
+  asset: string;
+  /** Output schema (optional) */
+  outputSchema?: Record<string, any>;
+  /** Additional EIP-712 domain parameters (optional) */
+  extra?: Record<string, any>;
+}
+
+/**
+ * HTTP 402 Payment Required response body
+ */
+export interface PaymentRequiredResponse {
+  /** X402 protocol version used by the server */
+  x402Version: number;
+  /** Error message from the server (optional, e.g. when a previous payment was invalid) */
+  error?: string;
+  /** List of payment requirements accepted by the server */
+  accepts: AcceptedPaymentRequirement[];
+}
+
+/**
+ * Payment requirement selection preferences
+ */
+export interface PaymentRequirementsSelection {
+  /** Preferred network(s), in order of preference (default: any supported EVM network, in server order) */
+  network?: SupportedNetwork | SupportedNetwork[];
+  /** Preferred token symbol (default: any supported token) */
+  token?: SupportedToken;
+  /** Upper bound on the amount the SDK is allowed to pay (smallest unit, decimal string) */
+  maxAmountRequired?: string;
+}
+
+/**
+ * Parse the body of an HTTP 402 response
+ *
+ * @param response - Fetch Response with status 402
+ * @returns Parsed payment required response
+ * @throws PaymentRequiredError if the response body is not a valid X402 payment required body
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch(apiUrl);
+ * if (response.status === 402) {
+ *   const paymentRequired = await parsePaymentRequiredResponse(response);
+ *   console.log(paymentRequired.accepts);
+ * }
+ * ```
+ */
+export async function parsePaymentRequiredResponse(response: Response): Promise<PaymentRequiredResponse> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new PaymentRequiredError(
+      `Failed to parse 402 response body from ${response.url || 'server'}: ${error}`,
+      {},
+      { cause: error }
+    );
+  }
+
+  return parsePaymentRequiredBody(body);
+}
+
+/**
+ * Validate an already decoded HTTP 402 response body
+ * Used by HTTP clients that parse the body themselves (e.g. axios)
+ *
+ * @param body - Decoded response body (object, or JSON string)
+ * @returns Parsed payment required response
+ * @throws PaymentRequiredError if the body is not a valid X402 payment required body
+ */
+export function parsePaymentRequiredBody(body: unknown): PaymentRequiredResponse {
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch (error) {
+      throw new PaymentRequiredError(`Failed to parse 402 response body: ${error}`, { body }, { cause: error });
+    }
+  }
+
+  if (!isPaymentRequiredBody(body)) {
+    throw new PaymentRequiredError(
+      `Invalid 402 response body: missing "accepts" list (received: ${JSON.stringify(body)})`,
+      { body }
+    );
+  }
+
+  return {
+    x402Version: typeof body.x402Version === 'number' ? body.x402Version : 1,
+    error: typeof body.error === 'string' ? body.error : undefined,
+    accepts: body.accepts as AcceptedPaymentRequirement[],
+  };
+}
+
+/**
+ * Build the error thrown when a server still answers 402 after a payment was sent
+ * The server's 402 body (usually carrying an "error" field) is attached when it can be decoded
+ *
+ * @param response - Fetch Response with status 402 (body not yet consumed)
+ * @returns PaymentRequiredError describing the refused payment
+ */
+export async function toPaymentRejectedError(response: Response): Promise<PaymentRequiredError> {
+  const body: unknown = await response.json().catch(() => undefined);
+  const paymentRequired = isPaymentRequiredBody(body) ? parsePaymentRequiredBody(body) : undefined;
+
+  return new PaymentRequiredError(
+    `Payment rejected by server: ${paymentRequired?.error ?? `${response.status} ${response.statusText}`}`,
+    { body, accepts: paymentRequired?.accepts, serverError: paymentRequired?.error }
+  );
+}
+
+/**
+ * Check if a decoded body has the shape of a 402 response body
+ *
+ * @param body - Decoded response body
+ * @returns Returns true if the body contains an "accepts" list
+ */
+function isPaymentRequiredBody(body: unknown): body is { x402Version?: unknown; error?: unknown; accepts: unknown[] } {
+  return !!body && typeof body === 'object' && Array.isArray((body as { accepts?: unknown }).accepts);
+}
+
+/**
+ * Check if an amount is a decimal integer string (smallest unit, e.g. '10000')
+ *
+ * @param amount - Amount
+ * @returns Returns true if the amount only contains digits
+ */
+function isDecimalAmount(amount: unknown): amount is string {
+  return typeof amount === 'string' && /^\d+$/.test(amount);
+}
+
+/**
+ * Check if a network can be paid through the multi-sig wallet's EIP-712 signing flow
+ * Only EVM networks (hex Chain ID) are supported by transferWithAuthorization
+ *
+ * @param network - Network name
+ * @returns Returns true if the network is a supported EVM network
+ */
+function isSignableNetwork(network: string): network is SupportedNetwork {
+  return (
+    (SUPPORTED_NETWORKS as readonly string[]).includes(network) &&
+    NETWORK_CHAIN_IDS[network as SupportedNetwork].startsWith('0x')
+  );
+}
+
+/**
+ * Select a payment requirement compatible with the multi-sig wallet
+ *
+ * A requirement is compatible when:
+ * - Scheme is 'exact'
+ * - Network is a supported EVM network (see SUPPORTED_NETWORKS)
+ * - Asset is a supported token on that network (see SUPPORTED_TOKENS)
+ * - maxAmountRequired is a decimal integer string (malformed entries are skipped)
+ * - It matches the given network/token preferences and amount limit
+ *
+ * When several requirements are compatible, the preferred network order is used first,
+ * then the order advertised by the server.
+ *
+ * @param accepts - Payment requirements advertised by the server
+ * @param selection - Selection preferences (optional)
+ * @returns Selected payment requirement, converted to the SDK's PaymentRequirements format
+ * @throws ValidationError if selection.maxAmountRequired is not a decimal integer string
+ * @throws PaymentRequiredError if no compatible payment requirement is found
+ *
+ * @example
+ * ```typescript
+ * const requirements = selectPaymentRequirements(paymentRequired.accepts, {
+ *   network: 'base-sepolia',
+ *   token: 'USDC',
+ *   maxAmountRequired: '10000',
+ * });
+ * ```
+ */
+export function selectPaymentRequirements(
+  accepts: AcceptedPaymentRequirement[],
+  selection: PaymentRequirementsSelection = {}
+): PaymentRequirements {
+  const preferredNetworks = selection.network === undefined
+    ? undefined
+    : Array.isArray(selection.network) ? selection.network : [selection.network];
+  if (selection.maxAmountRequired !== undefined && !isDecimalAmount(selection.maxAmountRequired)) {
+    throw new ValidationError(
+      `maxAmountRequired must be a decimal integer string: ${selection.maxAmountRequired}`,
+      'maxAmountRequired',
+      selection.maxAmountRequired
+    );
+  }
+  const maxAmount = selection.maxAmountRequired !== undefined
+    ? BigInt(selection.maxAmountRequired)
+    : undefined;
+
+  const candidates = accepts.filter(accept => {
+    if (accept.scheme !== 'exact' || !isSignableNetwork(accept.network) || !isDecimalAmount(accept.maxAmountRequired)) {
+      return false;
+    }
+    if (preferredNetworks && !preferredNetworks.includes(accept.network)) {
+      return false;
+    }
+    if (!isSupportedToken(accept.network, accept.asset)) {
+      return false;
+    }
+    if (selection.token && getTokenConfig(accept.network, accept.asset)?.symbol !== selection.token) {
+      return false;
+    }
+    if (maxAmount !== undefined && BigInt(accept.maxAmountRequired) > maxAmount) {
+      return false;
+    }
+    return true;
+  });
+
+  if (preferredNetworks) {
+    // Stable sort keeps server order within the same network
+    candidates.sort(
+      (a, b) =>
+        preferredNetworks.indexOf(a.network as SupportedNetwork) -
+        preferredNetworks.indexOf(b.network as SupportedNetwork)
+    );
+  }
+
+  const selected = candidates[0];
+  if (!selected) {
+    const offered = accepts
+      .map(accept => `   - ${accept.network} ${accept.asset} (${accept.maxAmountRequired})`)
+      .join('\n');
+    throw new PaymentRequiredError(
+      `No compatible payment requirement offered by server\n` +
+      `   Offered requirements:\n` +
+      `${offered || '   (none)'}\n` +
+      `   Multi-sig wallet only supports tokens listed in SUPPORTED_TOKENS on EVM networks`,
+      { accepts }
+    );
+  }
+
+  return toPaymentRequirements(selected);
+}
+
+/**
+ * Convert a server-advertised payment requirement to the SDK's PaymentRequirements format
+ * Fills in domainChainId from the network and EIP-712 domain parameters from the token configuration
+ * when the server does not provide them in `extra`
+ *
+ * @param accept - Payment requirement advertised by the server
+ * @returns PaymentRequirements ready to be used with callPaidService
+ * @throws UnsupportedNetworkError or UnsupportedTokenError if the network or token is not supported
+ */
+export function toPaymentRequirements(accept: AcceptedPaymentRequirement): PaymentRequirements {
+  if (accept.scheme !== 'exact' || !isSignableNetwork(accept.network)) {
+    throw new UnsupportedNetworkError(
+      accept.scheme === 'exact' ? accept.network : `${accept.network} (scheme: ${accept.scheme})`,
+      SUPPORTED_NETWORKS.filter(isSignableNetwork)
+    );
+  }
+
+  const tokenConfig = getTokenConfig(accept.network, accept.asset);
+  if (!tokenConfig) {
+    throw new UnsupportedTokenError(
+      accept.network,
+      accept.asset,
+      SUPPORTED_TOKENS[accept.network]?.map(token => token.symbol) ?? []
+    );
+  }
+
+  return {
+    scheme: 'exact',
+    network: accept.network,
+    maxAmountRequired: accept.maxAmountRequired,
+    resource: accept.resource,
+    description: accept.description,
+    mimeType: accept.mimeType,
+    payTo: accept.payTo,
+    maxTimeoutSeconds: accept.maxTimeoutSeconds,
+    asset: accept.asset,
+    domainChainId: NETWORK_CHAIN_IDS[accept.network],
+    outputSchema: accept.outputSchema as PaymentRequirements['outputSchema'],
+    extra: {
+      ...accept.extra,
+      // Use token symbol as domain name, consistent with getEIP712DomainParams
+      name: accept.extra?.name ?? tokenConfig.symbol,
+      version: accept.extra?.version ?? '2',
+    },
+  };
+}
@@ -5,6 +5,7 @@
  */
 
 import { Principal } from '@dfinity/principal';
+import { UnsupportedNetworkError, UnsupportedTokenError } from './errors.js';
 
 // ==================== X402 Signature Related ====================
 
@@ -33,6 +34,8 @@ export interface X402SignParams {
   domainName: string;
   /** EIP-712 domain version (required, e.g., "2") */
   domainVersion: string;
+  /** Canister request expiration time (optional, nanosecond timestamp, request never expires if omitted) */
+  expireTime?: bigint;
 }
 
 /**
@@ -232,7 +235,7 @@ export interface EIP712DomainParams {
  * @param tokenSymbol - Token symbol (e.g., 'USDC', 'USDT', 'ETH')
  * @param domainVersion - EIP-712 version (e.g., "2")
  * @returns EIP-712 Domain parameters
- * @throws Throws an error if the network or token is not supported
+ * @throws UnsupportedNetworkError or UnsupportedTokenError if the network or token is not supported
  *
  * @example
  * ```typescript
@@ -254,26 +257,20 @@ export function getEIP712DomainParams(
 ): EIP712DomainParams {
   // Validate network support
   if (!SUPPORTED_NETWORKS.includes(network)) {
-    throw new Error(
-      `❌ Unsupported network: ${network}\n` +
-      `   Supported networks: ${SUPPORTED_NETWORKS.join(', ')}`
-    );
+    throw new UnsupportedNetworkError(network, SUPPORTED_NETWORKS);
   }
 
   // Get network Chain ID
   const domainChainId = NETWORK_CHAIN_IDS[network];
   if (!domainChainId) {
-    throw new Error(`❌ Unable to retrieve Chain ID for network ${network}`);
+    throw new UnsupportedNetworkError(network, SUPPORTED_NETWORKS);
   }
 
   // Get token configuration
   const tokenConfig = getTokenConfigBySymbol(network, tokenSymbol);
   if (!tokenConfig) {
-    const supportedTokens = SUPPORTED_TOKENS[network]?.map(t => t.symbol).join(', ') || 'none';
-    throw new Error(
-      `❌ Network ${network} does not support token ${tokenSymbol}\n` +
-      `   Tokens supported by this network: ${supportedTokens}`
-    );
+    const supportedTokens = SUPPORTED_TOKENS[network]?.map(t => t.symbol) ?? [];
+    throw new UnsupportedTokenError(network, tokenSymbol, supportedTokens);
   }
 
   // Return complete EIP-712 Domain parameters
@@ -313,42 +310,10 @@ export type RegisterUserResponse =
   | { Err: string };
 
 /**
- * Request status type
+ * Request status and record types of the multi-sig canister
+ * Defined alongside the canister IDL (see canisters/idl/multisig.idl.ts)
  */
-export type RequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Executed' | 'Expired';
-
-/**
- * Approval record
- */
-export interface Approval {
-  /** Approver */
-  approver: string;
-  /** Approval time */
-  approved_at: bigint;
-}
-
-/**
- * Request record (returned from multi-sig canister)
- * Used to query the execution status of signature requests
- */
-export interface RequestRecord {
-  /** Request ID */
-  id: bigint;
-  /** Execution result (signature) - optional, Candid Opt type decoded as [] or [string] */
-  execution_result: [] | [string];
-  /** Request status */
-  status: { [key in RequestStatus]?: null };
-  /** Execution time - optional, Candid Opt type decoded as [] or [bigint] */
-  executed_at: [] | [bigint];
-  /** Request details */
-  request: any;
-  /** Creation time */
-  created_at: bigint;
-  /** Proposer */
-  proposer: string;
-  /** Approval list */
-  approvals: Approval[];
-}
+export type { RequestStatus, Approval, RequestRecord } from './canisters/idl/multisig.idl.js';
 
 // ==================== Constants ====================
 
@@ -4,6 +4,8 @@
  * Used to process and normalize hexadecimal strings to ensure compliance with EIP-712 and Solidity format requirements
  */
 
+import { ValidationError } from '../errors.js';
+
 /**
  * Pad a short hex string to a fixed length (left-padded with zeros)
  *
@@ -16,7 +18,7 @@
  * @param targetLength - Target length (number of characters, excluding "0x" prefix), defaults to 64 (corresponding to 32 bytes for uint256)
  * @returns Normalized hexadecimal string (with "0x" prefix)
  *
- * @throws Throws an error if the input hex string exceeds the target length
+ * @throws ValidationError if the input is not hex or exceeds the target length
  *
  * @example
  * ```typescript
@@ -34,13 +36,15 @@ export function padHex(hexString: string, targetLength: number = 64): string {
 
   // Validate if it's a valid hexadecimal string
   if (!/^[0-9a-f]*$/.test(hex)) {
-    throw new Error(`Invalid hex string: ${hexString}`);
+    throw new ValidationError(`Invalid hex string: ${hexString}`, 'hex', hexString);
   }
 
   // Check length
   if (hex.length > targetLength) {
-    throw new Error(
-      `Hex string too long: ${hexString} (${hex.length} chars, max ${targetLength})`
+    throw new ValidationError(
+      `Hex string too long: ${hexString} (${hex.length} chars, max ${targetLength})`,
+      'hex',
+      hexString
     );
   }
 
@@ -0,0 +1,209 @@
+/**
+ * Logging utility module
+ *
+ * Defines the logger interface used by all SDK components and provides:
+ * - A silent logger (default, the SDK writes nothing unless a logger is injected)
+ * - A console logger (human-readable output, useful for scripts and debugging)
+ * - Adapters for pino-style and winston-style structured loggers
+ */
+
+/**
+ * Log level (in increasing order of severity)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured log fields (e.g. { requestId: 1n, vaultId: 2n })
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface used throughout the SDK
+ *
+ * Each SDK component logs through a child logger bound to `{ component: '<Name>' }`,
+ * so log lines can be filtered per component in a JSON pipeline.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Create a logger that adds the given fields to every entry */
+  child(bindings: LogFields): Logger;
+}
+
+/**
+ * Numeric severity of each level, used for level filtering
+ */
+const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Logger that discards all entries (SDK default)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
+
+/**
+ * Console logger configuration
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level written to the console (default: 'info') */
+  level?: LogLevel;
+  /** Fields added to every entry (optional) */
+  bindings?: LogFields;
+}
+
+/**
+ * Create a logger that writes to the console
+ *
+ * Entries are written as `[component] message {fields}`; warn and error use console.warn / console.error.
+ *
+ * @param options - Console logger configuration
+ * @returns Logger instance
+ *
+ * @example
+ * ```typescript
+ * const bot = await X402MultiSig.create({
+ *   x402CanisterId: 'unn7l-aqaaa-aaaau-ab7ka-cai',
+ *   logger: createConsoleLogger({ level: 'debug' }),
+ * });
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const minSeverity = LOG_LEVEL_SEVERITY[options.level ?? 'info'];
+  const bindings = options.bindings ?? {};
+
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LOG_LEVEL_SEVERITY[level] < minSeverity) {
+      return;
+    }
+
+    const { component, ...rest } = { ...bindings, ...fields };
+    const prefix = component !== undefined ? `[${String(component)}] ` : '';
+    const entries = Object.entries(rest);
+    const suffix = entries.length > 0
+      ? ' ' + entries.map(([key, value]) => `${key}=${formatFieldValue(value)}`).join(' ')
+      : '';
+    const line = `${prefix}${message}${suffix}`;
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: childBindings =>
+      createConsoleLogger({ level: options.level, bindings: { ...bindings, ...childBindings } }),
+  };
+}
+
+/**
+ * Format a field value for console output
+ *
+ * @param value - Field value
+ * @returns Printable representation
+ */
+function formatFieldValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value, (_key, nested) => (typeof nested === 'bigint' ? nested.toString() : nested));
+  }
+  return String(value);
+}
+
+/**
+ * Minimal pino-compatible logger shape (fields first, message second)
+ */
+export interface PinoLikeLogger {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+  child(bindings: object): PinoLikeLogger;
+}
+
+/**
+ * Minimal winston-compatible logger shape (message first, metadata second)
+ */
+export interface WinstonLikeLogger {
+  debug(message: string, meta?: object): unknown;
+  info(message: string, meta?: object): unknown;
+  warn(message: string, meta?: object): unknown;
+  error(message: string, meta?: object): unknown;
+  child(options: object): WinstonLikeLogger;
+}
+
+/**
+ * Adapt a pino (or pino-compatible, e.g. bunyan) logger to the SDK Logger interface
+ *
+ * @param logger - pino logger instance
+ * @returns Logger instance
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const bot = await X402MultiSig.create({
+ *   x402CanisterId: 'unn7l-aqaaa-aaaau-ab7ka-cai',
+ *   logger: fromPinoLogger(pino({ level: 'debug' })),
+ * });
+ * ```
+ */
+export function fromPinoLogger(logger: PinoLikeLogger): Logger {
+  return {
+    debug: (message, fields) => logger.debug(fields ?? {}, message),
+    info: (message, fields) => logger.info(fields ?? {}, message),
+    warn: (message, fields) => logger.warn(fields ?? {}, message),
+    error: (message, fields) => logger.error(fields ?? {}, message),
+    child: bindings => fromPinoLogger(logger.child(bindings)),
+  };
+}
+
+/**
+ * Adapt a winston (or winston-compatible) logger to the SDK Logger interface
+ *
+ * @param logger - winston logger instance
+ * @returns Logger instance
+ *
+ * @example
+ * ```typescript
+ * import winston from 'winston';
+ *
+ * const bot = await X402MultiSig.create({
+ *   x402CanisterId: 'unn7l-aqaaa-aaaau-ab7ka-cai',
+ *   logger: fromWinstonLogger(winston.createLogger({ format: winston.format.json() })),
+ * });
+ * ```
+ */
+export function fromWinstonLogger(logger: WinstonLikeLogger): Logger {
+  return {
+    debug: (message, fields) => void logger.debug(message, fields),
+    info: (message, fields) => void logger.info(message, fields),
+    warn: (message, fields) => void logger.warn(message, fields),
+    error: (message, fields) => void logger.error(message, fields),
+    child: bindings => fromWinstonLogger(logger.child(bindings)),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Timing utility functions
+ *
+ * Used for polling loops: cancellable sleep and exponential backoff with jitter
+ */
+
+/**
+ * Exponential backoff configuration
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry (milliseconds, default: 3000) */
+  initialDelay?: number;
+  /** Maximum delay between retries (milliseconds, default: 30000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each attempt (default: 1, i.e. fixed interval) */
+  multiplier?: number;
+  /** Random jitter ratio in [0, 1] applied to each delay (default: 0) */
+  jitter?: number;
+}
+
+/**
+ * Compute the delay before a given retry attempt
+ *
+ * @param attempt - Attempt number (starting at 1)
+ * @param options - Backoff configuration
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * computeBackoffDelay(1, { initialDelay: 1000, multiplier: 2 })  // 1000
+ * computeBackoffDelay(3, { initialDelay: 1000, multiplier: 2 })  // 4000
+ * computeBackoffDelay(3, { initialDelay: 1000, multiplier: 2, jitter: 0.2 })  // 3200 ~ 4800
+ * ```
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions = {}): number {
+  const initialDelay = options.initialDelay ?? 3000;
+  const maxDelay = options.maxDelay ?? 30000;
+  const multiplier = options.multiplier ?? 1;
+  const jitter = Math.min(Math.max(options.jitter ?? 0, 0), 1);
+
+  const baseDelay = Math.min(initialDelay * Math.pow(multiplier, Math.max(attempt - 1, 0)), maxDelay);
+  const jitterOffset = baseDelay * jitter * (Math.random() * 2 - 1);
+
+  return Math.max(0, Math.round(baseDelay + jitterOffset));
+}
+
+/**
+ * Sleep for the given duration, rejecting early if the signal is aborted
+ *
+ * @param ms - Duration in milliseconds
+ * @param signal - Abort signal (optional)
+ * @throws The signal's abort reason if aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
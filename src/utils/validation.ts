@@ -5,6 +5,8 @@
  */
 
 import { isValidHex } from './hex.js';
+import { ValidationError } from '../errors.js';
+import { silentLogger, type Logger } from './logger.js';
 
 /**
  * Validate Ethereum address format
@@ -34,7 +36,7 @@ export function isValidEthereumAddress(address: string): boolean {
  *
  * @param address - Address string to validate
  * @param fieldName - Field name for error message (default: "address")
- * @throws Throws detailed error message if address format is invalid
+ * @throws ValidationError if address format is invalid
  *
  * @example
  * ```typescript
@@ -44,12 +46,10 @@ export function isValidEthereumAddress(address: string): boolean {
  */
 export function validateEthereumAddress(address: string, fieldName: string = 'address'): void {
   if (!isValidEthereumAddress(address)) {
-    throw new Error(
-      `Invalid ${fieldName}: ${address}\n` +
-      `Ethereum address must follow this format:\n` +
-      `- Start with "0x"\n` +
-      `- Followed by 40 hexadecimal characters\n` +
-      `- Example: 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb`
+    throw new ValidationError(
+      `Invalid ${fieldName}: ${address} (expected "0x" followed by 40 hexadecimal characters)`,
+      fieldName,
+      address
     );
   }
 }
@@ -60,7 +60,7 @@ export function validateEthereumAddress(address: string, fieldName: string = 'ad
  * @param hexValue - Hexadecimal string
  * @param fieldName - Field name for error message
  * @param allowNegative - Whether to allow negative numbers (default: false)
- * @throws Throws error if value is invalid
+ * @throws ValidationError if value is invalid
  *
  * @example
  * ```typescript
@@ -81,32 +81,37 @@ export function validateHexValue(
 
   // Validate hexadecimal format
   if (!isValidHex(valueToCheck)) {
-    throw new Error(
-      `Invalid ${fieldName} format: ${hexValue}\n` +
-      `Must be a valid hexadecimal string (e.g., "0x3e8" or "3e8")`
+    throw new ValidationError(
+      `Invalid ${fieldName} format: ${hexValue} (expected a hexadecimal string, e.g. "0x3e8")`,
+      fieldName,
+      hexValue
     );
   }
 
   // Check negative restriction
   if (isNegative && !allowNegative) {
-    throw new Error(`${fieldName} cannot be negative: ${hexValue}`);
+    throw new ValidationError(`${fieldName} cannot be negative: ${hexValue}`, fieldName, hexValue);
   }
 
   // Validate value range (try converting to BigInt)
+  let value: bigint;
   try {
-    const value = BigInt(hexValue);
-
-    // If negative not allowed, check converted value again
-    if (!allowNegative && value < 0n) {
-      throw new Error(`${fieldName} cannot be negative: ${hexValue} (value: ${value})`);
-    }
+    value = BigInt(hexValue);
   } catch (error) {
-    if (error instanceof Error && error.message.includes('cannot be negative')) {
-      throw error; // Re-throw our own error
-    }
-    throw new Error(
-      `${fieldName} out of valid range: ${hexValue}\n` +
-      `Details: ${error instanceof Error ? error.message : String(error)}`
+    throw new ValidationError(
+      `${fieldName} out of valid range: ${hexValue} (${error instanceof Error ? error.message : String(error)})`,
+      fieldName,
+      hexValue,
+      { cause: error }
+    );
+  }
+
+  // If negative not allowed, check converted value again
+  if (!allowNegative && value < 0n) {
+    throw new ValidationError(
+      `${fieldName} cannot be negative: ${hexValue} (value: ${value})`,
+      fieldName,
+      hexValue
     );
   }
 }
@@ -116,7 +121,8 @@ export function validateHexValue(
  *
  * @param validAfter - Effective time (hexadecimal string)
  * @param validBefore - Expiration time (hexadecimal string)
- * @throws Throws error if time range is invalid
+ * @param logger - Logger for non-fatal warnings (optional, defaults to silent)
+ * @throws ValidationError if time range is invalid
  *
  * @example
  * ```typescript
@@ -124,7 +130,11 @@ export function validateHexValue(
  * validateTimestamps("0x67890abc", "0x0")     // Throws error: validBefore must be greater than validAfter
  * ```
  */
-export function validateTimestamps(validAfter: string, validBefore: string): void {
+export function validateTimestamps(
+  validAfter: string,
+  validBefore: string,
+  logger: Logger = silentLogger
+): void {
   // Validate format first
   validateHexValue(validAfter, 'validAfter');
   validateHexValue(validBefore, 'validBefore');
@@ -135,9 +145,10 @@ export function validateTimestamps(validAfter: string, validBefore: string): voi
 
   // Validate time range logic
   if (beforeValue <= afterValue) {
-    throw new Error(
-      `Invalid time range: validBefore (${validBefore}) must be greater than validAfter (${validAfter})\n` +
-      `Current: validAfter=${afterValue}, validBefore=${beforeValue}`
+    throw new ValidationError(
+      `Invalid time range: validBefore (${validBefore}) must be greater than validAfter (${validAfter})`,
+      'validBefore',
+      validBefore
     );
   }
 
@@ -147,10 +158,10 @@ export function validateTimestamps(validAfter: string, validBefore: string): voi
     const maxFutureTimestamp = currentTimestamp + 86400n; // Max 24 hours ahead
 
     if (afterValue > maxFutureTimestamp) {
-      console.warn(
-        `⚠️  Warning: validAfter (${afterValue}) is set in the distant future (current: ${currentTimestamp})\n` +
-        `   This may cause the signature to be unusable in the short term`
-      );
+      logger.warn('validAfter is set in the distant future, signature may be unusable in the short term', {
+        validAfter: afterValue,
+        currentTimestamp,
+      });
     }
   }
 
@@ -159,10 +170,10 @@ export function validateTimestamps(validAfter: string, validBefore: string): voi
   const minTimeWindow = 300n; // Minimum 5 minutes
 
   if (timeWindow < minTimeWindow) {
-    console.warn(
-      `⚠️  Warning: Validity window is short (${timeWindow} seconds)\n` +
-      `   Recommended to set at least ${minTimeWindow} seconds to avoid signature expiring before use`
-    );
+    logger.warn('Validity window is short, signature may expire before use', {
+      timeWindowSeconds: timeWindow,
+      recommendedSeconds: minTimeWindow,
+    });
   }
 }
 
@@ -170,7 +181,8 @@ export function validateTimestamps(validAfter: string, validBefore: string): voi
  * Validate nonce value
  *
  * @param nonce - Nonce value (hexadecimal string)
- * @throws Throws error if nonce is invalid
+ * @param logger - Logger for non-fatal warnings (optional, defaults to silent)
+ * @throws ValidationError if nonce is invalid
  *
  * @example
  * ```typescript
@@ -178,16 +190,13 @@ export function validateTimestamps(validAfter: string, validBefore: string): voi
  * validateNonce("0xGGG")               // Throws error
  * ```
  */
-export function validateNonce(nonce: string): void {
+export function validateNonce(nonce: string, logger: Logger = silentLogger): void {
   validateHexValue(nonce, 'nonce');
 
   // Validate nonce cannot be 0 (optional, based on business requirements)
   const nonceValue = BigInt(nonce);
   if (nonceValue === 0n) {
-    console.warn(
-      `⚠️  Warning: nonce value is 0\n` +
-      `   Please ensure this is intentional. Recommend using randomly generated nonce for better security`
-    );
+    logger.warn('nonce value is 0, a randomly generated nonce is recommended');
   }
 }
 
@@ -195,7 +204,7 @@ export function validateNonce(nonce: string): void {
  * Validate vault ID
  *
  * @param vaultId - Wallet ID
- * @throws Throws error if vault ID is invalid
+ * @throws ValidationError if vault ID is invalid
  *
  * @example
  * ```typescript
@@ -206,9 +215,10 @@ export function validateNonce(nonce: string): void {
  */
 export function validateVaultId(vaultId: bigint): void {
   if (vaultId <= 0n) {
-    throw new Error(
-      `Invalid Vault ID: ${vaultId}\n` +
-      `Vault ID must be a positive integer greater than 0`
+    throw new ValidationError(
+      `Invalid Vault ID: ${vaultId} (must be a positive integer greater than 0)`,
+      'vaultId',
+      vaultId
     );
   }
 }
@@ -218,7 +228,8 @@ export function validateVaultId(vaultId: bigint): void {
  *
  * @param contractAddress - Contract address
  * @param fieldName - Field name (default: "contract address")
- * @throws Throws error if contract address is invalid
+ * @param logger - Logger for non-fatal warnings (optional, defaults to silent)
+ * @throws ValidationError if contract address is invalid
  *
  * @example
  * ```typescript
@@ -228,17 +239,17 @@ export function validateVaultId(vaultId: bigint): void {
  */
 export function validateContractAddress(
   contractAddress: string,
-  fieldName: string = 'contract address'
+  fieldName: string = 'contract address',
+  logger: Logger = silentLogger
 ): void {
   // Use Ethereum address validation
   validateEthereumAddress(contractAddress, fieldName);
 
   // Check if it's the zero address (0x0000...0000)
   if (contractAddress.toLowerCase() === '0x0000000000000000000000000000000000000000') {
-    console.warn(
-      `⚠️  Warning: ${fieldName} is zero address (0x0000000000000000000000000000000000000000)\n` +
-      `   This may indicate a native token (like ETH). Please confirm this is intentional`
-    );
+    logger.warn(`${fieldName} is zero address, this may indicate a native token (like ETH)`, {
+      field: fieldName,
+    });
   }
 }
 
@@ -246,7 +257,7 @@ export function validateContractAddress(
  * Validate domain chain ID
  *
  * @param domainChainId - Chain ID (hexadecimal string)
- * @throws Throws error if chain ID is invalid
+ * @throws ValidationError if chain ID is invalid
  *
  * @example
  * ```typescript
@@ -266,9 +277,10 @@ export function validateDomainChainId(domainChainId: string): void {
   // Validate chain ID cannot be 0
   const chainIdValue = BigInt(domainChainId);
   if (chainIdValue === 0n) {
-    throw new Error(
-      `Invalid domainChainId: ${domainChainId}\n` +
-      `Chain ID cannot be 0`
+    throw new ValidationError(
+      `Invalid domainChainId: ${domainChainId} (Chain ID cannot be 0)`,
+      'domainChainId',
+      domainChainId
     );
   }
 }
@@ -278,7 +290,8 @@ export function validateDomainChainId(domainChainId: string): void {
  *
  * @param domainName - Domain name (e.g., "USDC")
  * @param domainVersion - Domain version (e.g., "2")
- * @throws Throws error if parameters are invalid
+ * @param logger - Logger for non-fatal warnings (optional, defaults to silent)
+ * @throws ValidationError if parameters are invalid
  *
  * @example
  * ```typescript
@@ -286,23 +299,24 @@ export function validateDomainChainId(domainChainId: string): void {
  * validateDomainParams("", "2")      // Throws error: domainName cannot be empty
  * ```
  */
-export function validateDomainParams(domainName: string, domainVersion: string): void {
+export function validateDomainParams(
+  domainName: string,
+  domainVersion: string,
+  logger: Logger = silentLogger
+): void {
   // Validate domainName cannot be empty
   if (!domainName || domainName.trim() === '') {
-    throw new Error(`domainName cannot be empty`);
+    throw new ValidationError(`domainName cannot be empty`, 'domainName', domainName);
   }
 
   // Validate domainVersion cannot be empty
   if (!domainVersion || domainVersion.trim() === '') {
-    throw new Error(`domainVersion cannot be empty`);
+    throw new ValidationError(`domainVersion cannot be empty`, 'domainVersion', domainVersion);
   }
 
   // Optional: Validate version format (usually numeric)
   if (!/^\d+$/.test(domainVersion)) {
-    console.warn(
-      `⚠️  Warning: domainVersion "${domainVersion}" is not purely numeric\n` +
-      `   Common version formats are "1", "2", etc. Please confirm this is the intended format`
-    );
+    logger.warn('domainVersion is not purely numeric (common formats are "1", "2")', { domainVersion });
   }
 }
 
@@ -312,7 +326,8 @@ export function validateDomainParams(domainName: string, domainVersion: string):
  * This is a convenience function to validate all signature request parameters at once
  *
  * @param params - Signature request parameters object
- * @throws Throws detailed error if any parameter is invalid
+ * @param logger - Logger for non-fatal warnings (optional, defaults to silent)
+ * @throws ValidationError if any parameter is invalid (field identifies the parameter)
  *
  * @example
  * ```typescript
@@ -347,7 +362,10 @@ export interface SignRequestParamsForValidation {
   domainVersion: string;
 }
 
-export function validateSignRequestParams(params: SignRequestParamsForValidation): void {
+export function validateSignRequestParams(
+  params: SignRequestParamsForValidation,
+  logger: Logger = silentLogger
+): void {
   // Validate Vault ID
   validateVaultId(params.vaultId);
 
@@ -358,17 +376,17 @@ export function validateSignRequestParams(params: SignRequestParamsForValidation
   validateHexValue(params.value, 'transfer amount (value)');
 
   // Validate timestamps
-  validateTimestamps(params.validAfter, params.validBefore);
+  validateTimestamps(params.validAfter, params.validBefore, logger);
 
   // Validate nonce
-  validateNonce(params.nonce);
+  validateNonce(params.nonce, logger);
 
   // Validate contract address
-  validateContractAddress(params.verifyingContract, 'verifying contract address (verifyingContract)');
+  validateContractAddress(params.verifyingContract, 'verifying contract address (verifyingContract)', logger);
 
   // Validate chain ID
   validateDomainChainId(params.domainChainId);
 
   // Validate domain parameters
-  validateDomainParams(params.domainName, params.domainVersion);
+  validateDomainParams(params.domainName, params.domainVersion, logger);
 }
\ No newline at end of file
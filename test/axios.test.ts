@@ -0,0 +1,108 @@
+/**
+ * X402 Axios Interceptor Tests
+ *
+ * Requests go through a stub adapter; the bot only needs createPaymentHeader and getProfile.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios, { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import type { CreatePaymentHeaderParams, X402MultiSig } from '../src/client.js';
+import { PaymentRequiredError } from '../src/errors.js';
+import { withPaymentInterceptor } from '../src/payment/axios.js';
+
+const USDC_BASE_SEPOLIA = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+function paymentRequired(network: string): object {
+  return {
+    x402Version: 1,
+    accepts: [{
+      scheme: 'exact',
+      network,
+      maxAmountRequired: '1000',
+      resource: 'https://api.example.com/weather',
+      description: 'Weather',
+      mimeType: 'application/json',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 300,
+      asset: USDC_BASE_SEPOLIA,
+    }],
+  };
+}
+
+/**
+ * Stub adapter answering 402 with the given body until an X-PAYMENT header is sent
+ */
+function paywall(body: object, requests: InternalAxiosRequestConfig[]): AxiosAdapter {
+  return async (config) => {
+    requests.push(config);
+    const paid = config.headers.has('X-PAYMENT');
+    const response: AxiosResponse = {
+      data: paid ? { weather: 'sunny' } : body,
+      status: paid ? 200 : 402,
+      statusText: paid ? 'OK' : 'Payment Required',
+      headers: {},
+      config,
+    };
+    if (!paid) {
+      throw new AxiosError('Request failed with status code 402', AxiosError.ERR_BAD_REQUEST, config, null, response);
+    }
+    return response;
+  };
+}
+
+function fakeBot(payments: CreatePaymentHeaderParams[]): X402MultiSig {
+  return {
+    getProfile: () => undefined,
+    createPaymentHeader: async (params: CreatePaymentHeaderParams) => {
+      payments.push(params);
+      return { paymentHeader: 'signed-header', requestId: 7n, authorization: {} };
+    },
+  } as unknown as X402MultiSig;
+}
+
+describe('withPaymentInterceptor', () => {
+  it('pays a 402 response and replays the request with the payment header', async () => {
+    const requests: InternalAxiosRequestConfig[] = [];
+    const payments: CreatePaymentHeaderParams[] = [];
+    const client = withPaymentInterceptor(
+      axios.create({ adapter: paywall(paymentRequired('base-sepolia'), requests) }),
+      fakeBot(payments),
+      { vaultId: 1n }
+    );
+
+    const { data } = await client.post('https://api.example.com/weather', { city: 'Berlin' });
+
+    assert.deepEqual(data, { weather: 'sunny' });
+    assert.equal(payments.length, 1);
+    assert.equal(payments[0].paymentRequirements.network, 'base-sepolia');
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].headers.get('X-PAYMENT'), 'signed-header');
+    assert.equal(requests[1].data, JSON.stringify({ city: 'Berlin' }));
+  });
+
+  it('rejects with the original AxiosError when no requirement can be paid', async () => {
+    const payments: CreatePaymentHeaderParams[] = [];
+    const client = withPaymentInterceptor(
+      axios.create({ adapter: paywall(paymentRequired('ethereum'), []) }),
+      fakeBot(payments),
+      { vaultId: 1n }
+    );
+
+    await assert.rejects(
+      client.get('https://api.example.com/weather'),
+      (error: unknown) => error instanceof AxiosError && error.response?.status === 402
+    );
+    assert.equal(payments.length, 0);
+  });
+
+  it('rejects with PaymentRequiredError when throwOnUnpayable is set', async () => {
+    const client = withPaymentInterceptor(
+      axios.create({ adapter: paywall(paymentRequired('ethereum'), []) }),
+      fakeBot([]),
+      { vaultId: 1n, throwOnUnpayable: true }
+    );
+
+    await assert.rejects(client.get('https://api.example.com/weather'), PaymentRequiredError);
+  });
+});
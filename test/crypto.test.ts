@@ -0,0 +1,112 @@
+/**
+ * Identity Key Encryption Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CorruptIdentityError, ValidationError } from '../src/errors.js';
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  isEncryptedKeyData,
+  resolvePassphrase,
+  type EncryptedKeyData,
+} from '../src/identity/crypto.js';
+
+describe('encryptWithPassphrase / decryptWithPassphrase', () => {
+  it('round-trips with the same passphrase', async () => {
+    const encrypted = await encryptWithPassphrase('["key","data"]', 'correct horse');
+
+    assert.equal(encrypted.version, 1);
+    assert.deepEqual({ ...encrypted.kdfParams, salt: undefined }, { N: 2 ** 15, r: 8, p: 1, salt: undefined });
+    assert.equal(await decryptWithPassphrase(encrypted, 'correct horse'), '["key","data"]');
+  });
+
+  it('uses a random salt and IV', async () => {
+    const first = await encryptWithPassphrase('data', 'passphrase');
+    const second = await encryptWithPassphrase('data', 'passphrase');
+
+    assert.notEqual(first.kdfParams.salt, second.kdfParams.salt);
+    assert.notEqual(first.iv, second.iv);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const encrypted = await encryptWithPassphrase('data', 'passphrase');
+
+    await assert.rejects(decryptWithPassphrase(encrypted, 'wrong'));
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const encrypted = await encryptWithPassphrase('data', 'passphrase');
+    const ciphertext = Buffer.from(encrypted.ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+
+    await assert.rejects(decryptWithPassphrase({ ...encrypted, ciphertext: ciphertext.toString('base64') }, 'passphrase'));
+  });
+
+  it('rejects truncated authentication tags', async () => {
+    const encrypted = await encryptWithPassphrase('data', 'passphrase');
+    const authTag = Buffer.from(encrypted.authTag, 'base64').subarray(0, 4).toString('base64');
+
+    await assert.rejects(
+      decryptWithPassphrase({ ...encrypted, authTag }, 'passphrase', 'bot'),
+      (error: unknown) => error instanceof CorruptIdentityError && /authentication tag length: 4 bytes/.test(error.message)
+    );
+  });
+
+  it('rejects newer envelope versions', async () => {
+    const encrypted = await encryptWithPassphrase('data', 'passphrase');
+
+    await assert.rejects(decryptWithPassphrase({ ...encrypted, version: 2 }, 'passphrase'), /Unsupported encrypted key version/);
+  });
+
+  describe('scrypt parameter bounds', () => {
+    const invalid: Array<[string, Partial<EncryptedKeyData['kdfParams']>]> = [
+      ['N above 2^18', { N: 2 ** 19 }],
+      ['N not a power of two', { N: 3000 }],
+      ['r above 8', { r: 9 }],
+      ['p above 4', { p: 5 }],
+      ['p below 1', { p: 0 }],
+    ];
+
+    for (const [description, params] of invalid) {
+      it(`throws CorruptIdentityError for ${description}`, async () => {
+        const encrypted = await encryptWithPassphrase('data', 'passphrase');
+
+        await assert.rejects(
+          decryptWithPassphrase({ ...encrypted, kdfParams: { ...encrypted.kdfParams, ...params } }, 'passphrase', 'bot'),
+          (error: unknown) => error instanceof CorruptIdentityError && error.identityName === 'bot'
+        );
+      });
+    }
+  });
+});
+
+describe('isEncryptedKeyData', () => {
+  it('recognizes encrypted envelopes only', async () => {
+    assert.equal(isEncryptedKeyData(await encryptWithPassphrase('data', 'passphrase')), true);
+    assert.equal(isEncryptedKeyData(['public', 'secret']), false);
+    assert.equal(isEncryptedKeyData(null), false);
+    assert.equal(isEncryptedKeyData({ version: 1, kdf: 'pbkdf2', cipher: 'aes-256-gcm', ciphertext: '' }), false);
+  });
+});
+
+describe('resolvePassphrase', () => {
+  it('returns a fixed passphrase or calls the callback with the request', async () => {
+    const requests: unknown[] = [];
+
+    assert.equal(await resolvePassphrase('fixed', { identityName: 'bot', purpose: 'decrypt' }), 'fixed');
+    assert.equal(
+      await resolvePassphrase(async (request) => {
+        requests.push(request);
+        return 'from callback';
+      }, { identityName: 'bot', purpose: 'encrypt' }),
+      'from callback'
+    );
+    assert.deepEqual(requests, [{ identityName: 'bot', purpose: 'encrypt' }]);
+  });
+
+  it('rejects an empty passphrase', async () => {
+    await assert.rejects(resolvePassphrase(() => '', { identityName: 'bot', purpose: 'decrypt' }), ValidationError);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * X402 Fetch Wrapper Tests
+ *
+ * The underlying fetch is a stub paywall; the bot only needs createPaymentHeader and getProfile.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CreatePaymentHeaderParams, X402MultiSig } from '../src/client.js';
+import { PaymentRequiredError } from '../src/errors.js';
+import { wrapFetch, type FetchFunction, type FetchPaymentInfo } from '../src/payment/fetch.js';
+
+const USDC_BASE_SEPOLIA = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+function paymentRequired(network: string): string {
+  return JSON.stringify({
+    x402Version: 1,
+    accepts: [{
+      scheme: 'exact',
+      network,
+      maxAmountRequired: '1000',
+      resource: 'https://api.example.com/weather',
+      description: 'Weather',
+      mimeType: 'application/json',
+      payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+      maxTimeoutSeconds: 300,
+      asset: USDC_BASE_SEPOLIA,
+    }],
+  });
+}
+
+interface Paywall {
+  fetch: FetchFunction;
+  /** Requests received, with their body read as text */
+  requests: Array<{ request: Request; body: string }>;
+  /** 402 responses sent */
+  responses: Response[];
+}
+
+/**
+ * Stub fetch answering with the given body until the payment header signed by fakeBot is sent
+ */
+function paywall(body: string, status = 402): Paywall {
+  const requests: Paywall['requests'] = [];
+  const responses: Response[] = [];
+  return {
+    requests,
+    responses,
+    fetch: async (input) => {
+      const request = input as Request;
+      requests.push({ request, body: await request.text() });
+      if (request.headers.get('x-payment') === 'signed-header') {
+        return new Response('{"weather":"sunny"}', { status: 200 });
+      }
+      const response = new Response(body, { status });
+      responses.push(response);
+      return response;
+    },
+  };
+}
+
+function fakeBot(payments: CreatePaymentHeaderParams[]): X402MultiSig {
+  return {
+    getProfile: () => undefined,
+    createPaymentHeader: async (params: CreatePaymentHeaderParams) => {
+      payments.push(params);
+      return { paymentHeader: 'signed-header', requestId: 7n, authorization: {} };
+    },
+  } as unknown as X402MultiSig;
+}
+
+describe('wrapFetch', () => {
+  it('passes responses other than 402 through', async () => {
+    const server = paywall('not found', 404);
+    const payments: CreatePaymentHeaderParams[] = [];
+
+    const response = await wrapFetch(fakeBot(payments), { vaultId: 1n }, server.fetch)('https://api.example.com/missing');
+
+    assert.equal(response.status, 404);
+    assert.equal(await response.text(), 'not found');
+    assert.equal(payments.length, 0);
+  });
+
+  it('pays a 402 response and replays the request body with the x-payment header', async () => {
+    const server = paywall(paymentRequired('base-sepolia'));
+    const payments: CreatePaymentHeaderParams[] = [];
+    const paid: FetchPaymentInfo[] = [];
+
+    const response = await wrapFetch(
+      fakeBot(payments),
+      { vaultId: 1n, onPayment: (payment) => { paid.push(payment); } },
+      server.fetch
+    )('https://api.example.com/weather', { method: 'POST', body: '{"city":"Berlin"}' });
+
+    assert.equal(response.status, 200);
+    assert.equal(payments.length, 1);
+    assert.equal(payments[0].vaultId, 1n);
+    assert.equal(payments[0].paymentRequirements.network, 'base-sepolia');
+    assert.equal(paid[0].url, 'https://api.example.com/weather');
+    assert.equal(server.requests.length, 2);
+    assert.equal(server.requests[1].request.headers.get('x-payment'), 'signed-header');
+    assert.equal(server.requests[1].request.method, 'POST');
+    assert.equal(server.requests[1].body, '{"city":"Berlin"}');
+    // The original 402 body is cancelled rather than left open
+    assert.equal(server.responses[0].bodyUsed, true);
+  });
+
+  it('does not pay requests that already carry an x-payment header', async () => {
+    const server = paywall(paymentRequired('base-sepolia'));
+    const payments: CreatePaymentHeaderParams[] = [];
+
+    const response = await wrapFetch(fakeBot(payments), { vaultId: 1n }, server.fetch)(
+      'https://api.example.com/weather',
+      { headers: { 'x-payment': 'rejected-header' } }
+    );
+
+    assert.equal(response.status, 402);
+    assert.equal(payments.length, 0);
+  });
+
+  it('returns a 402 response that cannot be paid with its body', async () => {
+    const server = paywall(paymentRequired('ethereum'));
+    const payments: CreatePaymentHeaderParams[] = [];
+
+    const response = await wrapFetch(fakeBot(payments), { vaultId: 1n }, server.fetch)('https://api.example.com/weather');
+
+    assert.equal(response.status, 402);
+    assert.equal(JSON.parse(await response.text()).accepts[0].network, 'ethereum');
+    assert.equal(payments.length, 0);
+  });
+
+  it('throws PaymentRequiredError for an unpayable 402 when throwOnUnpayable is set', async () => {
+    for (const body of [paymentRequired('ethereum'), '<html>Payment Required</html>']) {
+      const fetchWithPayment = wrapFetch(fakeBot([]), { vaultId: 1n, throwOnUnpayable: true }, paywall(body).fetch);
+
+      await assert.rejects(fetchWithPayment('https://api.example.com/weather'), PaymentRequiredError);
+    }
+  });
+});
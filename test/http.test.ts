@@ -0,0 +1,181 @@
+/**
+ * Paid Service HTTP Request Tests
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { X402MultiSig, type PaymentRequirements } from '../src/client.js';
+import {
+  DEFAULT_USER_AGENT,
+  PAYMENT_RESPONSE_HEADER,
+  buildPaidServiceRequestInit,
+  buildPaidServiceUrl,
+  decodePaymentResponseHeader,
+  readPaidServiceResponse,
+} from '../src/payment/http.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+const SETTLEMENT = {
+  success: true,
+  transaction: '0x5c6b4ed3a3bb1f2d9b3fa4c1d0a3e0f4c8f1e2d3a4b5c6d7e8f9a0b1c2d3e4f5',
+  network: 'base-sepolia',
+  payer: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d',
+};
+
+function encodeSettlement(settlement: object): string {
+  return Buffer.from(JSON.stringify(settlement)).toString('base64');
+}
+
+describe('buildPaidServiceUrl', () => {
+  it('appends query parameters and skips undefined values', () => {
+    assert.equal(
+      buildPaidServiceUrl('https://api.example.com/weather?units=metric', {
+        city: 'São Paulo',
+        days: 3,
+        hourly: false,
+        lang: undefined,
+      }),
+      'https://api.example.com/weather?units=metric&city=S%C3%A3o+Paulo&days=3&hourly=false'
+    );
+    assert.equal(buildPaidServiceUrl('https://api.example.com/weather'), 'https://api.example.com/weather');
+  });
+});
+
+describe('buildPaidServiceRequestInit', () => {
+  it('defaults to a GET request with the SDK user agent', () => {
+    const init = buildPaidServiceRequestInit({});
+    const headers = init.headers as Headers;
+
+    assert.equal(init.method, 'GET');
+    assert.equal(headers.get('User-Agent'), DEFAULT_USER_AGENT);
+    assert.equal(headers.has('x-payment'), false);
+    assert.equal(init.body, undefined);
+  });
+
+  it('serializes plain objects and arrays as JSON', () => {
+    for (const body of [{ city: 'Berlin' }, [1, 2], Object.assign(Object.create(null), { city: 'Berlin' })]) {
+      const init = buildPaidServiceRequestInit({ method: 'post', body });
+
+      assert.equal(init.method, 'POST');
+      assert.equal(init.body, JSON.stringify(body));
+      assert.equal((init.headers as Headers).get('Content-Type'), 'application/json');
+    }
+  });
+
+  it('sends other bodies as-is and keeps caller headers', () => {
+    const form = new URLSearchParams({ city: 'Berlin' });
+    const init = buildPaidServiceRequestInit(
+      { method: 'PUT', body: form, headers: { 'User-Agent': 'weather-bot', 'Content-Type': 'text/plain' } },
+      'signed-header'
+    );
+    const headers = init.headers as Headers;
+
+    assert.equal(init.body, form);
+    assert.equal(headers.get('User-Agent'), 'weather-bot');
+    assert.equal(headers.get('Content-Type'), 'text/plain');
+    assert.equal(headers.get('x-payment'), 'signed-header');
+  });
+
+  it('builds a fresh init for every call', () => {
+    const options = { headers: { Accept: 'application/json' } };
+
+    buildPaidServiceRequestInit(options, 'signed-header');
+
+    assert.equal((buildPaidServiceRequestInit(options).headers as Headers).has('x-payment'), false);
+  });
+});
+
+describe('readPaidServiceResponse', () => {
+  it('reads the body in the requested format', async () => {
+    const body = () => new Response('{"weather":"sunny"}');
+
+    assert.deepEqual(await readPaidServiceResponse(body()), { weather: 'sunny' });
+    assert.equal(await readPaidServiceResponse(body(), 'text'), '{"weather":"sunny"}');
+    assert.equal((await readPaidServiceResponse(body(), 'arrayBuffer')).byteLength, 19);
+    assert.equal(await (await readPaidServiceResponse(body(), 'blob')).text(), '{"weather":"sunny"}');
+    assert.ok((await readPaidServiceResponse(body(), 'stream')) instanceof ReadableStream);
+
+    const response = body();
+    assert.equal(await readPaidServiceResponse(response, 'response'), response);
+    assert.equal(response.bodyUsed, false);
+  });
+});
+
+describe('decodePaymentResponseHeader', () => {
+  it('decodes the base64 JSON settlement receipt', () => {
+    assert.deepEqual(decodePaymentResponseHeader(encodeSettlement(SETTLEMENT)), SETTLEMENT);
+  });
+
+  it('returns undefined for malformed headers', () => {
+    assert.equal(decodePaymentResponseHeader('not base64 json'), undefined);
+    assert.equal(decodePaymentResponseHeader(encodeSettlement({ success: true })), undefined);
+    assert.equal(decodePaymentResponseHeader(encodeSettlement([1, 2])), undefined);
+  });
+});
+
+describe('callPaidServiceWithReceipt', () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '1000',
+    resource: 'https://api.example.com/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 300,
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    domainChainId: '0x14a34',
+    extra: { name: 'USDC', version: '2' },
+  };
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function paidBot(): X402MultiSig {
+    const bot = new (X402MultiSig as any)(Ed25519KeyIdentity.generate(), {}, {}, { logger: silentLogger }) as X402MultiSig;
+    bot.createPaymentHeader = async () => ({ paymentHeader: 'signed-header', requestId: 7n, authorization: {} as any });
+    return bot;
+  }
+
+  it('returns the settlement receipt with the request ID that paid for it', async () => {
+    mock.method(globalThis, 'fetch', async () => new Response('{"weather":"sunny"}', {
+      headers: { [PAYMENT_RESPONSE_HEADER]: encodeSettlement(SETTLEMENT) },
+    }));
+
+    const result = await paidBot().callPaidServiceWithReceipt({
+      vaultId: 1n,
+      paymentRequirements,
+      apiUrl: 'https://api.example.com/weather',
+    });
+
+    assert.deepEqual(result.body, { weather: 'sunny' });
+    assert.deepEqual(result.settlement, SETTLEMENT);
+    assert.equal(result.requestId, 7n);
+    assert.equal(result.paymentHeader, 'signed-header');
+  });
+
+  it('leaves the settlement undefined when the header is malformed', async () => {
+    mock.method(globalThis, 'fetch', async () => new Response('{}', { headers: { [PAYMENT_RESPONSE_HEADER]: '!!' } }));
+
+    const result = await paidBot().callPaidServiceWithReceipt({
+      vaultId: 1n,
+      paymentRequirements,
+      apiUrl: 'https://api.example.com/weather',
+    });
+
+    assert.equal(result.settlement, undefined);
+    assert.equal(result.requestId, 7n);
+  });
+
+  it('returns the response of a service that does not require payment without a receipt', async () => {
+    mock.method(globalThis, 'fetch', async () => new Response('free', { status: 200 }));
+
+    const result = await paidBot().callPaidServiceWithReceipt({ apiUrl: 'https://api.example.com/free', responseType: 'text' });
+
+    assert.equal(result.body, 'free');
+    assert.equal(result.settlement, undefined);
+    assert.equal(result.requestId, undefined);
+  });
+});
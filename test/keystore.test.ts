@@ -0,0 +1,284 @@
+/**
+ * Key Store Tests
+ *
+ * Each FileKeyStore test uses its own temporary identity directory.
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { CorruptIdentityError, ValidationError, X402MultiSigError } from '../src/errors.js';
+import {
+  EnvKeyStore,
+  FileKeyStore,
+  MemoryKeyStore,
+  parseIdentityStorageData,
+  RemoteKeyStore,
+} from '../src/identity/keystore.js';
+import type { IdentityStorageData } from '../src/identity/manager.js';
+
+function record(username: string): IdentityStorageData {
+  const identity = Ed25519KeyIdentity.generate();
+  const now = new Date().toISOString();
+  return {
+    keyData: identity.toJSON(),
+    principal: identity.getPrincipal().toText(),
+    username,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('FileKeyStore', () => {
+  let dir: string;
+  let store: FileKeyStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'x402-keystore-'));
+    store = new FileKeyStore(dir, { lockTimeoutMs: 500, staleLockMs: 300 });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes records with 0600 permissions and lists them', { skip: process.platform === 'win32' }, async () => {
+    await store.write('bot', record('alice'));
+
+    assert.equal((await fs.stat(path.join(dir, 'bot.json'))).mode & 0o777, 0o600);
+    assert.equal((await store.read('bot'))?.username, 'alice');
+    assert.deepEqual(await store.list(), ['bot']);
+    assert.equal(await store.read('missing'), undefined);
+  });
+
+  describe('create', () => {
+    it('creates a record only if it does not exist', async () => {
+      assert.equal(await store.create('bot', record('alice')), true);
+      assert.equal(await store.create('bot', record('bob')), false);
+
+      assert.equal((await store.read('bot'))?.username, 'alice');
+      assert.deepEqual((await fs.readdir(dir)).sort(), ['bot.json']);
+    });
+
+    it('lets exactly one of several concurrent creations win', async () => {
+      const results = await Promise.all(['a', 'b', 'c', 'd'].map(username => store.create('bot', record(username))));
+
+      assert.equal(results.filter(Boolean).length, 1);
+      assert.equal((await store.read('bot'))?.username, ['a', 'b', 'c', 'd'][results.indexOf(true)]);
+    });
+  });
+
+  describe('lock', () => {
+    it('serializes holders of the same identity lock', async () => {
+      const events: string[] = [];
+      const hold = async (id: string) => {
+        const release = await store.lock('bot');
+        events.push(`${id} acquired`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`${id} released`);
+        await release();
+      };
+
+      await Promise.all([hold('first'), hold('second')]);
+
+      assert.deepEqual(events.map(event => event.split(' ')[1]), ['acquired', 'released', 'acquired', 'released']);
+      await assert.rejects(fs.access(path.join(dir, 'bot.json.lock')));
+    });
+
+    it('times out while another holder keeps the lock fresh', async () => {
+      const release = await store.lock('bot');
+      try {
+        await assert.rejects(store.lock('bot'), (error: unknown) =>
+          error instanceof X402MultiSigError && /Timed out after 500ms/.test(error.message));
+      } finally {
+        await release();
+      }
+    });
+
+    it('takes over a stale lock left by a crashed process', async () => {
+      const lockPath = path.join(dir, 'bot.json.lock');
+      await fs.writeFile(lockPath, 'crashed\n');
+      const past = new Date(Date.now() - 1_000);
+      await fs.utimes(lockPath, past, past);
+
+      const release = await store.lock('bot');
+
+      assert.notEqual(await fs.readFile(lockPath, 'utf-8'), 'crashed\n');
+      await release();
+      await assert.rejects(fs.access(lockPath));
+    });
+
+    it('does not remove a lock it no longer owns', async () => {
+      const lockPath = path.join(dir, 'bot.json.lock');
+      const release = await store.lock('bot');
+      await fs.writeFile(lockPath, 'other owner\n');
+
+      await release();
+
+      assert.equal(await fs.readFile(lockPath, 'utf-8'), 'other owner\n');
+    });
+  });
+
+  describe('backup and recovery', () => {
+    it('keeps the previous record as .bak and restores it when the record is corrupt', async () => {
+      await store.write('bot', record('first'));
+      await store.write('bot', record('second'));
+      assert.equal(JSON.parse(await fs.readFile(path.join(dir, 'bot.json.bak'), 'utf-8')).username, 'first');
+
+      await fs.writeFile(path.join(dir, 'bot.json'), '{"principal":');
+      await assert.rejects(store.read('bot'), CorruptIdentityError);
+
+      assert.equal(await store.recover('bot'), true);
+      assert.equal((await store.read('bot'))?.username, 'first');
+      assert.equal((await fs.readdir(dir)).filter(file => file.startsWith('bot.json.corrupt-')).length, 1);
+    });
+
+    it('never replaces the backup with a corrupt record', async () => {
+      await store.write('bot', record('first'));
+      await store.write('bot', record('second'));
+      await fs.writeFile(path.join(dir, 'bot.json'), '');
+
+      await store.write('bot', record('third'));
+
+      assert.equal(JSON.parse(await fs.readFile(path.join(dir, 'bot.json.bak'), 'utf-8')).username, 'first');
+    });
+
+    it('reports when no usable backup exists', async () => {
+      await store.write('bot', record('first'));
+      await fs.writeFile(path.join(dir, 'bot.json'), 'garbage');
+
+      assert.equal(await store.recover('bot'), false);
+      assert.equal(await store.read('bot'), undefined);
+    });
+
+    it('removes the backup with the record', async () => {
+      await store.write('bot', record('first'));
+      await store.write('bot', record('second'));
+
+      assert.equal(await store.delete('bot'), true);
+      assert.equal(await store.delete('bot'), false);
+      assert.deepEqual(await fs.readdir(dir), []);
+    });
+  });
+
+  it('rejects writes when read-only', async () => {
+    const readOnly = new FileKeyStore(dir, { readOnly: true });
+
+    await assert.rejects(readOnly.write('bot', record('alice')), /read-only/);
+    await assert.rejects(readOnly.create('bot', record('alice')), /read-only/);
+    await (await readOnly.lock('bot'))();
+    assert.deepEqual(await fs.readdir(dir), []);
+  });
+});
+
+describe('parseIdentityStorageData', () => {
+  it('accepts identity files and bare Ed25519 JSON keys', () => {
+    const file = record('alice');
+    assert.deepEqual(parseIdentityStorageData(JSON.stringify(file), 'bot'), file);
+
+    const identity = Ed25519KeyIdentity.generate();
+    const parsed = parseIdentityStorageData(JSON.stringify(identity.toJSON()), 'bot');
+    assert.deepEqual(parsed.keyData, identity.toJSON());
+    assert.equal(parsed.principal, identity.getPrincipal().toText());
+  });
+
+  it('rejects other content without echoing it', () => {
+    assert.throws(() => parseIdentityStorageData('secret-key-material', 'bot'), (error: unknown) =>
+      error instanceof ValidationError && !error.message.includes('secret-key-material'));
+    assert.throws(() => parseIdentityStorageData('{"principal":"aaaaa-aa"}', 'bot'), ValidationError);
+  });
+});
+
+describe('MemoryKeyStore', () => {
+  it('stores copies of the records', async () => {
+    const initial = record('alice');
+    const store = new MemoryKeyStore({ bot: initial });
+    initial.username = 'mallory';
+
+    const stored = await store.read('bot');
+    stored!.username = 'mallory';
+
+    assert.equal((await store.read('bot'))?.username, 'alice');
+    assert.equal(await store.create('bot', record('bob')), false);
+    assert.equal(await store.create('other', record('bob')), true);
+    assert.deepEqual(await store.list(), ['bot', 'other']);
+    assert.equal(await store.delete('bot'), true);
+    assert.equal(await store.read('bot'), undefined);
+  });
+});
+
+describe('EnvKeyStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'x402-keystore-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads records from variables, then from mounted files', async () => {
+    const secretPath = path.join(dir, 'secret.json');
+    await fs.writeFile(secretPath, JSON.stringify(record('from-file')));
+    const store = new EnvKeyStore({
+      env: {
+        X402_IDENTITY_TRADING_BOT: JSON.stringify(record('from-env')),
+        X402_IDENTITY_TRADING_BOT_FILE: secretPath,
+        X402_IDENTITY_MOUNTED_FILE: secretPath,
+        X402_IDENTITY_EMPTY: '',
+        OTHER: 'ignored',
+      },
+    });
+
+    assert.equal((await store.read('trading-bot'))?.username, 'from-env');
+    assert.equal((await store.read('mounted'))?.username, 'from-file');
+    assert.equal(await store.read('empty'), undefined);
+    assert.deepEqual((await store.list()).sort(), ['mounted', 'trading_bot']);
+    assert.equal(store.describe('trading-bot'), 'env:X402_IDENTITY_TRADING_BOT');
+  });
+
+  it('is read-only', async () => {
+    const store = new EnvKeyStore({ env: {} });
+
+    assert.equal(store.readOnly, true);
+    await assert.rejects(store.write('bot'), /read-only/);
+    await assert.rejects(store.delete('bot'), /read-only/);
+  });
+});
+
+describe('RemoteKeyStore', () => {
+  it('stores each record as a JSON secret under the prefix', async () => {
+    const secrets = new Map<string, string>([['unrelated', '{}']]);
+    const store = new RemoteKeyStore({
+      getSecret: async key => secrets.get(key),
+      setSecret: async (key, value) => {
+        secrets.set(key, value);
+      },
+      deleteSecret: async key => secrets.delete(key),
+      listSecrets: async () => [...secrets.keys()],
+    }, { prefix: 'bots/' });
+
+    await store.write('bot', record('alice'));
+
+    assert.equal(store.readOnly, false);
+    assert.equal(JSON.parse(secrets.get('bots/bot')!).username, 'alice');
+    assert.equal((await store.read('bot'))?.username, 'alice');
+    assert.equal(await store.read('missing'), undefined);
+    assert.deepEqual(await store.list(), ['bot']);
+    assert.equal(await store.delete('bot'), true);
+  });
+
+  it('is read-only without setSecret', async () => {
+    const store = new RemoteKeyStore({ getSecret: async () => undefined });
+
+    assert.equal(store.readOnly, true);
+    await assert.rejects(store.write('bot', record('alice')), /read-only/);
+    await assert.rejects(store.delete('bot'), /read-only/);
+    assert.deepEqual(await store.list(), []);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Organization Request Listing Tests
+ *
+ * The X402 Canister client is stubbed with an in-memory request list.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import type { RequestRecord, RequestStatus } from '../src/canisters/idl/multisig.idl.js';
+import { X402MultiSig } from '../src/client.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+interface Canister {
+  bot: X402MultiSig;
+  /** Queries made, as 'count' or '<offset>+<limit>' */
+  queries: string[];
+}
+
+/**
+ * Bot backed by an organization whose requests have the given statuses, in list order
+ */
+function organization(statuses: RequestStatus[]): Canister {
+  const proposer = Ed25519KeyIdentity.generate().getPrincipal();
+  const records: RequestRecord[] = statuses.map((status, index) => ({
+    id: BigInt(index),
+    execution_result: [],
+    status: { [status]: null } as RequestRecord['status'],
+    executed_at: [],
+    request: { request_type: { ETHSign: { action: { vault_id: 1n, message: '0x' } } }, expire_time: [] },
+    created_at: 0n,
+    proposer,
+    approvals: [],
+  }));
+  const queries: string[] = [];
+
+  const x402Client = {
+    getOrganizationRequestCount: async (_organizationId: bigint, pendingOnly: boolean) => {
+      queries.push('count');
+      return BigInt(records.filter(record => !pendingOnly || 'Pending' in record.status).length);
+    },
+    getOrganizationRequests: async (_organizationId: bigint, offset: bigint, limit: bigint) => {
+      queries.push(`${offset}+${limit}`);
+      return records.slice(Number(offset), Number(offset + limit));
+    },
+  };
+  const bot = new (X402MultiSig as any)(Ed25519KeyIdentity.generate(), {}, x402Client, { logger: silentLogger });
+  return { bot, queries };
+}
+
+const ids = (requests: Array<{ id: bigint }>) => requests.map(request => request.id);
+
+describe('listRequests', () => {
+  // Pending requests at 1, 5 and 6, followed by a long executed history
+  const STATUSES: RequestStatus[] = [
+    'Executed', 'Pending', 'Executed', 'Rejected', 'Executed', 'Pending', 'Pending',
+    'Executed', 'Executed', 'Executed', 'Executed', 'Executed',
+  ];
+
+  it('pages through all requests without a status filter', async () => {
+    const { bot } = organization(STATUSES);
+
+    const first = await bot.listRequests(1n, { limit: 5 });
+    const second = await bot.listRequests(1n, { offset: first.nextOffset, limit: 5 });
+    const last = await bot.listRequests(1n, { offset: second.nextOffset, limit: 5 });
+
+    assert.deepEqual(ids(first.requests), [0n, 1n, 2n, 3n, 4n]);
+    assert.equal(first.remainingPending, undefined);
+    assert.deepEqual(ids(last.requests), [10n, 11n]);
+    assert.equal(last.nextOffset, undefined);
+  });
+
+  it('stops after the last pending request, across pages', async () => {
+    const { bot, queries } = organization(STATUSES);
+
+    const first = await bot.listPendingRequests(1n, { limit: 2 });
+    assert.deepEqual(ids(first.requests), [1n, 5n]);
+    assert.equal(first.nextOffset, 6n);
+    assert.equal(first.remainingPending, 1n);
+
+    const second = await bot.listPendingRequests(1n, {
+      offset: first.nextOffset,
+      limit: 2,
+      remainingPending: first.remainingPending,
+    });
+    assert.deepEqual(ids(second.requests), [6n]);
+    assert.equal(second.nextOffset, undefined);
+
+    // The second page neither recounts nor reads the executed history
+    assert.deepEqual(queries, ['count', '0+2', '2+2', '4+2', '6+2']);
+  });
+
+  it('scans to the end when continued without remainingPending', async () => {
+    const { bot, queries } = organization(STATUSES);
+
+    const page = await bot.listPendingRequests(1n, { offset: 6n, limit: 2 });
+
+    assert.deepEqual(ids(page.requests), [6n]);
+    assert.deepEqual(queries, ['count', '6+2', '8+2', '10+2', '12+2']);
+  });
+
+  it('does not read the list when nothing is pending', async () => {
+    const { bot, queries } = organization(['Executed', 'Executed']);
+
+    assert.deepEqual(await bot.listPendingRequests(1n), { requests: [] });
+    assert.deepEqual(await bot.listPendingRequests(1n, { offset: 1n, remainingPending: 0n }), { requests: [] });
+    assert.deepEqual(queries, ['count']);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Multisig IDL Tests
+ *
+ * MultisigService is written by hand next to MultisigIdlFactory. Its declared types are read with the
+ * TypeScript compiler and walked together with the factory's IDL classes, following the Candid mappings
+ * of multisig.idl.ts, so a method, argument, record field or variant tag changed on one side only fails the test.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import ts from 'typescript';
+import { IDL } from '@dfinity/candid';
+import { MultisigIdlFactory } from '../src/canisters/idl/multisig.idl.js';
+
+const IDL_FILE = path.resolve('src/canisters/idl/multisig.idl.ts');
+
+/**
+ * Load the declared MultisigService type with the repository's compiler options
+ */
+function loadMultisigService(): { checker: ts.TypeChecker; service: ts.Type } {
+  const config = ts.getParsedCommandLineOfConfigFile(path.resolve('tsconfig.json'), {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => {
+      throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    },
+  });
+  const program = ts.createProgram([IDL_FILE], { ...config!.options, noEmit: true });
+  const checker = program.getTypeChecker();
+  const module = checker.getSymbolAtLocation(program.getSourceFile(IDL_FILE)!)!;
+  const symbol = checker.getExportsOfModule(module).find(exported => exported.name === 'MultisigService')!;
+  return { checker, service: checker.getDeclaredTypeOfSymbol(symbol) };
+}
+
+/**
+ * Position in a method signature, used in mismatch messages (e.g. "create_request(args)[0].request_type")
+ */
+interface Location {
+  type: ts.Type;
+  path: string;
+}
+
+/**
+ * Walks an IDL type and the TypeScript type it is declared as, collecting mismatches
+ */
+class DeclarationChecker extends IDL.Visitor<Location, void> {
+  readonly mismatches: string[] = [];
+
+  /** Pairs already compared (records and variants are shared between methods) */
+  private compared = new Map<IDL.Type, Set<ts.Type>>();
+
+  constructor(private checker: ts.TypeChecker) {
+    super();
+  }
+
+  compare(idlType: IDL.Type, location: Location): void {
+    const seen = this.compared.get(idlType) ?? new Set<ts.Type>();
+    if (seen.has(location.type)) {
+      return;
+    }
+    this.compared.set(idlType, seen.add(location.type));
+    idlType.accept(this, location);
+  }
+
+  visitType<T>(t: IDL.Type<T>, { path }: Location): void {
+    this.mismatches.push(`${path}: unsupported Candid type ${t.display()}`);
+  }
+
+  visitBool(_t: IDL.BoolClass, location: Location): void {
+    this.expectFlag(location, ts.TypeFlags.Boolean, 'boolean');
+  }
+
+  visitNull(_t: IDL.NullClass, location: Location): void {
+    this.expectFlag(location, ts.TypeFlags.Null, 'null');
+  }
+
+  visitText(_t: IDL.TextClass, location: Location): void {
+    this.expectFlag(location, ts.TypeFlags.String, 'string');
+  }
+
+  visitNat(_t: IDL.NatClass, location: Location): void {
+    this.expectFlag(location, ts.TypeFlags.BigInt, 'bigint');
+  }
+
+  visitInt(_t: IDL.IntClass, location: Location): void {
+    this.expectFlag(location, ts.TypeFlags.BigInt, 'bigint');
+  }
+
+  visitFixedNat(t: IDL.FixedNatClass, location: Location): void {
+    this.expectFixedWidth(t._bits, location);
+  }
+
+  visitFixedInt(t: IDL.FixedIntClass, location: Location): void {
+    this.expectFixedWidth(t._bits, location);
+  }
+
+  visitPrincipal(_t: IDL.PrincipalClass, location: Location): void {
+    if (location.type.getSymbol()?.getName() !== 'Principal') {
+      this.mismatch(location, 'Principal');
+    }
+  }
+
+  visitOpt<T>(_t: IDL.OptClass<T>, ty: IDL.Type<T>, location: Location): void {
+    // [] | [T]
+    const members = location.type.isUnion() ? location.type.types.map(member => this.tupleElements(member)) : [];
+    const some = members.find(elements => elements?.length === 1);
+    if (members.length !== 2 || !members.some(elements => elements?.length === 0) || !some) {
+      this.mismatch(location, '[] | [T]');
+      return;
+    }
+    this.compare(ty, { type: some[0], path: `${location.path}[0]` });
+  }
+
+  visitVec<T>(_t: IDL.VecClass<T>, ty: IDL.Type<T>, location: Location): void {
+    if (ty instanceof IDL.FixedNatClass && ty._bits === 8) {
+      // Blob: Uint8Array | number[]
+      const members = location.type.isUnion() ? location.type.types : [];
+      if (!members.some(member => member.getSymbol()?.getName() === 'Uint8Array') ||
+        !members.some(member => this.checker.isArrayType(member))) {
+        this.mismatch(location, 'Uint8Array | number[]');
+      }
+      return;
+    }
+    if (!this.checker.isArrayType(location.type)) {
+      this.mismatch(location, 'T[]');
+      return;
+    }
+    const [element] = this.checker.getTypeArguments(location.type as ts.TypeReference);
+    this.compare(ty, { type: element, path: `${location.path}[]` });
+  }
+
+  visitTuple<T extends any[]>(_t: IDL.TupleClass<T>, components: IDL.Type[], location: Location): void {
+    this.compareTuple(components, location);
+  }
+
+  visitRecord(_t: IDL.RecordClass, fields: Array<[string, IDL.Type]>, location: Location): void {
+    const properties = this.checker.getPropertiesOfType(location.type);
+    this.compareNames(location, fields, properties.map(property => property.name), 'fields');
+    for (const [name, fieldType] of fields) {
+      const property = properties.find(candidate => candidate.name === name);
+      if (property) {
+        this.compare(fieldType, { type: this.checker.getTypeOfSymbol(property), path: `${location.path}.${name}` });
+      }
+    }
+  }
+
+  visitVariant(_t: IDL.VariantClass, fields: Array<[string, IDL.Type]>, location: Location): void {
+    // Union of single-key objects
+    const tags = new Map<string, ts.Type>();
+    for (const member of location.type.isUnion() ? location.type.types : [location.type]) {
+      const properties = member.flags & ts.TypeFlags.Object ? this.checker.getPropertiesOfType(member) : [];
+      if (properties.length !== 1) {
+        this.mismatch(location, 'a union of single-key objects');
+        return;
+      }
+      tags.set(properties[0].name, this.checker.getTypeOfSymbol(properties[0]));
+    }
+    this.compareNames(location, fields, [...tags.keys()], 'tags');
+    for (const [name, fieldType] of fields) {
+      const tagType = tags.get(name);
+      if (tagType) {
+        this.compare(fieldType, { type: tagType, path: `${location.path}.${name}` });
+      }
+    }
+  }
+
+  /**
+   * Compare the argument or result types of a method with a tuple type
+   *
+   * @param components - IDL types, in order
+   * @param location - Tuple type
+   */
+  compareTuple(components: IDL.Type[], location: Location): void {
+    const elements = this.tupleElements(location.type);
+    if (elements?.length !== components.length) {
+      this.mismatch(location, `a tuple of ${components.length}`);
+      return;
+    }
+    components.forEach((component, index) =>
+      this.compare(component, { type: elements[index], path: `${location.path}[${index}]` }));
+  }
+
+  private tupleElements(type: ts.Type): readonly ts.Type[] | undefined {
+    return this.checker.isTupleType(type) ? this.checker.getTypeArguments(type as ts.TypeReference) : undefined;
+  }
+
+  private compareNames(location: Location, fields: Array<[string, IDL.Type]>, declared: string[], kind: string): void {
+    const expected = fields.map(([name]) => name).sort().join(', ');
+    const actual = [...declared].sort().join(', ');
+    if (actual !== expected) {
+      this.mismatches.push(`${location.path}: ${kind} ${actual} differ from the IDL (${expected})`);
+    }
+  }
+
+  /** Nat64/Int64 decode as bigint, narrower integers as number */
+  private expectFixedWidth(bits: number, location: Location): void {
+    if (bits === 64) {
+      this.expectFlag(location, ts.TypeFlags.BigInt, 'bigint');
+    } else {
+      this.expectFlag(location, ts.TypeFlags.Number, 'number');
+    }
+  }
+
+  private expectFlag(location: Location, flag: ts.TypeFlags, expected: string): void {
+    if (!(location.type.flags & flag)) {
+      this.mismatch(location, expected);
+    }
+  }
+
+  private mismatch({ type, path }: Location, expected: string): void {
+    this.mismatches.push(`${path}: expected ${expected}, declared ${this.checker.typeToString(type)}`);
+  }
+}
+
+const factoryMethods = new Map((MultisigIdlFactory({ IDL }) as IDL.ServiceClass)._fields);
+const { checker, service } = loadMultisigService();
+const declaredMethods = new Map(checker.getPropertiesOfType(service).map(method => [method.name, method]));
+
+describe('MultisigIdlFactory', () => {
+  it('declares the methods of MultisigService', () => {
+    assert.deepEqual([...factoryMethods.keys()].sort(), [...declaredMethods.keys()].sort());
+  });
+
+  for (const [method, func] of factoryMethods) {
+    it(`${method} matches MultisigService`, () => {
+      const declared = declaredMethods.get(method);
+      assert.ok(declared, `${method} is missing from MultisigService`);
+
+      // ActorMethod<Args, Result>
+      const [args, result] = checker.getTypeArguments(checker.getTypeOfSymbol(declared) as ts.TypeReference);
+      const declarations = new DeclarationChecker(checker);
+      declarations.compareTuple(func.argTypes, { type: args, path: `${method}(args)` });
+      if (func.retTypes.length === 0) {
+        assert.ok(result.flags & ts.TypeFlags.Undefined, `${method} returns nothing, declared ${checker.typeToString(result)}`);
+      } else {
+        assert.equal(func.retTypes.length, 1, `${method} returns several values`);
+        declarations.compare(func.retTypes[0], { type: result, path: `${method}(result)` });
+      }
+
+      assert.deepEqual(declarations.mismatches, []);
+    });
+  }
+});
@@ -0,0 +1,161 @@
+/**
+ * PEM Private Key Tests
+ *
+ * Keys are generated with node:crypto and re-encoded in the layouts written by dfx and openssl.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, type KeyObject } from 'node:crypto';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
+import { ValidationError } from '../src/errors.js';
+import { identityFromPEM, identityToPEM, parsePrivateKeyPEM } from '../src/identity/pem.js';
+
+/** "EC PARAMETERS" block naming secp256k1 (OID 1.3.132.0.10), as written by `dfx identity export` */
+const SECP256K1_PARAMETERS = '-----BEGIN EC PARAMETERS-----\nBgUrgQQACg==\n-----END EC PARAMETERS-----\n';
+
+function toPem(label: string, der: Uint8Array): string {
+  const base64 = Buffer.from(der).toString('base64').replace(/.{64}/g, '$&\n').trimEnd();
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
+
+function der(tag: number, ...content: Uint8Array[]): Buffer {
+  const value = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag, value.length]), value]);
+}
+
+function ed25519Keys(): { secretKey: Buffer; publicKey: Buffer; privateKey: KeyObject } {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    privateKey,
+    // PKCS#8 v1 ends with the 32-byte seed, SPKI with the 32-byte public key
+    secretKey: privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(-32),
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).subarray(-32),
+  };
+}
+
+/**
+ * Encode an Ed25519 PKCS#8 v2 (OneAsymmetricKey) key
+ *
+ * @param secretKey - 32-byte seed
+ * @param publicKey - 32-byte public key
+ * @param explicit - Wrap the public key in an explicit [1] tag, like older dfx versions
+ */
+function ed25519V2Pem(secretKey: Uint8Array, publicKey: Uint8Array, explicit: boolean): string {
+  const bits = Buffer.concat([Buffer.from([0]), publicKey]);
+  return toPem('PRIVATE KEY', der(
+    0x30,
+    der(0x02, Buffer.from([1])),
+    der(0x30, der(0x06, Buffer.from('2b6570', 'hex'))),
+    der(0x04, der(0x04, secretKey)),
+    explicit ? der(0xa1, der(0x03, bits)) : der(0x81, bits)
+  ));
+}
+
+describe('parsePrivateKeyPEM', () => {
+  it('reads an Ed25519 PKCS#8 v1 identity.pem', () => {
+    const { privateKey, secretKey } = ed25519Keys();
+    const key = parsePrivateKeyPEM(privateKey.export({ format: 'pem', type: 'pkcs8' }) as string);
+
+    assert.equal(key.keyType, 'ed25519');
+    assert.deepEqual(Buffer.from(key.secretKey), secretKey);
+    assert.equal(key.publicKey, undefined);
+  });
+
+  for (const explicit of [false, true]) {
+    it(`reads an Ed25519 PKCS#8 v2 identity.pem (${explicit ? 'explicit, older dfx' : 'implicit'} public key)`, () => {
+      const { secretKey, publicKey } = ed25519Keys();
+      const key = parsePrivateKeyPEM(ed25519V2Pem(secretKey, publicKey, explicit));
+
+      assert.equal(key.keyType, 'ed25519');
+      assert.deepEqual(Buffer.from(key.secretKey), secretKey);
+      assert.deepEqual(Buffer.from(key.publicKey!), publicKey);
+    });
+  }
+
+  it('reads a secp256k1 EC PARAMETERS + EC PRIVATE KEY file', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+    const pem = SECP256K1_PARAMETERS + (privateKey.export({ format: 'pem', type: 'sec1' }) as string);
+    const key = parsePrivateKeyPEM(pem);
+    const jwk = privateKey.export({ format: 'jwk' });
+
+    assert.equal(key.keyType, 'secp256k1');
+    assert.deepEqual(Buffer.from(key.secretKey), Buffer.from(jwk.d!, 'base64url'));
+    assert.deepEqual(
+      Buffer.from(key.publicKey!),
+      Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')])
+    );
+  });
+
+  it('reads a secp256k1 PKCS#8 key', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+    const key = parsePrivateKeyPEM(privateKey.export({ format: 'pem', type: 'pkcs8' }) as string);
+
+    assert.equal(key.keyType, 'secp256k1');
+    assert.deepEqual(Buffer.from(key.secretKey), Buffer.from(privateKey.export({ format: 'jwk' }).d!, 'base64url'));
+  });
+
+  it('rejects EC keys on another curve', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+    for (const type of ['sec1', 'pkcs8'] as const) {
+      assert.throws(
+        () => parsePrivateKeyPEM(privateKey.export({ format: 'pem', type }) as string),
+        (error: unknown) => error instanceof ValidationError && /unsupported elliptic curve/.test(error.message)
+      );
+    }
+  });
+
+  it('rejects keys of other algorithms', () => {
+    const { privateKey } = generateKeyPairSync('ed448');
+
+    assert.throws(
+      () => parsePrivateKeyPEM(privateKey.export({ format: 'pem', type: 'pkcs8' }) as string),
+      (error: unknown) => error instanceof ValidationError && /unsupported key algorithm/.test(error.message)
+    );
+  });
+
+  it('rejects encrypted and missing keys', () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const encrypted = privateKey.export({ format: 'pem', type: 'pkcs8', cipher: 'aes-256-cbc', passphrase: 'secret' });
+
+    assert.throws(() => parsePrivateKeyPEM(encrypted as string), /Encrypted PEM private keys are not supported/);
+    assert.throws(() => parsePrivateKeyPEM(SECP256K1_PARAMETERS), /No PRIVATE KEY or EC PRIVATE KEY block/);
+    assert.throws(() => parsePrivateKeyPEM('not a pem'), /missing required header or footer/);
+  });
+});
+
+describe('identityFromPEM', () => {
+  it('creates the identity of an Ed25519 key', () => {
+    const { secretKey, publicKey } = ed25519Keys();
+    const identity = identityFromPEM(ed25519V2Pem(secretKey, publicKey, false));
+
+    assert.ok(identity instanceof Ed25519KeyIdentity);
+    assert.deepEqual(Buffer.from(identity.getPublicKey().toRaw()), publicKey);
+  });
+
+  it('creates the identity of a secp256k1 key', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+    const identity = identityFromPEM(SECP256K1_PARAMETERS + (privateKey.export({ format: 'pem', type: 'sec1' }) as string));
+
+    assert.ok(identity instanceof Secp256k1KeyIdentity);
+  });
+
+  it('rejects a public key that does not match the private key', () => {
+    const { secretKey } = ed25519Keys();
+    const { publicKey: otherPublicKey } = ed25519Keys();
+
+    assert.throws(
+      () => identityFromPEM(ed25519V2Pem(secretKey, otherPublicKey, false)),
+      (error: unknown) => error instanceof ValidationError && /does not match the private key/.test(error.message)
+    );
+  });
+
+  it('round-trips through identityToPEM', () => {
+    for (const identity of [Ed25519KeyIdentity.generate(), Secp256k1KeyIdentity.generate()]) {
+      const restored = identityFromPEM(identityToPEM(identity));
+      assert.equal(restored.getPrincipal().toText(), identity.getPrincipal().toText());
+    }
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Approval Policy Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RequestType, X402TransferWithAuthorizationAction } from '../src/canisters/idl/multisig.idl.js';
+import { ValidationError } from '../src/errors.js';
+import {
+  evaluateApprovalPolicy,
+  getZonedTime,
+  validateApprovalPolicy,
+  type ApprovalPolicy,
+} from '../src/approval/policy.js';
+
+const USDC_BASE_SEPOLIA = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const RECIPIENT = '0x209693Bc6afc0C5328bA36FaF03C514EF312287C';
+
+/** Wednesday 2025-01-15 10:00 UTC */
+const WEDNESDAY_10_UTC = new Date('2025-01-15T10:00:00Z');
+/** Saturday 2025-01-18 10:00 UTC */
+const SATURDAY_10_UTC = new Date('2025-01-18T10:00:00Z');
+
+function payment(overrides: Partial<X402TransferWithAuthorizationAction> = {}): RequestType {
+  return {
+    X402TransferWithAuthorization: {
+      action: {
+        to: RECIPIENT,
+        valid_after: '0x0',
+        valid_before: '0x678a0000',
+        value: '0xf4240', // 1_000_000 (1 USDC)
+        domain_name: 'USDC',
+        domain_version: '2',
+        vault_id: 1n,
+        domain_chain_id: '0x14a34',
+        nonce: '0x01',
+        verifying_contract: USDC_BASE_SEPOLIA,
+        ...overrides,
+      },
+    },
+  };
+}
+
+const POLICY: ApprovalPolicy = {
+  maxAmount: 2_000_000n,
+  dailyCapPerVault: 5_000_000n,
+  allowedRecipients: [RECIPIENT.toLowerCase()],
+  allowedContracts: [USDC_BASE_SEPOLIA],
+  allowedChainIds: ['84532'],
+};
+
+describe('evaluateApprovalPolicy', () => {
+  it('approves a payment within every rule', () => {
+    const decision = evaluateApprovalPolicy(POLICY, payment(), { spentToday: 4_000_000n });
+
+    assert.equal(decision.action, 'approve');
+    assert.match(decision.reason, /Within policy: 1000000 to/);
+  });
+
+  it('approves anything when no rule is set', () => {
+    assert.equal(evaluateApprovalPolicy({}, payment({ value: '0xffffffffff' })).action, 'approve');
+  });
+
+  const violations: Array<[string, Partial<X402TransferWithAuthorizationAction>, bigint, RegExp]> = [
+    ['a chain ID not allowed', { domain_chain_id: '0x2105' }, 0n, /Chain ID 0x2105 is not allowed/],
+    ['a token contract not allowed', { verifying_contract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' }, 0n, /Token contract/],
+    ['a recipient not allowed', { to: '0x0000000000000000000000000000000000000001' }, 0n, /Recipient/],
+    ['an amount above maxAmount', { value: '0x2dc6c0' }, 0n, /exceeds the per-request limit of 2000000/],
+    ['an amount above the daily cap', {}, 4_500_000n, /exceeds the daily cap of vault 1 \(4500000 of 5000000/],
+    ['an invalid amount', { value: 'not a number' }, 0n, /Invalid amount/],
+    ['a negative amount', { value: '-5' }, 0n, /Amount must be positive: -5/],
+    ['a zero amount', { value: '0x0' }, 0n, /Amount must be positive/],
+  ];
+
+  for (const [description, overrides, spentToday, reason] of violations) {
+    it(`rejects ${description}`, () => {
+      const decision = evaluateApprovalPolicy(POLICY, payment(overrides), { spentToday });
+
+      assert.equal(decision.action, 'reject');
+      assert.match(decision.reason, reason);
+    });
+  }
+
+  describe('business hours', () => {
+    const hours: ApprovalPolicy = { businessHours: { start: '09:00', end: '18:00' }, timeZone: 'Europe/Berlin' };
+
+    it('approves during business hours in the policy time zone', () => {
+      assert.equal(evaluateApprovalPolicy(hours, payment(), { now: WEDNESDAY_10_UTC }).action, 'approve');
+    });
+
+    it('defers outside business hours by default', () => {
+      // 17:30 UTC is 18:30 in Berlin
+      const decision = evaluateApprovalPolicy(hours, payment(), { now: new Date('2025-01-15T17:30:00Z') });
+
+      assert.deepEqual(decision, {
+        action: 'skip',
+        reason: 'Outside business hours (09:00-18:00 Europe/Berlin)',
+        deferred: true,
+      });
+    });
+
+    it('defers on days outside business days', () => {
+      assert.equal(evaluateApprovalPolicy(hours, payment(), { now: SATURDAY_10_UTC }).action, 'skip');
+      assert.equal(
+        evaluateApprovalPolicy(
+          { businessHours: { ...hours.businessHours!, days: [6] } },
+          payment(),
+          { now: SATURDAY_10_UTC }
+        ).action,
+        'approve'
+      );
+    });
+
+    it("rejects outside business hours with outsideBusinessHours: 'reject'", () => {
+      const decision = evaluateApprovalPolicy(
+        { ...hours, outsideBusinessHours: 'reject' },
+        payment(),
+        { now: SATURDAY_10_UTC }
+      );
+
+      assert.equal(decision.action, 'reject');
+      assert.equal(decision.deferred, undefined);
+    });
+
+    it('rejects rule violations before checking business hours', () => {
+      const decision = evaluateApprovalPolicy({ ...hours, maxAmount: 1n }, payment(), { now: SATURDAY_10_UTC });
+
+      assert.equal(decision.action, 'reject');
+    });
+  });
+
+  it('leaves other request types to human approvers unless otherRequests is reject', () => {
+    const request: RequestType = { ETHSign: { action: { vault_id: 1n, message: '0x' } } };
+
+    assert.equal(evaluateApprovalPolicy(POLICY, request).action, 'skip');
+    assert.equal(evaluateApprovalPolicy({ ...POLICY, otherRequests: 'reject' }, request).action, 'reject');
+  });
+});
+
+describe('validateApprovalPolicy', () => {
+  it('accepts a valid policy', () => {
+    assert.doesNotThrow(() => validateApprovalPolicy({
+      ...POLICY,
+      businessHours: { start: '09:00', end: '24:00', days: [0, 6] },
+      timeZone: 'America/New_York',
+    }));
+  });
+
+  const invalid: Array<[string, ApprovalPolicy, string]> = [
+    ['a negative maxAmount', { maxAmount: -1n }, 'maxAmount'],
+    ['a negative daily cap', { dailyCapPerVault: -1n }, 'dailyCapPerVault'],
+    ['an unknown time zone', { timeZone: 'Mars/Olympus' }, 'timeZone'],
+    ['malformed hours', { businessHours: { start: '9am', end: '18:00' } }, 'businessHours'],
+    ['hours ending before they start', { businessHours: { start: '18:00', end: '09:00' } }, 'businessHours'],
+    ['invalid days', { businessHours: { start: '09:00', end: '18:00', days: [7] } }, 'businessHours.days'],
+  ];
+
+  for (const [description, policy, field] of invalid) {
+    it(`rejects ${description}`, () => {
+      assert.throws(
+        () => validateApprovalPolicy(policy),
+        (error: unknown) => error instanceof ValidationError && error.field === field
+      );
+    });
+  }
+});
+
+describe('getZonedTime', () => {
+  it('returns the local day, weekday and time', () => {
+    assert.deepEqual(getZonedTime(new Date('2025-01-15T23:30:00Z'), 'Asia/Tokyo'), {
+      day: '2025-01-16',
+      weekday: 4,
+      minutes: 8 * 60 + 30,
+    });
+    assert.deepEqual(getZonedTime(WEDNESDAY_10_UTC), { day: '2025-01-15', weekday: 3, minutes: 600 });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Registration Tests
+ *
+ * The IC agent is stubbed and the Register Canister replaced with an in-memory username table.
+ */
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import type { Principal } from '@dfinity/principal';
+import { IcAgentClient } from '../src/agent/client.js';
+import { RegisterClient, type User } from '../src/canisters/register.js';
+import { X402MultiSig } from '../src/client.js';
+import { RegistrationError } from '../src/errors.js';
+import { EnvKeyStore, MemoryKeyStore } from '../src/identity/keystore.js';
+import { IdentityManager } from '../src/identity/manager.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+const CANISTER_ID = 'aaaaa-aa';
+const FAST = { initialDelay: 1, maxDelay: 1 };
+
+function user(username: string, principal: Principal = Ed25519KeyIdentity.generate().getPrincipal()): User {
+  return { user_principal: principal, user_name: username, create_time: 0, update_time: 0 };
+}
+
+describe('registration', () => {
+  let keyStore: MemoryKeyStore;
+  let manager: IdentityManager;
+  /** Registered users by username */
+  let users: Map<string, User>;
+  /** Register Canister calls, as 'get <username>' or 'register <username>' */
+  let calls: string[];
+  /** Number of upcoming Register Canister calls failing with a network error */
+  let networkFailures: number;
+  /** Whether the Register Canister refuses to register principals */
+  let refusing: boolean;
+
+  beforeEach(() => {
+    keyStore = new MemoryKeyStore();
+    manager = new IdentityManager(keyStore, { logger: silentLogger });
+    users = new Map();
+    calls = [];
+    networkFailures = 0;
+    refusing = false;
+
+    const unreachable = () => {
+      if (networkFailures > 0) {
+        networkFailures--;
+        throw new Error('fetch failed');
+      }
+    };
+    mock.method(IcAgentClient, 'create', async () => ({}));
+    mock.method(RegisterClient.prototype, 'getUser', async (username: string) => {
+      calls.push(`get ${username}`);
+      unreachable();
+      return users.get(username) ?? null;
+    });
+    mock.method(RegisterClient.prototype, 'isUsernameTaken', async (username: string) => users.has(username));
+    mock.method(RegisterClient.prototype, 'registerUser',
+      async (username: string, _displayName: string, principal: Principal) => {
+        calls.push(`register ${username}`);
+        unreachable();
+        if (refusing || users.has(username)) {
+          throw new RegistrationError(username, principal.toText(), refusing ? 'principal refused' : 'username is taken');
+        }
+        users.set(username, user(username, principal));
+        return users.get(username);
+      });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function createBot(): Promise<X402MultiSig> {
+    return X402MultiSig.create({
+      x402CanisterId: CANISTER_ID,
+      registerCanisterId: CANISTER_ID,
+      identityName: 'bot',
+      keyStore,
+      logger: silentLogger,
+    });
+  }
+
+  describe('X402MultiSig.create', () => {
+    it('registers a new identity and records it', async () => {
+      const bot = await createBot();
+
+      assert.deepEqual(calls, ['get bot_bot', 'register bot_bot']);
+      assert.equal(users.get('bot_bot')?.user_principal.toText(), bot.getPrincipalId());
+      assert.equal((await manager.getRegistration('bot'))?.status, 'registered');
+    });
+
+    it('checks an identity without a recorded registration', async () => {
+      const identity = await manager.generateIdentity('bot', false, 'alice');
+      users.set('alice', user('alice', identity.getPrincipal()));
+
+      await createBot();
+
+      assert.deepEqual(calls, ['get alice']);
+      assert.deepEqual(
+        await manager.getRegistration('bot').then(state => state && { status: state.status, username: state.username }),
+        { status: 'registered', username: 'alice' }
+      );
+    });
+
+    it('leaves registered identities alone and retries failed ones', async () => {
+      await manager.generateIdentity('bot', false, 'alice');
+      refusing = true;
+
+      await createBot();
+      assert.equal((await manager.getRegistration('bot'))?.status, 'failed');
+
+      refusing = false;
+      calls = [];
+      await createBot();
+      assert.deepEqual(calls, ['get alice', 'register alice']);
+
+      calls = [];
+      await createBot();
+      assert.deepEqual(calls, []);
+    });
+
+    it('does not register identities of read-only stores', async () => {
+      const identity = Ed25519KeyIdentity.generate();
+
+      await X402MultiSig.create({
+        x402CanisterId: CANISTER_ID,
+        registerCanisterId: CANISTER_ID,
+        identityName: 'bot',
+        keyStore: new EnvKeyStore({ env: { X402_IDENTITY_BOT: JSON.stringify(identity.toJSON()) } }),
+        logger: silentLogger,
+      });
+
+      assert.deepEqual(calls, []);
+    });
+  });
+
+  describe('ensureRegistered', () => {
+    let bot: X402MultiSig;
+
+    beforeEach(async () => {
+      await manager.generateIdentity('bot', false, 'alice');
+      bot = await X402MultiSig.create({
+        x402CanisterId: CANISTER_ID,
+        registerCanisterId: CANISTER_ID,
+        identityName: 'bot',
+        keyStore,
+        autoRegister: false,
+        logger: silentLogger,
+      });
+    });
+
+    it('registers a suffixed username when the desired one is taken', async () => {
+      users.set('alice', user('alice'));
+      const suffixed = `alice_${bot.getPrincipalId().split('-')[0]}`;
+
+      const result = await bot.ensureRegistered({ backoff: FAST });
+
+      assert.equal(result.username, suffixed);
+      assert.equal(result.newlyRegistered, true);
+      assert.equal((await manager.getRegistration('bot'))?.username, suffixed);
+
+      calls = [];
+      const again = await bot.ensureRegistered({ backoff: FAST });
+      assert.equal(again.newlyRegistered, false);
+      assert.deepEqual(calls, [`get ${suffixed}`]);
+    });
+
+    it('retries network errors', async () => {
+      networkFailures = 2;
+
+      const result = await bot.ensureRegistered({ backoff: FAST });
+
+      assert.equal(result.username, 'alice');
+      assert.deepEqual(calls, ['get alice', 'get alice', 'get alice', 'register alice']);
+    });
+
+    it('treats a registration made by a retried attempt as its own', async () => {
+      // The first registerUser reached the canister, but its response was lost
+      mock.method(RegisterClient.prototype, 'registerUser', async (username: string, _displayName: string, principal: Principal) => {
+        users.set(username, user(username, principal));
+        throw new RegistrationError(username, principal.toText(), 'username is taken');
+      });
+
+      const result = await bot.ensureRegistered({ backoff: FAST });
+
+      assert.equal(result.username, 'alice');
+      assert.equal(result.newlyRegistered, true);
+    });
+
+    it('suggests a free username instead of suffixing when autoSuffix is disabled', async () => {
+      users.set('alice', user('alice'));
+
+      await assert.rejects(bot.ensureRegistered({ autoSuffix: false, backoff: FAST }), (error: unknown) =>
+        error instanceof RegistrationError && error.suggestedUsername === `alice_${bot.getPrincipalId().split('-')[0]}`);
+      assert.deepEqual(
+        await manager.getRegistration('bot').then(state => state && { status: state.status, username: state.username }),
+        { status: 'failed', username: 'alice' }
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Payment Requirements Discovery Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaymentRequiredError, ValidationError } from '../src/errors.js';
+import {
+  parsePaymentRequiredBody,
+  parsePaymentRequiredResponse,
+  selectPaymentRequirements,
+  type AcceptedPaymentRequirement,
+} from '../src/payment/requirements.js';
+
+const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const USDC_BASE_SEPOLIA = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const ETH = '0x0000000000000000000000000000000000000000';
+
+function accept(overrides: Partial<AcceptedPaymentRequirement> = {}): AcceptedPaymentRequirement {
+  return {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '10000',
+    resource: 'https://api.example.com/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 300,
+    asset: USDC_BASE_SEPOLIA,
+    ...overrides,
+  };
+}
+
+describe('selectPaymentRequirements', () => {
+  it('converts the first compatible requirement and fills in the EIP-712 domain', () => {
+    const requirements = selectPaymentRequirements([
+      accept({ scheme: 'upto' }),
+      accept({ network: 'solana', asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' }),
+      accept({ network: 'ethereum' }),
+      accept(),
+    ]);
+
+    assert.equal(requirements.network, 'base-sepolia');
+    assert.equal(requirements.domainChainId, '0x14a34');
+    assert.deepEqual(requirements.extra, { name: 'USDC', version: '2' });
+  });
+
+  it('keeps EIP-712 domain parameters provided by the server', () => {
+    const requirements = selectPaymentRequirements([accept({ extra: { name: 'USD Coin', version: '1' } })]);
+
+    assert.deepEqual(requirements.extra, { name: 'USD Coin', version: '1' });
+  });
+
+  it('follows the preferred network order, then the server order', () => {
+    const accepts = [
+      accept({ maxAmountRequired: '1' }),
+      accept({ network: 'base', asset: USDC_BASE, maxAmountRequired: '2' }),
+      accept({ network: 'base', asset: USDC_BASE, maxAmountRequired: '3' }),
+    ];
+
+    assert.equal(selectPaymentRequirements(accepts).maxAmountRequired, '1');
+    assert.equal(selectPaymentRequirements(accepts, { network: 'base' }).maxAmountRequired, '2');
+    assert.equal(selectPaymentRequirements(accepts, { network: ['base', 'base-sepolia'] }).maxAmountRequired, '2');
+    assert.equal(selectPaymentRequirements(accepts, { network: ['base-sepolia', 'base'] }).maxAmountRequired, '1');
+  });
+
+  it('filters by token and amount limit', () => {
+    const accepts = [
+      accept({ asset: ETH, maxAmountRequired: '1' }),
+      accept({ maxAmountRequired: '20000' }),
+      accept({ maxAmountRequired: '5000' }),
+    ];
+
+    assert.equal(selectPaymentRequirements(accepts, { token: 'USDC' }).maxAmountRequired, '20000');
+    assert.equal(selectPaymentRequirements(accepts, { token: 'USDC', maxAmountRequired: '10000' }).maxAmountRequired, '5000');
+  });
+
+  it('skips requirements with a malformed amount', () => {
+    const requirements = selectPaymentRequirements([
+      accept({ maxAmountRequired: '1e6' }),
+      accept({ maxAmountRequired: '-1' }),
+      accept({ maxAmountRequired: 10000 as unknown as string }),
+      accept({ maxAmountRequired: '42' }),
+    ], { maxAmountRequired: '100' });
+
+    assert.equal(requirements.maxAmountRequired, '42');
+  });
+
+  it('throws ValidationError for a malformed amount limit', () => {
+    assert.throws(
+      () => selectPaymentRequirements([accept()], { maxAmountRequired: '0.01' }),
+      (error: unknown) => error instanceof ValidationError && error.field === 'maxAmountRequired'
+    );
+  });
+
+  it('throws PaymentRequiredError listing the offers when nothing is compatible', () => {
+    const accepts = [accept({ network: 'ethereum' }), accept({ maxAmountRequired: '20000' })];
+
+    assert.throws(
+      () => selectPaymentRequirements(accepts, { maxAmountRequired: '10000' }),
+      (error: unknown) =>
+        error instanceof PaymentRequiredError &&
+        /ethereum 0x036CbD53842c5426634e7929541eC2318f3dCF7e \(10000\)/.test(error.message)
+    );
+    assert.throws(() => selectPaymentRequirements([]), PaymentRequiredError);
+  });
+});
+
+describe('parsePaymentRequiredBody', () => {
+  it('accepts decoded and JSON string bodies', () => {
+    const body = { x402Version: 1, error: 'insufficient_funds', accepts: [accept()] };
+
+    assert.deepEqual(parsePaymentRequiredBody(body), body);
+    assert.deepEqual(parsePaymentRequiredBody(JSON.stringify(body)), body);
+  });
+
+  it('defaults the protocol version and ignores a non-string error', () => {
+    assert.deepEqual(parsePaymentRequiredBody({ error: 42, accepts: [] }), {
+      x402Version: 1,
+      error: undefined,
+      accepts: [],
+    });
+  });
+
+  it('throws PaymentRequiredError for bodies without an accepts list', () => {
+    assert.throws(() => parsePaymentRequiredBody('<html>'), PaymentRequiredError);
+    assert.throws(() => parsePaymentRequiredBody({ accepts: 'base' }), PaymentRequiredError);
+    assert.throws(() => parsePaymentRequiredBody(null), PaymentRequiredError);
+  });
+});
+
+describe('parsePaymentRequiredResponse', () => {
+  it('parses the JSON body of a 402 response', async () => {
+    const response = new Response(JSON.stringify({ x402Version: 1, accepts: [accept()] }), { status: 402 });
+
+    assert.equal((await parsePaymentRequiredResponse(response)).accepts.length, 1);
+  });
+
+  it('throws PaymentRequiredError for a body that is not JSON', async () => {
+    await assert.rejects(parsePaymentRequiredResponse(new Response('Payment Required', { status: 402 })), PaymentRequiredError);
+  });
+});
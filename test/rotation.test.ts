@@ -0,0 +1,259 @@
+/**
+ * Identity Rotation Tests
+ *
+ * Identities live in a MemoryKeyStore; the IC agent, Register Canister and X402 Canister are stubbed.
+ */
+
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { Secp256k1KeyIdentity } from '@dfinity/identity-secp256k1';
+import { Principal } from '@dfinity/principal';
+import { IcAgentClient } from '../src/agent/client.js';
+import { RegisterClient } from '../src/canisters/register.js';
+import { X402MultiSig, type RotateIdentityOptions } from '../src/client.js';
+import { SignatureRejectedError, SignatureTimeoutError, X402MultiSigError } from '../src/errors.js';
+import { MemoryKeyStore } from '../src/identity/keystore.js';
+import { IdentityManager } from '../src/identity/manager.js';
+import { identityFromMnemonic, MNEMONIC_DERIVATION_PATH } from '../src/identity/mnemonic.js';
+import { identityToPEM } from '../src/identity/pem.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+function prefix(principal: string): string {
+  return principal.split('-')[0];
+}
+
+describe('IdentityManager rotation', () => {
+  let keyStore: MemoryKeyStore;
+  let manager: IdentityManager;
+
+  beforeEach(() => {
+    keyStore = new MemoryKeyStore();
+    manager = new IdentityManager(keyStore, { logger: silentLogger });
+  });
+
+  it('resumes with the same replacement key and archives the old one on completion', async () => {
+    const original = await manager.generateIdentity('bot', false, 'alice');
+
+    const { identity, mnemonic } = await manager.prepareRotation('bot');
+    const resumed = await manager.prepareRotation('bot');
+
+    assert.ok(identity instanceof Ed25519KeyIdentity);
+    assert.equal(mnemonic, undefined);
+    assert.equal(resumed.identity.getPrincipal().toText(), identity.getPrincipal().toText());
+    assert.equal(resumed.mnemonic, undefined);
+
+    const { archivedAs } = await manager.completeRotation('bot', 'alice_new');
+
+    assert.equal((await manager.loadIdentity('bot')).getPrincipal().toText(), identity.getPrincipal().toText());
+    assert.equal(await manager.getUsername('bot'), 'alice_new');
+    assert.equal((await manager.loadIdentity(archivedAs)).getPrincipal().toText(), original.getPrincipal().toText());
+    assert.equal(await keyStore.read('bot.next'), undefined);
+  });
+
+  it('keeps the secp256k1 key type of imported identities', async () => {
+    await manager.importIdentityFromPEM('bot', identityToPEM(Secp256k1KeyIdentity.generate()));
+
+    const { identity, mnemonic } = await manager.prepareRotation('bot');
+    assert.ok(identity instanceof Secp256k1KeyIdentity);
+    assert.equal(mnemonic, undefined);
+    assert.ok((await manager.prepareRotation('bot')).identity instanceof Secp256k1KeyIdentity);
+
+    await manager.completeRotation('bot');
+    const rotated = await manager.loadIdentity('bot');
+
+    assert.ok(rotated instanceof Secp256k1KeyIdentity);
+    assert.equal(rotated.getPrincipal().toText(), identity.getPrincipal().toText());
+    assert.equal((await keyStore.read('bot'))?.derivationPath, undefined);
+  });
+
+  it('derives the replacement of a mnemonic backed identity from a new mnemonic, returned once', async () => {
+    const { mnemonic: originalMnemonic } = await manager.generateIdentityWithMnemonic('bot');
+
+    const { identity, mnemonic } = await manager.prepareRotation('bot');
+    assert.ok(mnemonic);
+    assert.notEqual(mnemonic, originalMnemonic);
+    assert.equal(identityFromMnemonic(mnemonic).getPrincipal().toText(), identity.getPrincipal().toText());
+
+    const resumed = await manager.prepareRotation('bot');
+    assert.equal(resumed.mnemonic, undefined);
+    assert.equal(resumed.identity.getPrincipal().toText(), identity.getPrincipal().toText());
+
+    await manager.completeRotation('bot');
+    const record = await keyStore.read('bot');
+
+    assert.equal(record?.keyType, 'secp256k1');
+    assert.equal(record?.derivationPath, MNEMONIC_DERIVATION_PATH);
+    assert.equal(record?.principal, identity.getPrincipal().toText());
+  });
+
+  it('records the organization update request of an unfinished rotation', async () => {
+    await manager.generateIdentity('bot');
+
+    await assert.rejects(manager.setRotationRequest('bot', { organizationId: 1n, requestId: 5n }), X402MultiSigError);
+
+    await manager.prepareRotation('bot');
+    await manager.setRotationRequest('bot', { organizationId: 1n, requestId: 5n });
+    assert.deepEqual(await manager.getRotationRequest('bot'), { organizationId: 1n, requestId: 5n });
+
+    await manager.setRotationRequest('bot', undefined);
+    assert.equal(await manager.getRotationRequest('bot'), undefined);
+
+    assert.equal(await manager.abortRotation('bot'), true);
+    assert.equal(await manager.getRotationRequest('bot'), undefined);
+  });
+
+  it('lists rotation records separately from identities', async () => {
+    await manager.generateIdentity('bot');
+    await manager.generateIdentity('other');
+    const { archivedAs: first } = await manager.prepareRotation('bot').then(() => manager.completeRotation('bot'));
+    // Archive names carry a millisecond timestamp
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const { archivedAs: second } = await manager.prepareRotation('bot').then(() => manager.completeRotation('bot'));
+    await manager.prepareRotation('bot');
+
+    assert.deepEqual((await manager.listIdentities()).sort(), ['bot', 'other']);
+    assert.deepEqual(await manager.listArchivedIdentities('bot'), [first, second]);
+    assert.deepEqual(await manager.listArchivedIdentities('other'), []);
+  });
+});
+
+describe('X402MultiSig.rotateIdentity', () => {
+  const ORGANIZATION_ID = 1n;
+  const OTHER_OPERATOR = Principal.fromText('aaaaa-aa');
+
+  let keyStore: MemoryKeyStore;
+  let manager: IdentityManager;
+  let operators: Principal[];
+  let proposed: bigint[];
+  let registered: string[];
+  /** Outcome of the next waitForSignature calls (an error to throw, or undefined to execute the request) */
+  let waitOutcomes: Array<Error | undefined>;
+  let waitedOn: bigint[];
+
+  beforeEach(() => {
+    keyStore = new MemoryKeyStore();
+    manager = new IdentityManager(keyStore, { logger: silentLogger });
+    proposed = [];
+    registered = [];
+    waitOutcomes = [];
+    waitedOn = [];
+
+    mock.method(IcAgentClient, 'create', async () => ({}));
+    mock.method(RegisterClient.prototype, 'getUser', async () => null);
+    mock.method(RegisterClient.prototype, 'registerUser', async (username: string) => {
+      registered.push(username);
+      return {};
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function createBot(): Promise<X402MultiSig> {
+    const identity = await manager.loadIdentity('bot');
+    operators = [OTHER_OPERATOR, identity.getPrincipal()];
+    let pendingOperators = operators;
+
+    const x402Client = {
+      getOrganization: async () => ({ organization_op: operators }),
+      createUpdateOrganizationRequest: async (update: { update_operator: [Principal[]] }) => {
+        proposed.push(BigInt(proposed.length + 1));
+        // Executed once waitForSignature succeeds
+        pendingOperators = update.update_operator[0];
+        return BigInt(proposed.length);
+      },
+    };
+    const agentClient = { replaceIdentity: () => undefined };
+    const options = { identityName: 'bot', host: 'http://localhost:4943', logger: silentLogger, registerCanisterId: 'aaaaa-aa' };
+
+    const bot = new (X402MultiSig as any)(identity, agentClient, x402Client, options, manager) as X402MultiSig;
+    bot.waitForSignature = (async (requestId: bigint) => {
+      waitedOn.push(requestId);
+      const outcome = waitOutcomes.shift();
+      if (outcome) {
+        throw outcome;
+      }
+      operators = pendingOperators;
+      return {};
+    }) as X402MultiSig['waitForSignature'];
+    return bot;
+  }
+
+  const rotate = (bot: X402MultiSig, options: RotateIdentityOptions = {}) =>
+    bot.rotateIdentity({ organizationId: ORGANIZATION_ID, ...options });
+
+  it('waits on the recorded request when resuming an interrupted rotation', async () => {
+    await manager.generateIdentity('bot', false, 'alice');
+    const bot = await createBot();
+    waitOutcomes.push(new SignatureTimeoutError(1n, 'maxAttempts'));
+
+    await assert.rejects(rotate(bot), SignatureTimeoutError);
+    assert.deepEqual(await manager.getRotationRequest('bot'), { organizationId: ORGANIZATION_ID, requestId: 1n });
+
+    const result = await rotate(bot);
+
+    assert.deepEqual(proposed, [1n]);
+    assert.deepEqual(waitedOn, [1n, 1n]);
+    assert.equal(result.requestId, 1n);
+    assert.equal(result.principal, bot.getPrincipalId());
+    assert.deepEqual(operators.map(op => op.toText()), [OTHER_OPERATOR.toText(), result.principal]);
+    assert.equal(await keyStore.read('bot.next'), undefined);
+  });
+
+  it('proposes a new request when the recorded one was rejected', async () => {
+    await manager.generateIdentity('bot', false, 'alice');
+    const bot = await createBot();
+    waitOutcomes.push(new SignatureRejectedError(1n));
+
+    await assert.rejects(rotate(bot), SignatureRejectedError);
+    assert.equal(await manager.getRotationRequest('bot'), undefined);
+
+    const result = await rotate(bot);
+
+    assert.deepEqual(proposed, [1n, 2n]);
+    assert.equal(result.requestId, 2n);
+  });
+
+  it('skips the organization update once the operators list the new principal', async () => {
+    await manager.generateIdentity('bot', false, 'alice');
+    const bot = await createBot();
+    const { identity } = await manager.prepareRotation('bot');
+    operators = [OTHER_OPERATOR, identity.getPrincipal()];
+
+    const result = await rotate(bot);
+
+    assert.deepEqual(proposed, []);
+    assert.equal(result.requestId, undefined);
+    assert.equal(result.principal, identity.getPrincipal().toText());
+  });
+
+  it('replaces the username suffix of the previous rotation', async () => {
+    await manager.generateIdentity('bot', false, 'alice');
+    const bot = await createBot();
+
+    const first = await bot.rotateIdentity();
+    const second = await bot.rotateIdentity();
+
+    assert.equal(first.username, `alice_${prefix(first.principal)}`);
+    assert.equal(second.username, `alice_${prefix(second.principal)}`);
+    assert.deepEqual(registered, [first.username, second.username]);
+    assert.equal(await manager.getUsername('bot'), second.username);
+  });
+
+  it('hands out the new mnemonic of a mnemonic backed identity once', async () => {
+    await manager.generateIdentityWithMnemonic('bot', false, 'alice');
+    const bot = await createBot();
+    const mnemonics: string[] = [];
+    waitOutcomes.push(new SignatureTimeoutError(1n, 'deadline'));
+
+    await assert.rejects(rotate(bot, { onMnemonic: mnemonic => { mnemonics.push(mnemonic); } }), SignatureTimeoutError);
+    const result = await rotate(bot, { onMnemonic: mnemonic => { mnemonics.push(mnemonic); } });
+
+    assert.equal(mnemonics.length, 1);
+    assert.equal(result.mnemonic, undefined);
+    assert.equal(identityFromMnemonic(mnemonics[0]).getPrincipal().toText(), result.principal);
+    assert.ok((await manager.loadIdentity('bot')) instanceof Secp256k1KeyIdentity);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Session Identity Tests
+ *
+ * Sessions are persisted in the identity records of a MemoryKeyStore.
+ */
+
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import { ValidationError } from '../src/errors.js';
+import { MemoryKeyStore } from '../src/identity/keystore.js';
+import { IdentityManager } from '../src/identity/manager.js';
+import { SessionManager, type SessionStore, type StoredSession } from '../src/identity/session.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+const TARGETS = ['aaaaa-aa'];
+
+/**
+ * Principal of the session key of a persisted session
+ */
+function sessionKeyOf(session: StoredSession | undefined): string | undefined {
+  return session && Ed25519KeyIdentity.fromParsedJson(session.sessionKey).getPrincipal().toText();
+}
+
+describe('SessionManager', () => {
+  let master: Ed25519KeyIdentity;
+  let manager: IdentityManager;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    manager = new IdentityManager(new MemoryKeyStore(), { logger: silentLogger });
+    master = (await manager.generateIdentity('bot')) as Ed25519KeyIdentity;
+    store = manager.createSessionStore('bot');
+  });
+
+  it('issues one session with the master principal and reuses it', async () => {
+    const sessions = new SessionManager(master, { targets: TARGETS, store });
+
+    const [first, concurrent] = await Promise.all([sessions.getIdentity(), sessions.getIdentity()]);
+
+    assert.equal(first, concurrent);
+    assert.equal(first.getPrincipal().toText(), master.getPrincipal().toText());
+    assert.equal(await sessions.getIdentity(), first);
+    assert.ok(sessions.getExpiry()!.getTime() > Date.now() + 7 * 60 * 60 * 1000);
+
+    const stored = await store.load();
+    assert.deepEqual(stored?.targets, TARGETS);
+    assert.equal(stored?.expiresAt, sessions.getExpiry()!.toISOString());
+  });
+
+  it('restores the persisted session on the next start', async () => {
+    await new SessionManager(master, { targets: TARGETS, store }).getIdentity();
+    const persisted = await store.load();
+
+    const restarted = new SessionManager(master, { targets: TARGETS, store });
+    const identity = await restarted.getIdentity();
+
+    assert.equal(identity.getPrincipal().toText(), master.getPrincipal().toText());
+    assert.equal(restarted.getExpiry()?.toISOString(), persisted?.expiresAt);
+    assert.equal(sessionKeyOf(await store.load()), sessionKeyOf(persisted));
+  });
+
+  it('issues a new session instead of restoring one scoped to other canisters or expiring', async () => {
+    await new SessionManager(master, { targets: TARGETS, store }).getIdentity();
+    const persisted = await store.load();
+
+    await new SessionManager(master, { targets: ['2vxsx-fae'], store }).getIdentity();
+    assert.notEqual(sessionKeyOf(await store.load()), sessionKeyOf(persisted));
+
+    const expiring = await store.load();
+    await store.save({ ...expiring!, expiresAt: new Date(Date.now() + 60_000).toISOString() });
+    await new SessionManager(master, { targets: ['2vxsx-fae'], store }).getIdentity();
+    assert.notEqual(sessionKeyOf(await store.load()), sessionKeyOf(expiring));
+  });
+
+  it('issues a session from the new master identity after rotation', async () => {
+    const sessions = new SessionManager(master, { targets: TARGETS, store });
+    await sessions.getIdentity();
+    const rotated = Ed25519KeyIdentity.generate();
+
+    // The persisted session of the previous key is not restored
+    const restarted = new SessionManager(rotated, { targets: TARGETS, store });
+    assert.equal((await restarted.getIdentity()).getPrincipal().toText(), rotated.getPrincipal().toText());
+
+    sessions.setMasterIdentity(rotated);
+    assert.equal((await sessions.getIdentity()).getPrincipal().toText(), rotated.getPrincipal().toText());
+  });
+
+  it('rejects invalid configurations', () => {
+    assert.throws(() => new SessionManager(master, { ttlSeconds: 0 }), ValidationError);
+    assert.throws(() => new SessionManager(master, { ttlSeconds: 60, refreshMarginSeconds: 60 }), ValidationError);
+    assert.throws(() => new SessionManager(master, { targets: ['not a principal'] }), (error: unknown) =>
+      error instanceof ValidationError && error.field === 'targets');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Vault Discovery Tests
+ *
+ * The X402 Canister client is stubbed with in-memory organizations and vaults.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import type { OrganizationRole, UserStatus, VaultIdList } from '../src/canisters/idl/multisig.idl.js';
+import type { Vault } from '../src/canisters/x402.js';
+import {
+  X402MultiSig,
+  type PaymentRequirements,
+  type SignRequestParams,
+} from '../src/client.js';
+import { ValidationError, X402MultiSigError } from '../src/errors.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+const VAULT_ADDRESS = '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d';
+
+function vault(vaultId: bigint, organizationId: bigint, ethAddress: string = VAULT_ADDRESS): Vault {
+  return {
+    vault_id: vaultId,
+    organization_id: organizationId,
+    eth_address: ethAddress,
+    vault_name: `vault ${vaultId}`,
+  } as Vault;
+}
+
+function membership(organizationId: bigint, roles: OrganizationRole[] = []): UserStatus {
+  return {
+    user_name: 'bot',
+    organization_id: organizationId,
+    viewer_in_vault: false,
+    roles: roles.length > 0 ? [roles] : [],
+  };
+}
+
+interface Canister {
+  bot: X402MultiSig;
+  /** Queries made, as '<method> <argument>' */
+  queries: string[];
+}
+
+/**
+ * Bot that is a member of the given organizations
+ */
+function canister(
+  memberships: UserStatus[],
+  vaults: Vault[],
+  userVaultIds: Record<string, VaultIdList> = {}
+): Canister {
+  const queries: string[] = [];
+  const x402Client = {
+    getUserStatus: async () => memberships,
+    getVaultsInOrganization: async (organizationId: bigint) => {
+      queries.push(`getVaultsInOrganization ${organizationId}`);
+      return vaults.filter(candidate => candidate.organization_id === organizationId);
+    },
+    getUserVaultIds: async (_username: string, organizationId: bigint) => {
+      queries.push(`getUserVaultIds ${organizationId}`);
+      return userVaultIds[organizationId.toString()] ?? null;
+    },
+    getVault: async (vaultId: bigint) => {
+      queries.push(`getVault ${vaultId}`);
+      return vaults.find(candidate => candidate.vault_id === vaultId) ?? null;
+    },
+  };
+  const bot = new (X402MultiSig as any)(Ed25519KeyIdentity.generate(), {}, x402Client, { logger: silentLogger });
+  return { bot, queries };
+}
+
+describe('listMyVaults', () => {
+  const VAULTS = [vault(4n, 1n), vault(1n, 1n), vault(2n, 2n), vault(3n, 2n), vault(5n, 2n)];
+
+  it('lists all vaults of organizations the bot operates, and its own vaults elsewhere', async () => {
+    const { bot, queries } = canister(
+      [membership(1n, [{ Op: null }]), membership(2n, [{ Viewer: null }])],
+      VAULTS,
+      { 2: { vault_ids: [3n], wallet_viewer: [[2n, 3n]] } }
+    );
+
+    const vaults = await bot.listMyVaults();
+
+    assert.deepEqual(vaults.map(candidate => candidate.vault_id), [1n, 2n, 3n, 4n]);
+    assert.deepEqual(queries, ['getVaultsInOrganization 1', 'getUserVaultIds 2', 'getVault 3', 'getVault 2']);
+  });
+
+  it('filters by organization', async () => {
+    const { bot } = canister([membership(1n, [{ Admin: null }]), membership(2n, [{ Admin: null }])], VAULTS);
+
+    const vaults = await bot.listMyVaults({ organizationId: 2n });
+
+    assert.deepEqual(vaults.map(candidate => candidate.vault_id), [2n, 3n, 5n]);
+  });
+});
+
+describe('resolveFromAddress', () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '1000',
+    resource: 'https://api.example.com/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 300,
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    domainChainId: '0x14a34',
+    extra: { name: 'USDC', version: '2' },
+  };
+
+  /**
+   * Bot whose signature requests are executed as soon as they are created
+   */
+  function payingBot(vaults: Vault[]): Canister & { signRequests: SignRequestParams[] } {
+    const { bot, queries } = canister([membership(1n, [{ Op: null }])], vaults);
+    const signRequests: SignRequestParams[] = [];
+    bot.createSignRequest = async (params: SignRequestParams) => {
+      signRequests.push(params);
+      return 7n;
+    };
+    bot.waitForSignature = async (requestId: bigint) => ({ status: 'Executed', requestId, createdAt: 0, signature: 'abcd' });
+    return { bot, queries, signRequests };
+  }
+
+  it('pays from the EVM address of the vault, looked up once', async () => {
+    const { bot, queries } = payingBot([vault(1n, 1n)]);
+
+    const first = await bot.createPaymentHeader({ vaultId: 1n, resolveFromAddress: true, paymentRequirements });
+    const second = await bot.createPaymentHeader({
+      vaultId: 1n,
+      fromAddress: VAULT_ADDRESS.toLowerCase() as `0x${string}`,
+      resolveFromAddress: true,
+      paymentRequirements,
+    });
+
+    assert.equal(first.authorization.from, VAULT_ADDRESS);
+    assert.equal(second.authorization.from, VAULT_ADDRESS);
+    assert.deepEqual(queries, ['getVault 1']);
+  });
+
+  it('uses the addresses cached by listMyVaults', async () => {
+    const { bot, queries } = payingBot([vault(1n, 1n)]);
+
+    await bot.listMyVaults();
+    await bot.createPaymentHeader({ vaultId: 1n, resolveFromAddress: true, paymentRequirements });
+
+    assert.deepEqual(queries, ['getVaultsInOrganization 1']);
+  });
+
+  it('rejects a fromAddress that is not the vault address', async () => {
+    const { bot, signRequests } = payingBot([vault(1n, 1n)]);
+
+    await assert.rejects(
+      bot.createPaymentHeader({
+        vaultId: 1n,
+        fromAddress: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+        resolveFromAddress: true,
+        paymentRequirements,
+      }),
+      (error: unknown) => error instanceof ValidationError && error.field === 'fromAddress'
+    );
+    assert.deepEqual(signRequests, []);
+  });
+
+  it('fails for missing vaults and vaults without an EVM address', async () => {
+    const { bot } = payingBot([vault(2n, 1n, '')]);
+
+    await assert.rejects(bot.createPaymentHeader({ vaultId: 1n, resolveFromAddress: true, paymentRequirements }),
+      (error: unknown) => error instanceof ValidationError && error.field === 'vaultId');
+    await assert.rejects(bot.createPaymentHeader({ vaultId: 2n, resolveFromAddress: true, paymentRequirements }),
+      (error: unknown) => error instanceof X402MultiSigError && /has no EVM address/.test(error.message));
+  });
+});
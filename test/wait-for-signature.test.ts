@@ -0,0 +1,284 @@
+/**
+ * Signature Waiting Tests
+ *
+ * The X402 Canister client replays a scripted sequence of request records, one per query.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyIdentity } from '@dfinity/identity';
+import type { Principal } from '@dfinity/principal';
+import type { RequestRecord, RequestStatus } from '../src/canisters/idl/multisig.idl.js';
+import {
+  X402MultiSig,
+  type PaymentRequirements,
+  type SignatureApprovalEvent,
+  type SignatureExecuteEvent,
+  type SignatureStatusChangeEvent,
+  type SignRequestParams,
+  type WaitForSignatureOptions,
+} from '../src/client.js';
+import {
+  AuthorizationExpiredError,
+  SignatureRejectedError,
+  SignatureTimeoutError,
+  X402MultiSigError,
+} from '../src/errors.js';
+import { silentLogger } from '../src/utils/logger.js';
+
+const FAST = { initialDelay: 1, maxDelay: 1 };
+
+const APPROVER_A = Ed25519KeyIdentity.generate().getPrincipal();
+const APPROVER_B = Ed25519KeyIdentity.generate().getPrincipal();
+
+type Vote = [approver: Principal, approved: boolean, timestamp: bigint];
+
+function requestRecord(status: RequestStatus, votes: Vote[] = []): RequestRecord {
+  return {
+    id: 7n,
+    execution_result: status === 'Executed' ? ['0xsignature'] : [],
+    status: { [status]: null } as RequestRecord['status'],
+    executed_at: status === 'Executed' ? [2_000_000_000n] : [],
+    request: { request_type: { ETHSign: { action: { vault_id: 1n, message: '0x' } } }, expire_time: [] },
+    created_at: 1_000_000_000n,
+    proposer: APPROVER_A,
+    approvals: votes.map(([approver, approved, timestamp]) => ({ approver, approved, timestamp })),
+  };
+}
+
+interface Canister {
+  bot: X402MultiSig;
+  /** Number of getRequest queries made */
+  queries: () => number;
+}
+
+/**
+ * Bot whose request goes through the given records (the last one is repeated)
+ */
+function canister(records: Array<RequestRecord | null>, x402Client: object = {}, options: object = {}): Canister {
+  let queries = 0;
+  const client = {
+    getRequest: async (_requestId: bigint, _withDetails: boolean) => records[Math.min(queries++, records.length - 1)],
+    ...x402Client,
+  };
+  const bot = new (X402MultiSig as any)(Ed25519KeyIdentity.generate(), {}, client, { logger: silentLogger, ...options });
+  return { bot, queries: () => queries };
+}
+
+describe('waitForSignature', () => {
+  it('emits status changes and each new vote once, then returns the signature', async () => {
+    const { bot, queries } = canister([
+      requestRecord('Pending'),
+      requestRecord('Pending', [[APPROVER_A, true, 1_000_000n]]),
+      requestRecord('Pending', [[APPROVER_A, true, 1_000_000n], [APPROVER_B, false, 2_000_000n]]),
+      requestRecord('Executed', [[APPROVER_A, true, 1_000_000n], [APPROVER_B, false, 2_000_000n]]),
+    ]);
+    const statusChanges: SignatureStatusChangeEvent[] = [];
+    const approvals: SignatureApprovalEvent[] = [];
+
+    const result = await bot.waitForSignature(7n, {
+      backoff: FAST,
+      onStatusChange: event => statusChanges.push(event),
+      onApproval: event => approvals.push(event),
+    });
+
+    assert.deepEqual(result, { status: 'Executed', requestId: 7n, createdAt: 1000, signature: '0xsignature', executedAt: 2000 });
+    assert.equal(queries(), 4);
+    assert.deepEqual(statusChanges.map(event => [event.previousStatus, event.status]), [
+      [undefined, 'Pending'],
+      ['Pending', 'Executed'],
+    ]);
+    assert.deepEqual(approvals.map(({ approver, approved, timestamp, approvalCount, rejectionCount }) =>
+      ({ approver, approved, timestamp, approvalCount, rejectionCount })), [
+      { approver: APPROVER_A.toText(), approved: true, timestamp: 1, approvalCount: 1, rejectionCount: 0 },
+      { approver: APPROVER_B.toText(), approved: false, timestamp: 2, approvalCount: 1, rejectionCount: 1 },
+    ]);
+  });
+
+  it('throws SignatureRejectedError once approvers reject the request', async () => {
+    const { bot } = canister([requestRecord('Pending'), requestRecord('Rejected')]);
+
+    await assert.rejects(bot.waitForSignature(7n, { backoff: FAST }), (error: unknown) =>
+      error instanceof SignatureRejectedError && error.requestId === 7n);
+  });
+
+  it('throws SignatureTimeoutError when the request expires', async () => {
+    const { bot } = canister([requestRecord('Expired')]);
+
+    await assert.rejects(bot.waitForSignature(7n, { backoff: FAST }), (error: unknown) =>
+      error instanceof SignatureTimeoutError && error.reason === 'expired');
+  });
+
+  it('gives up after maxAttempts queries', async () => {
+    const { bot, queries } = canister([requestRecord('Pending')]);
+
+    await assert.rejects(bot.waitForSignature(7n, { backoff: FAST, maxAttempts: 3 }), (error: unknown) =>
+      error instanceof SignatureTimeoutError && error.reason === 'maxAttempts' && error.lastStatus === 'Pending');
+    assert.equal(queries(), 3);
+  });
+
+  it('gives up once the deadline has passed', async () => {
+    const { bot } = canister([requestRecord('Pending')]);
+
+    await assert.rejects(bot.waitForSignature(7n, { backoff: { initialDelay: 10 }, deadline: Date.now() + 30 }),
+      (error: unknown) => error instanceof SignatureTimeoutError && error.reason === 'deadline');
+  });
+
+  it('stops with the abort reason when the signal is aborted', async () => {
+    const { bot, queries } = canister([requestRecord('Pending')]);
+    const controller = new AbortController();
+    const reason = new Error('shutting down');
+
+    const waiting = bot.waitForSignature(7n, {
+      signal: controller.signal,
+      backoff: { initialDelay: 60_000 },
+    });
+    setTimeout(() => controller.abort(reason), 10);
+
+    await assert.rejects(waiting, error => error === reason);
+    assert.equal(queries(), 1);
+  });
+
+  it('fails when the request does not exist', async () => {
+    const { bot } = canister([null]);
+
+    await assert.rejects(bot.waitForSignature(7n), X402MultiSigError);
+  });
+});
+
+describe('authorization validity window', () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '1000',
+    resource: 'https://api.example.com/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: '0x209693Bc6afc0C5328bA36FaF03C514EF312287C',
+    maxTimeoutSeconds: 20,
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    domainChainId: '0x14a34',
+    extra: { name: 'USDC', version: '2' },
+  };
+  const payer = { vaultId: 1n, fromAddress: '0x92e07732b23258Ac4c8b5856a11e1D0F5D72749d' as const };
+
+  interface PayingBot {
+    bot: X402MultiSig;
+    signRequests: SignRequestParams[];
+    waits: WaitForSignatureOptions[];
+  }
+
+  /**
+   * Bot whose signature requests are executed as soon as they are waited on
+   */
+  function payingBot(): PayingBot {
+    const { bot } = canister([]);
+    const signRequests: SignRequestParams[] = [];
+    const waits: WaitForSignatureOptions[] = [];
+    bot.createSignRequest = async (params: SignRequestParams) => {
+      signRequests.push(params);
+      return 7n;
+    };
+    bot.waitForSignature = async (requestId: bigint, options: WaitForSignatureOptions = {}) => {
+      waits.push(options);
+      return { status: 'Executed', requestId, createdAt: 0, signature: 'abcd' };
+    };
+    return { bot, signRequests, waits };
+  }
+
+  it('stops waiting with AuthorizationExpiredError instead of sleeping past validBefore', async () => {
+    const { bot } = canister([requestRecord('Pending')]);
+    const validBefore = Date.now() / 1000 + 0.05;
+    const started = Date.now();
+
+    await assert.rejects(
+      bot.waitForSignature(7n, { backoff: { initialDelay: 60_000 }, validBefore, validityMarginSeconds: 0 }),
+      (error: unknown) => error instanceof AuthorizationExpiredError &&
+        error.validBefore === validBefore && error.requestId === 7n
+    );
+    assert.ok(Date.now() - started < 5_000);
+  });
+
+  it('caps the default margin at a quarter of a short validity window', async () => {
+    const { bot, signRequests, waits } = payingBot();
+
+    const payment = await bot.createPaymentHeader({ ...payer, paymentRequirements, syncRequestExpiry: true });
+
+    const validBefore = Number(payment.authorization.validBefore);
+    assert.equal(payment.requestId, 7n);
+    assert.equal(waits[0].validBefore, validBefore);
+    assert.equal(waits[0].validityMarginSeconds, 5);
+    assert.equal(signRequests[0].expireTime, BigInt(validBefore - 5) * 1_000_000_000n);
+  });
+
+  it('does not create a request for an authorization that expires within the margin', async () => {
+    const { bot, signRequests } = payingBot();
+
+    await assert.rejects(
+      bot.createPaymentHeader({ ...payer, paymentRequirements, polling: { validityMarginSeconds: 20 } }),
+      (error: unknown) => error instanceof AuthorizationExpiredError && error.requestId === undefined
+    );
+    assert.deepEqual(signRequests, []);
+  });
+});
+
+describe('waitForSignature autoExecute', () => {
+  it('executes an Approved request, retrying a failed call on the next poll', async () => {
+    const failure = new Error('canister busy');
+    const outcomes: Array<boolean | Error> = [failure, true];
+    const executed: bigint[] = [];
+    const { bot, queries } = canister(
+      [requestRecord('Approved'), requestRecord('Approved'), requestRecord('Executed')],
+      {
+        executeRequest: async (requestId: bigint) => {
+          executed.push(requestId);
+          const outcome = outcomes.shift();
+          if (outcome instanceof Error) {
+            throw outcome;
+          }
+          return outcome;
+        },
+      }
+    );
+    const events: SignatureExecuteEvent[] = [];
+
+    const result = await bot.waitForSignature(7n, {
+      backoff: FAST,
+      autoExecute: true,
+      onExecute: event => events.push(event),
+    });
+
+    assert.deepEqual(executed, [7n, 7n]);
+    assert.deepEqual(events.map(({ executed, error }) => ({ executed, error })), [
+      { executed: false, error: failure },
+      { executed: true, error: undefined },
+    ]);
+    assert.equal(queries(), 3);
+    assert.equal(result.executeResult, true);
+    assert.equal(result.signature, '0xsignature');
+  });
+
+  it('follows the client option unless overridden per call', async () => {
+    const records = [requestRecord('Approved'), requestRecord('Executed')];
+    let executions = 0;
+    const x402Client = {
+      executeRequest: async () => {
+        executions++;
+        return true;
+      },
+    };
+
+    const enabled = await canister(records, x402Client, { autoExecute: true }).bot.waitForSignature(7n, { backoff: FAST });
+    assert.equal(enabled.executeResult, true);
+    assert.equal(executions, 1);
+
+    const disabled = await canister(records, x402Client, { autoExecute: true }).bot
+      .waitForSignature(7n, { backoff: FAST, autoExecute: false });
+    assert.equal(disabled.executeResult, undefined);
+    assert.equal(executions, 1);
+
+    const byDefault = await canister(records, x402Client).bot.waitForSignature(7n, { backoff: FAST });
+    assert.equal(byDefault.executeResult, undefined);
+    assert.equal(executions, 1);
+  });
+});